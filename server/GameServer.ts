@@ -0,0 +1,178 @@
+import { randomInt } from 'node:crypto';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import { Connection, Room } from './Room';
+import { ClientMessage, MAX_ROOM_SEATS, MIN_ROOM_SEATS, ServerMessage } from '../src/net/Protocol';
+import { BUNDLED_MAPS } from '../src/maps';
+
+// How long a room with nobody connected is kept for players to come back
+const EMPTY_ROOM_TIMEOUT = 10 * 60 * 1000;
+
+// Letters that can't be mistaken for each other when read out loud
+const ROOM_ID_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+class SocketConnection implements Connection {
+  public room: Room | null = null;
+  
+  constructor(private socket: WebSocket) {}
+  
+  public send(message: ServerMessage): void {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+// Hosts rooms over WebSocket and routes client messages to them
+export class GameServer {
+  private wss: WebSocketServer;
+  private rooms = new Map<string, Room>();
+  private cleanupTimers = new Map<Room, ReturnType<typeof setTimeout>>();
+  
+  constructor(port: number) {
+    this.wss = new WebSocketServer({ port });
+    this.wss.on('connection', socket => this.onConnection(socket));
+  }
+  
+  // Resolves once the server accepts connections
+  public ready(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.wss.address()) {
+        resolve();
+        return;
+      }
+      this.wss.once('listening', resolve);
+      this.wss.once('error', reject);
+    });
+  }
+  
+  public getPort(): number {
+    const address = this.wss.address();
+    return address && typeof address === 'object' ? address.port : 0;
+  }
+  
+  public close(): Promise<void> {
+    for (const timer of this.cleanupTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.cleanupTimers.clear();
+    this.rooms.clear();
+    
+    for (const client of this.wss.clients) {
+      client.terminate();
+    }
+    return new Promise(resolve => this.wss.close(() => resolve()));
+  }
+  
+  private onConnection(socket: WebSocket): void {
+    const connection = new SocketConnection(socket);
+    
+    socket.on('message', (data: RawData) => {
+      let message: ClientMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        connection.send({ type: 'error', message: 'Message is not valid JSON' });
+        return;
+      }
+      
+      try {
+        this.handle(connection, message);
+      } catch (error) {
+        connection.send({ type: 'error', message: (error as Error).message });
+      }
+    });
+    
+    socket.on('close', () => {
+      const room = connection.room;
+      if (room) {
+        room.disconnect(connection);
+        this.scheduleCleanup(room);
+      }
+    });
+  }
+  
+  private handle(connection: SocketConnection, message: ClientMessage): void {
+    switch (message.type) {
+      case 'listRooms':
+        connection.send({ type: 'rooms', rooms: [...this.rooms.values()].map(r => r.getInfo()) });
+        break;
+      case 'createRoom': {
+        const map = BUNDLED_MAPS.find(m => m.id === message.mapId) ?? BUNDLED_MAPS[0];
+        const seats = Math.max(MIN_ROOM_SEATS, Math.min(MAX_ROOM_SEATS, Math.floor(message.seats) || MIN_ROOM_SEATS));
+        const room = new Room(this.createRoomId(), map, seats);
+        this.enter(connection, room, () => room.join(message.playerName, connection));
+        // Only listed once its creator is seated
+        this.rooms.set(room.id, room);
+        break;
+      }
+      case 'joinRoom': {
+        const room = this.getRoom(message.roomId);
+        this.enter(connection, room, () => room.join(message.playerName, connection));
+        break;
+      }
+      case 'resume': {
+        const room = this.getRoom(message.roomId);
+        this.enter(connection, room, () => room.resume(message.token, connection));
+        break;
+      }
+      case 'leaveRoom':
+        if (connection.room) {
+          const room = connection.room;
+          connection.room = null;
+          room.disconnect(connection, true);
+          this.scheduleCleanup(room);
+        }
+        break;
+      default:
+        if (!connection.room) {
+          throw new Error('Join a room first');
+        }
+        connection.room.handle(connection, message);
+    }
+  }
+  
+  // Moves a connection into a room, leaving the one it was in
+  private enter(connection: SocketConnection, room: Room, seat: () => void): void {
+    seat();
+    
+    if (connection.room && connection.room !== room) {
+      const previous = connection.room;
+      previous.disconnect(connection, true);
+      this.scheduleCleanup(previous);
+    }
+    connection.room = room;
+    
+    const timer = this.cleanupTimers.get(room);
+    if (timer) {
+      clearTimeout(timer);
+      this.cleanupTimers.delete(room);
+    }
+  }
+  
+  private getRoom(id: string): Room {
+    const room = this.rooms.get(id.trim().toUpperCase());
+    if (!room) {
+      throw new Error(`No room with id ${id}`);
+    }
+    return room;
+  }
+  
+  private scheduleCleanup(room: Room): void {
+    if (!room.isEmpty() || this.cleanupTimers.has(room) || !this.rooms.has(room.id)) return;
+    
+    this.cleanupTimers.set(room, setTimeout(() => {
+      this.cleanupTimers.delete(room);
+      if (room.isEmpty()) {
+        this.rooms.delete(room.id);
+      }
+    }, EMPTY_ROOM_TIMEOUT));
+  }
+  
+  private createRoomId(): string {
+    let id: string;
+    do {
+      id = Array.from({ length: 5 }, () => ROOM_ID_ALPHABET[randomInt(ROOM_ID_ALPHABET.length)]).join('');
+    } while (this.rooms.has(id));
+    return id;
+  }
+}
@@ -0,0 +1,290 @@
+import { randomUUID } from 'node:crypto';
+import { Board, Owner } from '../src/game/Board';
+import { Rules } from '../src/game/Rules';
+import { Random } from '../src/game/Random';
+import { createFactions, Faction, NEUTRAL, nextInTurnOrder } from '../src/game/Faction';
+import { createTerritories, MapDefinition } from '../src/game/MapLoader';
+import { TerritorySnapshot } from '../src/game/Replay';
+import { ClientMessage, RoomInfo, RoomState, ServerMessage } from '../src/net/Protocol';
+
+// One open socket, whatever transport it runs on
+export interface Connection {
+  send(message: ServerMessage): void;
+}
+
+interface Seat {
+  faction: Faction;
+  // Secret handed to the player who took the seat, used to resume it
+  token: string | null;
+  connection: Connection | null;
+}
+
+// The authoritative state of one match; clients only send intents
+export class Room {
+  private seats: Seat[];
+  private rules: Rules;
+  private started = false;
+  private currentTurn: Owner;
+  private turnNumber = 1;
+  // Units the current faction still has to place
+  private reinforcements = 0;
+  
+  constructor(public readonly id: string, private map: MapDefinition, seatCount: number, seed?: number) {
+    const factions = createFactions(0, seatCount);
+    this.seats = factions.map(faction => ({ faction, token: null, connection: null }));
+    this.rules = new Rules(
+      new Board(createTerritories(map, factions.map(f => f.id)), map.regions ?? []),
+      new Random(seed)
+    );
+    this.currentTurn = factions[0].id;
+  }
+  
+  public getInfo(): RoomInfo {
+    return {
+      id: this.id,
+      mapName: this.map.name,
+      players: this.seats.filter(s => s.token).length,
+      seats: this.seats.length,
+      started: this.started
+    };
+  }
+  
+  public getState(): RoomState {
+    return {
+      roomId: this.id,
+      mapName: this.map.name,
+      factions: this.seats.map(s => ({ ...s.faction })),
+      seats: this.seats.map(s => ({
+        factionId: s.faction.id,
+        name: s.faction.name,
+        taken: s.token !== null,
+        connected: s.connection !== null
+      })),
+      territories: this.rules.getBoard().getTerritories(),
+      regions: this.rules.getBoard().getRegions(),
+      started: this.started,
+      currentTurn: this.currentTurn,
+      turnNumber: this.turnNumber,
+      reinforcements: this.reinforcements,
+      winner: this.rules.getWinner()
+    };
+  }
+  
+  // True when nobody is connected to the room
+  public isEmpty(): boolean {
+    return this.seats.every(s => s.connection === null);
+  }
+  
+  // Takes the first free seat; the game starts once every seat is taken.
+  // The message is checked before anything changes, so a bad one takes no seat.
+  public join(playerName: string, connection: Connection): void {
+    if (typeof playerName !== 'string') {
+      throw new Error('Player name must be text');
+    }
+    if (this.seats.some(s => s.connection === connection)) {
+      throw new Error('You already have a seat in this room');
+    }
+    // The seats of players who left a running game stay out of it
+    if (this.started) {
+      throw new Error('The game has already started');
+    }
+    
+    const seat = this.seats.find(s => !s.token);
+    if (!seat) {
+      throw new Error('Room is full');
+    }
+    
+    seat.faction.name = playerName.trim().slice(0, 24) || seat.faction.name;
+    seat.token = randomUUID();
+    seat.connection = connection;
+    connection.send({ type: 'joined', roomId: this.id, factionId: seat.faction.id, token: seat.token });
+    
+    if (this.seats.every(s => s.token)) {
+      this.started = true;
+      this.reinforcements = this.rules.getReinforcements(this.currentTurn).total;
+    }
+    this.broadcastState();
+  }
+  
+  // Gives a seat back to a player who lost their connection
+  public resume(token: string, connection: Connection): void {
+    const seat = this.seats.find(s => s.token === token);
+    if (!seat) {
+      throw new Error('Unknown seat');
+    }
+    if (seat.connection) {
+      throw new Error('That seat is still connected');
+    }
+    
+    seat.connection = connection;
+    connection.send({ type: 'joined', roomId: this.id, factionId: seat.faction.id, token });
+    this.broadcastState();
+  }
+  
+  // A lost connection keeps its seat for a later resume. Leaving on purpose
+  // frees the seat before the game starts and forfeits it once it has.
+  public disconnect(connection: Connection, leaving: boolean = false): void {
+    const seat = this.seats.find(s => s.connection === connection);
+    if (!seat) return;
+    
+    seat.connection = null;
+    if (leaving) {
+      seat.token = null;
+      if (this.started && this.rules.getWinner() === null) {
+        this.forfeit(seat.faction);
+      }
+    }
+    this.broadcastState();
+  }
+  
+  public handle(connection: Connection, message: ClientMessage): void {
+    const seat = this.seats.find(s => s.connection === connection);
+    if (!seat) {
+      throw new Error('You are not seated in this room');
+    }
+    if (!this.started) {
+      throw new Error('Waiting for more players');
+    }
+    if (this.rules.getWinner() !== null) {
+      throw new Error('The game is over');
+    }
+    if (seat.faction.id !== this.currentTurn) {
+      throw new Error('It is not your turn');
+    }
+    
+    if (message.type !== 'place' && this.reinforcements > 0) {
+      throw new Error(`Place your remaining ${this.reinforcements} reinforcements first`);
+    }
+    
+    switch (message.type) {
+      case 'place':
+        this.place(seat.faction, message.territory, message.units);
+        break;
+      case 'attack':
+        this.attack(seat.faction, message.from, message.to, message.units);
+        break;
+      case 'transfer':
+        this.transfer(seat.faction, message.from, message.to, message.units);
+        break;
+      case 'endTurn':
+        this.endTurn(seat.faction);
+        break;
+      default:
+        throw new Error(`Unexpected message: ${message.type}`);
+    }
+  }
+  
+  private attack(faction: Faction, fromId: string, toId: string, units: number): void {
+    const reason = this.rules.checkAttack(faction.id, fromId, toId, units);
+    if (reason) {
+      throw new Error(reason);
+    }
+    
+    const before = this.snapshot();
+    const board = this.rules.getBoard();
+    const from = board.getTerritory(fromId);
+    const to = board.getTerritory(toId);
+    const result = this.rules.attack(faction.id, fromId, toId, units);
+    
+    const messages = [`${faction.name}: ${from.name} attacks ${to.name} with ${units} units (${result.attackStrength} vs ${result.defenseStrength})`];
+    if (result.captured) {
+      messages.push(`${faction.name} captured ${to.name} with ${result.survivors} units`);
+    } else {
+      messages.push(`${faction.name}'s attack failed! Lost ${result.attackerLosses} units`);
+    }
+    this.broadcastUpdate(before, messages);
+  }
+  
+  private transfer(faction: Faction, fromId: string, toId: string, units: number): void {
+    const reason = this.rules.checkTransfer(faction.id, fromId, toId, units);
+    if (reason) {
+      throw new Error(reason);
+    }
+    
+    const before = this.snapshot();
+    const board = this.rules.getBoard();
+    const result = this.rules.transfer(faction.id, fromId, toId, units);
+    this.broadcastUpdate(before, [
+      `${faction.name} transferred ${result.units} units from ${board.getTerritory(fromId).name} to ${board.getTerritory(toId).name}`
+    ]);
+  }
+  
+  private place(faction: Faction, territoryId: string, units: number): void {
+    const reason = this.rules.checkPlace(faction.id, territoryId, units)
+      ?? (units > this.reinforcements ? `Only ${this.reinforcements} reinforcements left` : null);
+    if (reason) {
+      throw new Error(reason);
+    }
+    
+    const before = this.snapshot();
+    this.rules.place(faction.id, territoryId, units);
+    this.reinforcements -= units;
+    this.broadcastUpdate(before, [
+      `${faction.name} placed ${units} units on ${this.rules.getBoard().getTerritory(territoryId).name}`
+    ]);
+  }
+  
+  private endTurn(faction: Faction): void {
+    const before = this.snapshot();
+    this.broadcastUpdate(before, [`${faction.name} ended their turn.`, this.passTurn(faction)]);
+  }
+  
+  // A faction that left: its territories turn neutral, so the turn order
+  // skips it, and the turn passes on if it was the faction's
+  private forfeit(faction: Faction): void {
+    const before = this.snapshot();
+    for (const territory of this.rules.getBoard().getOwnedBy(faction.id)) {
+      territory.owner = NEUTRAL;
+    }
+    
+    const messages = [`${faction.name} left the game, their territories turn neutral.`];
+    if (this.currentTurn === faction.id && this.rules.getWinner() === null) {
+      messages.push(this.passTurn(faction));
+    }
+    this.broadcastUpdate(before, messages);
+  }
+  
+  // Pass the turn on from the faction and grant the next one its reinforcements
+  private passTurn(faction: Faction): string {
+    const factions = this.seats.map(s => s.faction);
+    const current = factions.indexOf(faction);
+    const next = nextInTurnOrder(factions, current, id => this.rules.getBoard().getOwnedBy(id).length === 0);
+    if (next <= current) {
+      this.turnNumber++;
+    }
+    this.currentTurn = factions[next].id;
+    this.reinforcements = this.rules.getReinforcements(this.currentTurn).total;
+    return `${factions[next].name}'s turn: ${this.reinforcements} reinforcements to place.`;
+  }
+  
+  private snapshot(): Map<string, string> {
+    return new Map(this.rules.getBoard().getTerritories().map(t => [t.id, `${t.owner}:${t.units}`]));
+  }
+  
+  // Send only the territories that changed since the snapshot
+  private broadcastUpdate(before: Map<string, string>, messages: string[]): void {
+    const territories: TerritorySnapshot[] = this.rules.getBoard().getTerritories()
+      .filter(t => before.get(t.id) !== `${t.owner}:${t.units}`)
+      .map(t => ({ id: t.id, owner: t.owner, units: t.units }));
+    
+    this.broadcast({
+      type: 'update',
+      territories,
+      currentTurn: this.currentTurn,
+      turnNumber: this.turnNumber,
+      reinforcements: this.reinforcements,
+      winner: this.rules.getWinner(),
+      messages
+    });
+  }
+  
+  private broadcastState(): void {
+    this.broadcast({ type: 'state', state: this.getState() });
+  }
+  
+  private broadcast(message: ServerMessage): void {
+    for (const seat of this.seats) {
+      seat.connection?.send(message);
+    }
+  }
+}
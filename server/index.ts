@@ -0,0 +1,15 @@
+import { GameServer } from './GameServer';
+
+// Multiplayer server entry point: `npm run server`, PORT overrides the default port
+const port = Number(process.env.PORT ?? 8787);
+const server = new GameServer(port);
+
+server.ready().then(() => {
+  console.log(`Territory server listening on ws://localhost:${server.getPort()}`);
+});
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    server.close().then(() => process.exit(0));
+  });
+}
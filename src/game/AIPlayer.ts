@@ -1,63 +1,228 @@
-import axios from 'axios';
-import { Game } from './Game';
-import { Territory } from './Territory';
+import { Board, Owner, TerritoryData } from './Board';
+import { AttackResult, PlaceResult, Rules, TransferResult } from './Rules';
+import { Faction, NEUTRAL } from './Faction';
+import { StrategyContext, StrategyProvider } from './StrategyProvider';
+import { ActionPlan, checkPlannedMove, findTerritory, isInvalidStep, parseActionPlan } from './ActionPlan';
+import { SearchAI } from './SearchAI';
+import { describeVictory } from './RuleSet';
+import { getCombatModifiers, getTerrain, TERRAIN } from './Terrain';
 
-interface AIAction {
+export interface AIAction {
   type: 'attack' | 'transfer';
-  from: Territory;
-  to: Territory;
+  from: TerritoryData;
+  to: TerritoryData;
+  // Units sent; an attack's survivors move into the captured territory
+  units: number;
   confidence: number;
+  // Set for moves taken from an advisor's plan
+  rationale?: string;
 }
 
 export class AIPlayer {
-  private apiKey: string = 'sk-8f2e34d2ed004ee68f2ed8cb305d5d0a'; // DeepSeek API key
+  // Hooks for recording what the AI decided
+  public onStrategy: (strategy: string) => void = () => {};
+  public onAction: (action: AIAction, result: AttackResult | TransferResult) => void = () => {};
+  public onPlace: (result: PlaceResult) => void = () => {};
   
-  constructor(private game: Game) {}
+  private owner: Owner;
   
-  public async executeTurn(): Promise<void> {
-    // Get all territories
-    const territories = this.game.getTerritories();
-    const aiTerritories = territories.filter(t => t.getOwner() === 'ai');
-    const playerTerritories = territories.filter(t => t.getOwner() === 'player');
-    const neutralTerritories = territories.filter(t => t.getOwner() === 'neutral');
+  constructor(
+    private rules: Rules,
+    private faction: Faction,
+    // Advisor consulted at the start of each turn, none for purely local play
+    private strategy: StrategyProvider | null,
+    // Local search that plays the turn instead; the advisor is not consulted when set
+    private search: SearchAI | null,
+    private onMessage: (message: string) => void,
+    // Waits after each action, e.g. for its animation to play; no wait by default
+    private pause: () => Promise<void> = () => Promise.resolve()
+  ) {
+    this.owner = faction.id;
+  }
+  
+  public getFaction(): Faction {
+    return this.faction;
+  }
+  
+  // Spends the turn's reinforcement pool before attacking
+  public async placeReinforcements(units: number): Promise<void> {
+    if (units <= 0 || this.rules.getBoard().getOwnedBy(this.owner).length === 0) {
+      return;
+    }
+    
+    const board = this.rules.getView(this.owner);
+    const placements = this.search ? this.search.choosePlacements(board, units) : this.choosePlacements(board, units);
+    
+    for (const [id, count] of placements) {
+      const result = this.rules.place(this.owner, id, count);
+      this.onPlace(result);
+    }
+    
+    // Under fog of war the other factions only learn how many units arrived
+    if (this.rules.getFog()) {
+      this.onMessage(`${this.faction.name} placed ${units} reinforcements`);
+    } else {
+      const names = [...placements].map(([id, count]) => `${count} on ${board.getTerritory(id).name}`);
+      this.onMessage(`${this.faction.name} placed ${names.join(', ')}`);
+    }
     
+    await this.pause();
+  }
+  
+  public async executeTurn(): Promise<void> {
     // If no AI territories, can't do anything
-    if (aiTerritories.length === 0) {
+    if (this.rules.getBoard().getOwnedBy(this.owner).length === 0) {
       return;
     }
     
-    // Get AI strategy from DeepSeek
-    let aiStrategy = "";
+    if (this.search) {
+      await this.executeSearchTurn(this.search);
+      return;
+    }
+    
+    const plan = await this.getPlan();
+    
+    // Without a plan, execute the actions with highest confidence
+    if (!plan) {
+      for (const action of this.getPossibleActions().slice(0, this.getMaxActions())) {
+        await this.executeAction(action);
+      }
+      return;
+    }
+    
+    // Follow the plan in order, replacing or skipping moves that are malformed or not legal (any more)
+    for (const step of plan.moves.slice(0, this.getMaxActions())) {
+      const view = this.rules.getView(this.owner);
+      const from = isInvalidStep(step) ? undefined : findTerritory(view, step.from);
+      const to = isInvalidStep(step) ? undefined : findTerritory(view, step.to);
+      let reason = isInvalidStep(step) ? step.error : checkPlannedMove(this.rules, this.owner, step);
+      // Names the model made up are as invalid as an illegal move
+      if (!isInvalidStep(step) && reason === null && (!from || !to)) {
+        reason = `unknown territory "${from ? step.to : step.from}"`;
+      }
+      
+      if (isInvalidStep(step) || reason !== null || !from || !to) {
+        const move = isInvalidStep(step) ? 'a planned move' : `planned ${step.type} ${step.from} -> ${step.to}`;
+        
+        // Only the best move is worth playing in its place, and only if it is worth making at all
+        const replacement = this.getPossibleActions()[0];
+        if (replacement && this.isWorthwhile(replacement)) {
+          this.onMessage(`${this.faction.name} rejected ${move} (${reason}), choosing another move`);
+          await this.executeAction(replacement);
+        } else {
+          this.onMessage(`${this.faction.name} rejected ${move} (${reason}), skipping it`);
+        }
+        continue;
+      }
+      
+      this.onMessage(`${this.faction.name}: ${step.rationale}`);
+      await this.executeAction({
+        type: step.type,
+        from,
+        to,
+        units: step.units,
+        confidence: step.type === 'attack' ? this.evaluateAttack(from, to) : this.evaluateTransfer(from, to),
+        rationale: step.rationale
+      });
+    }
+  }
+  
+  // Searches again before every move, as each attack's outcome changes the best continuation
+  private async executeSearchTurn(search: SearchAI): Promise<void> {
+    const maxActions = this.getMaxActions();
+    for (let i = 0; i < maxActions; i++) {
+      const board = this.rules.getView(this.owner);
+      const move = search.chooseMove(board, maxActions - i);
+      if (!move) {
+        if (i === 0) {
+          this.onMessage(`${this.faction.name} holds its position`);
+        }
+        return;
+      }
+      
+      await this.executeAction({
+        type: move.type,
+        from: board.getTerritory(move.from),
+        to: board.getTerritory(move.to),
+        units: move.units,
+        confidence: move.gain
+      });
+    }
+  }
+  
+  // Moves per turn, set by the rule set
+  private getMaxActions(): number {
+    return this.rules.getOptions().ruleSet.aiActionsPerTurn;
+  }
+  
+  // Asks the advisor for an action plan; null when there is no advisor or its reply is unusable
+  private async getPlan(): Promise<ActionPlan | null> {
+    if (!this.strategy) return null;
+    
+    let reply: string;
     try {
-      aiStrategy = await this.getAIStrategy();
-      this.game.onMessage(`AI Strategy: ${aiStrategy}`);
+      reply = await this.strategy.getStrategy(this.getStrategyContext());
     } catch (error) {
       console.error('Error getting AI strategy:', error);
-      this.game.onMessage('AI is making decisions based on basic strategy (DeepSeek API error)');
+      this.onMessage(`${this.faction.name} is making decisions based on basic strategy (${this.strategy.name} error)`);
+      return null;
     }
     
-    // Determine possible actions
+    try {
+      const plan = parseActionPlan(reply);
+      if (plan.summary) {
+        this.onMessage(`${this.faction.name} Strategy: ${plan.summary}`);
+      }
+      this.onStrategy(plan.summary || reply);
+      return plan;
+    } catch (error) {
+      this.onMessage(`${this.faction.name} is making decisions based on basic strategy (invalid plan: ${(error as Error).message})`);
+      this.onStrategy(reply);
+      return null;
+    }
+  }
+  
+  // Under fog of war the advisor gets the faction's view, with the hidden territories marked
+  private getStrategyContext(): StrategyContext {
+    const fog = this.rules.getFog();
+    const board = this.rules.getView(this.owner);
+    const victory = this.rules.getOptions().ruleSet.victory;
+    const context: StrategyContext = {
+      board,
+      owner: this.owner,
+      maxMoves: this.getMaxActions(),
+      goal: victory.type === 'elimination' ? undefined : describeVictory(victory)
+    };
+    if (!fog) {
+      return context;
+    }
+    
+    const hidden = board.getTerritories().filter(t => !fog.isVisible(this.owner, t.id)).map(t => t.id);
+    return { ...context, hidden: new Set(hidden) };
+  }
+  
+  // Every attack and transfer available now, best first; only what the faction can see
+  private getPossibleActions(): AIAction[] {
+    const board = this.rules.getView(this.owner);
     const possibleActions: AIAction[] = [];
     
     // For each AI territory, find possible attacks or transfers
-    for (const territory of aiTerritories) {
+    for (const territory of board.getOwnedBy(this.owner)) {
       // Skip territories with only 1 unit (can't attack)
-      if (territory.getUnits() <= 1) {
+      if (territory.units <= 1) {
         continue;
       }
       
-      // Find adjacent territories
-      const adjacentTerritories = this.findAdjacentTerritories(territory, territories);
-      
       // For each adjacent territory
-      for (const adjacent of adjacentTerritories) {
-        if (adjacent.getOwner() === 'ai') {
+      for (const adjacent of board.getNeighbors(territory.id)) {
+        if (adjacent.owner === this.owner) {
           // Can transfer units to friendly territory
           possibleActions.push({
             type: 'transfer',
             from: territory,
             to: adjacent,
-            confidence: this.evaluateTransfer(territory, adjacent, aiStrategy)
+            units: this.rules.getDefaultUnits('transfer', territory.id),
+            confidence: this.evaluateTransfer(territory, adjacent)
           });
         } else {
           // Can attack enemy or neutral territory
@@ -65,84 +230,120 @@ export class AIPlayer {
             type: 'attack',
             from: territory,
             to: adjacent,
-            confidence: this.evaluateAttack(territory, adjacent, aiStrategy)
+            units: this.rules.getDefaultUnits('attack', territory.id),
+            confidence: this.evaluateAttack(territory, adjacent)
           });
         }
       }
     }
     
     // Sort actions by confidence (highest first)
-    possibleActions.sort((a, b) => b.confidence - a.confidence);
-    
-    // Execute up to 3 actions with highest confidence
-    const actionsToExecute = possibleActions.slice(0, 3);
-    
-    for (const action of actionsToExecute) {
-      if (action.type === 'attack') {
-        await this.executeAttack(action.from, action.to);
-      } else {
-        await this.executeTransfer(action.from, action.to);
+    return possibleActions.sort((a, b) => b.confidence - a.confidence);
+  }
+  
+  // One unit at a time onto the border territory that needs it most
+  private choosePlacements(view: Board, units: number): Map<string, number> {
+    // A copy that tracks the units placed so far
+    const board = view.clone();
+    const owned = board.getOwnedBy(this.owner);
+    const border = owned.filter(t => board.getNeighbors(t.id).some(n => n.owner !== this.owner));
+    const candidates = border.length > 0 ? border : owned;
+    const placements = new Map<string, number>();
+    
+    for (let i = 0; i < units; i++) {
+      let best = candidates[0];
+      let bestScore = -Infinity;
+      for (const territory of candidates) {
+        const score = this.evaluatePlacement(board, territory);
+        if (score > bestScore) {
+          best = territory;
+          bestScore = score;
+        }
       }
       
-      // Small delay between actions for visual clarity
-      await new Promise(resolve => setTimeout(resolve, 500));
+      best.units++;
+      placements.set(best.id, (placements.get(best.id) ?? 0) + 1);
     }
+    return placements;
   }
   
-  private findAdjacentTerritories(territory: Territory, allTerritories: Territory[]): Territory[] {
-    const position = territory.getPosition();
+  private evaluatePlacement(board: Board, territory: TerritoryData): number {
+    const others = board.getNeighbors(territory.id).filter(t => t.owner !== this.owner);
+    if (others.length === 0) return -territory.units;
+    
+    // Units short of matching the strongest enemy neighbor or of overrunning the
+    // weakest target, with neighbors weighted by the terrain between them
+    const strength = (from: TerritoryData, to: TerritoryData) => {
+      const modifiers = getCombatModifiers(board, from.id, to.id);
+      return modifiers.attack / modifiers.defense;
+    };
+    const threat = Math.max(0, ...others.filter(t => this.isEnemy(t.owner)).map(t => t.units * strength(t, territory)));
+    const target = Math.min(...others.map(t => t.units / strength(territory, t)));
+    let score = Math.max(threat, target + 2) - territory.units;
+    
+    // Prefer staging next to a region one capture away from completion, and
+    // guarding or closing in on victory objectives
+    score += Math.max(0, ...others.map(t => this.getRegionCompletionBonus(board, t)));
+    const objectives = this.rules.getObjectives().map(t => t.id);
+    if (objectives.includes(territory.id) || others.some(t => objectives.includes(t.id))) {
+      score += 2;
+    }
     
-    return allTerritories.filter(t => {
-      if (t === territory) return false;
-      
-      const otherPosition = t.getPosition();
-      const distance = position.distanceTo(otherPosition);
-      
-      // Territories are adjacent if they are within a certain distance
-      return distance < 7; // Slightly more than the spacing (5) to account for territory size
-    });
+    return score;
+  }
+  
+  // Bonus of the region that capturing this territory would complete, or 0
+  private getRegionCompletionBonus(board: Board, target: TerritoryData): number {
+    const region = board.getRegions().find(r => r.territories.includes(target.id));
+    if (!region) return 0;
+    
+    const rest = region.territories.filter(id => id !== target.id);
+    return rest.every(id => board.getTerritory(id).owner === this.owner) ? region.bonus : 0;
   }
   
-  private evaluateAttack(from: Territory, to: Territory, aiStrategy: string): number {
-    const attackerUnits = from.getUnits();
-    const defenderUnits = to.getUnits();
+  private async executeAction(action: AIAction): Promise<void> {
+    const result = action.type === 'attack'
+      ? await this.executeAttack(action.from, action.to, action.units)
+      : await this.executeTransfer(action.from, action.to, action.units);
     
-    // Base confidence on unit advantage
-    let confidence = (attackerUnits - 1) / Math.max(1, defenderUnits);
+    if (result) {
+      this.onAction(action, result);
+    }
+    
+    // Let the action play out before the next one
+    await this.pause();
+  }
+  
+  private evaluateAttack(from: TerritoryData, to: TerritoryData): number {
+    // Base confidence on the odds of winning with everything that can leave
+    // (an even fight counts as 1), with what the faction knows of the defenders
+    let confidence = 2 * this.rules.getAttackOdds(this.owner, from.id, to.id, from.units - 1).chance;
     
     // Adjust confidence based on target owner
-    if (to.getOwner() === 'player') {
-      confidence *= 1.5; // Prefer attacking player over neutral
+    if (to.owner !== NEUTRAL) {
+      confidence *= 1.5; // Prefer attacking other factions over neutral
     }
     
     // Adjust confidence based on strategic value
-    const adjacentToTarget = this.findAdjacentTerritories(to, this.game.getTerritories());
-    const adjacentPlayerTerritories = adjacentToTarget.filter(t => t.getOwner() === 'player').length;
+    const adjacentToTarget = this.rules.getBoard().getNeighbors(to.id);
+    const adjacentPlayerTerritories = adjacentToTarget.filter(t => this.isEnemy(t.owner)).length;
     
     // Prefer territories that border multiple player territories
     confidence += adjacentPlayerTerritories * 0.2;
     
-    // Adjust based on AI strategy from DeepSeek
-    if (aiStrategy.toLowerCase().includes(to.getName().toLowerCase())) {
-      confidence *= 1.5; // Boost confidence if this territory was mentioned in the strategy
-    }
-    
-    if (aiStrategy.toLowerCase().includes("attack") && 
-        aiStrategy.toLowerCase().includes("player")) {
-      confidence *= 1.2; // Boost confidence if strategy suggests attacking player
-    }
-    
-    if (aiStrategy.toLowerCase().includes("defensive") || 
-        aiStrategy.toLowerCase().includes("defend")) {
-      confidence *= 0.8; // Reduce confidence if strategy suggests being defensive
+    // Prefer captures that complete a region, take a city or a victory objective
+    confidence += this.getRegionCompletionBonus(this.rules.getBoard(), to) * 0.2;
+    confidence += TERRAIN[getTerrain(to)].reinforcements * 0.2;
+    if (this.rules.getObjectives().some(t => t.id === to.id)) {
+      confidence += 1;
     }
     
     return confidence;
   }
   
-  private evaluateTransfer(from: Territory, to: Territory, aiStrategy: string): number {
-    const fromUnits = from.getUnits();
-    const toUnits = to.getUnits();
+  private evaluateTransfer(from: TerritoryData, to: TerritoryData): number {
+    const fromUnits = from.units;
+    const toUnits = to.units;
     
     // Base confidence on unit imbalance
     let confidence = (fromUnits - toUnits) / Math.max(1, fromUnits + toUnits);
@@ -153,164 +354,63 @@ export class AIPlayer {
     }
     
     // Adjust confidence based on strategic value
-    const adjacentToTarget = this.findAdjacentTerritories(to, this.game.getTerritories());
-    const adjacentPlayerTerritories = adjacentToTarget.filter(t => t.getOwner() === 'player').length;
+    const adjacentToTarget = this.rules.getBoard().getNeighbors(to.id);
+    const adjacentPlayerTerritories = adjacentToTarget.filter(t => this.isEnemy(t.owner)).length;
     
     // Prefer reinforcing territories that border player territories
     confidence += adjacentPlayerTerritories * 0.3;
     
-    // Adjust based on AI strategy from DeepSeek
-    if (aiStrategy.toLowerCase().includes(to.getName().toLowerCase())) {
-      confidence *= 1.5; // Boost confidence if this territory was mentioned in the strategy
-    }
-    
-    if (aiStrategy.toLowerCase().includes("reinforce") || 
-        aiStrategy.toLowerCase().includes("strengthen")) {
-      confidence *= 1.3; // Boost confidence if strategy suggests reinforcing
-    }
-    
     return confidence;
   }
   
-  private async executeAttack(from: Territory, to: Territory): Promise<void> {
-    const attackerUnits = from.getUnits();
-    const defenderUnits = to.getUnits();
+  // At least an even fight for an attack; a transfer has to move units to where they are needed
+  private isWorthwhile(action: AIAction): boolean {
+    return action.type === 'attack' ? action.confidence >= 1 : action.confidence > 0;
+  }
+  
+  private isEnemy(owner: Owner): boolean {
+    return owner !== this.owner && owner !== NEUTRAL;
+  }
+  
+  private async executeAttack(from: TerritoryData, to: TerritoryData, units: number): Promise<AttackResult | null> {
+    // Earlier actions this turn may have made the move illegal
+    if (this.rules.checkAttack(this.owner, from.id, to.id, units)) {
+      return null;
+    }
     
-    // Need at least 2 units to attack (1 must stay behind)
-    if (attackerUnits <= 1) {
-      return;
+    const result = this.rules.attack(this.owner, from.id, to.id, units);
+    
+    const name = this.faction.name;
+    // Under fog of war the other factions only learn what was attacked and how it went
+    if (this.rules.getFog()) {
+      this.onMessage(`${name} ${from.name} attacks ${to.name}`);
+      this.onMessage(result.captured ? `${name} captured ${to.name}` : `${name} attack on ${to.name} failed`);
+      return result;
     }
     
-    // Calculate attack strength (random factor for unpredictability)
-    const attackStrength = Math.floor((attackerUnits - 1) * (0.8 + Math.random() * 0.4));
-    const defenseStrength = Math.floor(defenderUnits * (0.8 + Math.random() * 0.4));
-    
-    const message = `AI ${from.getName()} (${attackStrength}) attacks ${to.getName()} (${defenseStrength})`;
-    this.game.onMessage(message);
-    
-    // Determine outcome
-    if (attackStrength > defenseStrength) {
-      // Attacker wins
-      const remainingUnits = Math.floor((attackerUnits - 1) * (attackStrength / (attackStrength + defenseStrength)));
-      from.setUnits(1); // Leave 1 unit behind
-      to.setOwner('ai');
-      to.setUnits(remainingUnits);
-      this.game.onMessage(`AI captured ${to.getName()} with ${remainingUnits} units`);
+    this.onMessage(`${name} ${from.name} attacks ${to.name} with ${result.units} units (${result.attackStrength} vs ${result.defenseStrength})`);
+    
+    if (result.captured) {
+      this.onMessage(`${name} captured ${to.name} with ${result.survivors} units`);
     } else {
-      // Defender wins or tie
-      const attackerLosses = Math.floor(attackerUnits * 0.5); // Lose half units on failed attack
-      from.setUnits(Math.max(1, attackerUnits - attackerLosses));
-      
-      // Defender also loses some units
-      const defenderLosses = Math.floor(defenderUnits * 0.3);
-      to.setUnits(Math.max(1, defenderUnits - defenderLosses));
-      
-      this.game.onMessage(`AI attack failed! Lost ${attackerLosses} units`);
+      this.onMessage(`${name} attack failed! Lost ${result.attackerLosses} units`);
     }
+    
+    return result;
   }
   
-  private async executeTransfer(from: Territory, to: Territory): Promise<void> {
-    // Transfer half of the units from one territory to another
-    const unitsToTransfer = Math.floor((from.getUnits() - 1) / 2); // Leave at least 1 unit behind
-    
-    if (unitsToTransfer > 0) {
-      from.setUnits(from.getUnits() - unitsToTransfer);
-      to.setUnits(to.getUnits() + unitsToTransfer);
-      this.game.onMessage(`AI transferred ${unitsToTransfer} units from ${from.getName()} to ${to.getName()}`);
+  private async executeTransfer(from: TerritoryData, to: TerritoryData, units: number): Promise<TransferResult | null> {
+    if (this.rules.checkTransfer(this.owner, from.id, to.id, units)) {
+      return null;
     }
-  }
-  
-  private async getAIStrategy(): Promise<string> {
-    // Get game state information
-    const gameState = this.game.getGameState();
-    const territories = this.game.getTerritories();
-    
-    // Prepare a simplified game state to send to the API
-    const aiTerritories = territories
-      .filter(t => t.getOwner() === 'ai')
-      .map(t => ({
-        name: t.getName(),
-        units: t.getUnits(),
-        position: {
-          x: t.getPosition().x,
-          z: t.getPosition().z
-        }
-      }));
-    
-    const playerTerritories = territories
-      .filter(t => t.getOwner() === 'player')
-      .map(t => ({
-        name: t.getName(),
-        units: t.getUnits(),
-        position: {
-          x: t.getPosition().x,
-          z: t.getPosition().z
-        }
-      }));
-    
-    const neutralTerritories = territories
-      .filter(t => t.getOwner() === 'neutral')
-      .map(t => ({
-        name: t.getName(),
-        units: t.getUnits(),
-        position: {
-          x: t.getPosition().x,
-          z: t.getPosition().z
-        }
-      }));
-    
-    // Create a prompt for the AI
-    const prompt = `
-      You are an AI strategic advisor for a territory control game. 
-      
-      Current game state:
-      - AI controls ${gameState.aiTerritories} territories with ${gameState.aiUnits} total units
-      - Player controls ${gameState.playerTerritories} territories with ${gameState.playerUnits} total units
-      - There are ${neutralTerritories.length} neutral territories
-      
-      AI territories: ${JSON.stringify(aiTerritories)}
-      Player territories: ${JSON.stringify(playerTerritories)}
-      Neutral territories: ${JSON.stringify(neutralTerritories)}
-      
-      Based on this information, provide a short strategic recommendation for the AI's next moves.
-      Focus on which territories to attack or reinforce, and why.
-      Keep your response under 100 words and be specific.
-    `;
     
-    try {
-      // Make API call to DeepSeek
-      const response = await axios.post(
-        'https://api.deepseek.com/v1/chat/completions',
-        {
-          model: 'deepseek-chat',
-          messages: [
-            { role: 'system', content: 'You are a strategic AI advisor for a territory control game.' },
-            { role: 'user', content: prompt }
-          ],
-          temperature: 0.7,
-          max_tokens: 150
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${this.apiKey}`
-          }
-        }
-      );
-      
-      // Extract the AI's response
-      if (response.data && 
-          response.data.choices && 
-          response.data.choices.length > 0 && 
-          response.data.choices[0].message) {
-        return response.data.choices[0].message.content;
-      } else {
-        console.error('Unexpected API response format:', response.data);
-        return "Focus on expanding territory and reinforcing borders with player territories.";
-      }
-    } catch (error) {
-      console.error('Error calling DeepSeek API:', error);
-      return "Focus on expanding territory and reinforcing borders with player territories.";
+    const result = this.rules.transfer(this.owner, from.id, to.id, units);
+    // Under fog of war the other factions do not learn where the units went
+    if (this.rules.getFog()) {
+      this.onMessage(`${this.faction.name} moved units between its territories`);
+    } else {
+      this.onMessage(`${this.faction.name} transferred ${result.units} units from ${from.name} to ${to.name}`);
     }
+    return result;
   }
 }
@@ -0,0 +1,114 @@
+import { Board, Owner, TerritoryData } from './Board';
+import { Rules } from './Rules';
+
+// One move of an advisor's plan; from/to are territory ids (names are accepted too)
+export interface PlannedMove {
+  type: 'attack' | 'transfer';
+  from: string;
+  to: string;
+  units: number;
+  rationale: string;
+}
+
+// A move that failed the schema check, kept in place so it can be reported and replaced
+export interface InvalidPlannedMove {
+  error: string;
+}
+
+export type PlanStep = PlannedMove | InvalidPlannedMove;
+
+export interface ActionPlan {
+  summary: string;
+  moves: PlanStep[];
+}
+
+// Schema the advisor is asked to answer with, quoted in the prompt
+export const ACTION_PLAN_FORMAT = `{
+  "summary": "one sentence overall strategy",
+  "moves": [
+    { "type": "attack" | "transfer", "from": "<territory id>", "to": "<territory id>", "units": <number>, "rationale": "why" }
+  ]
+}`;
+
+export function isInvalidStep(step: PlanStep): step is InvalidPlannedMove {
+  return 'error' in step;
+}
+
+// Pulls the JSON object out of an advisor reply (which may wrap it in prose or
+// a code fence) and checks it against the plan schema. Throws when there is no
+// usable plan at all; individual bad moves become InvalidPlannedMove steps.
+export function parseActionPlan(text: string): ActionPlan {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('reply contains no JSON object');
+  }
+  
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new Error('reply is not valid JSON');
+  }
+  
+  const plan = raw as { summary?: unknown; moves?: unknown[] };
+  if (!plan || typeof plan !== 'object' || !Array.isArray(plan.moves)) {
+    throw new Error('plan has no "moves" list');
+  }
+  
+  return {
+    summary: typeof plan.summary === 'string' ? plan.summary : '',
+    moves: plan.moves.map((move, i) => validateMoveSchema(move, i))
+  };
+}
+
+function validateMoveSchema(move: unknown, index: number): PlanStep {
+  const problems: string[] = [];
+  // Only trusted once every field is checked below
+  const raw = move as PlannedMove;
+  if (!raw || typeof raw !== 'object') {
+    return { error: `move ${index + 1} is not an object` };
+  }
+  
+  if (raw.type !== 'attack' && raw.type !== 'transfer') {
+    problems.push('type must be "attack" or "transfer"');
+  }
+  if (typeof raw.from !== 'string' || raw.from === '') {
+    problems.push('from must be a territory id');
+  }
+  if (typeof raw.to !== 'string' || raw.to === '') {
+    problems.push('to must be a territory id');
+  }
+  if (!Number.isInteger(raw.units) || raw.units < 1) {
+    problems.push('units must be a positive integer');
+  }
+  if (typeof raw.rationale !== 'string') {
+    problems.push('rationale must be a string');
+  }
+  
+  if (problems.length > 0) {
+    return { error: `move ${index + 1}: ${problems.join(', ')}` };
+  }
+  return { type: raw.type, from: raw.from, to: raw.to, units: raw.units, rationale: raw.rationale };
+}
+
+// Looks a territory up by id, falling back to its name
+export function findTerritory(board: Board, ref: string): TerritoryData | undefined {
+  const name = ref.trim().toLowerCase();
+  return board.getTerritories().find(t => t.id === ref) ??
+    board.getTerritories().find(t => t.name.toLowerCase() === name);
+}
+
+// Why a planned move is not legal on the current board, or null if it is;
+// the planned unit count is what gets sent
+export function checkPlannedMove(rules: Rules, owner: Owner, move: PlannedMove): string | null {
+  const board = rules.getBoard();
+  const from = findTerritory(board, move.from);
+  const to = findTerritory(board, move.to);
+  if (!from) return `unknown territory "${move.from}"`;
+  if (!to) return `unknown territory "${move.to}"`;
+  
+  return move.type === 'attack'
+    ? rules.checkAttack(owner, from.id, to.id, move.units)
+    : rules.checkTransfer(owner, from.id, to.id, move.units);
+}
@@ -0,0 +1,305 @@
+import { Owner } from './Board';
+import { AttackResult, PlaceResult, TransferResult } from './Rules';
+import { AnimationLayer, TerritoryView } from './BoardRenderer';
+
+// A board change as the game reports it to the animation layer
+export type BoardEvent =
+  | { kind: 'attack'; side: Owner; result: AttackResult }
+  | { kind: 'transfer'; side: Owner; result: TransferResult }
+  | { kind: 'place'; side: Owner; result: PlaceResult };
+
+// Animation speeds offered to the player; 0 turns animations off
+export const ANIMATION_SPEEDS = [0, 1, 2, 4];
+
+interface Tween {
+  // Milliseconds at normal speed
+  duration: number;
+  elapsed: number;
+  // Progress from 0 to 1
+  step: (t: number) => void;
+  // Runs once at the end, also when the tween is skipped
+  end: () => void;
+  // Cleans up without ending, when the animation is dropped
+  cancel?: () => void;
+}
+
+interface QueuedEvent {
+  event: BoardEvent;
+  color: number;
+  // Shows the board change on the territory meshes
+  land: () => void;
+}
+
+// Most tokens flying for a single move, however many units it sends
+const MAX_TOKENS = 6;
+const FLIGHT_TIME = 600;
+const SETTLE_TIME = 250;
+const NUMBER_TIME = 1000;
+const CAPTURE_TIME = 700;
+
+// Plays board events back one at a time on the renderer's animation layer:
+// projectiles arcing to the target of an attack, tokens marching along a
+// transfer or dropping onto a placement, then floating unit numbers and
+// capture flashes. The territory views only show a change once its animation lands.
+export class Animator {
+  public onIdle: () => void = () => {};
+  
+  private queue: QueuedEvent[] = [];
+  // Stages of the event playing now, run in order
+  private stages: Tween[] = [];
+  // Numbers and flashes that keep going while the next event plays
+  private effects: Tween[] = [];
+  private speed: number = 1;
+  private waiting: (() => void)[] = [];
+  
+  constructor(private layer: AnimationLayer, private getTerritory: (id: string) => TerritoryView | undefined) {}
+  
+  public getSpeed(): number {
+    return this.speed;
+  }
+  
+  public setSpeed(speed: number): void {
+    this.speed = speed;
+    if (speed === 0) {
+      this.skip();
+    }
+  }
+  
+  public isBusy(): boolean {
+    return this.stages.length > 0 || this.queue.length > 0;
+  }
+  
+  // Queue an event; with animations off it lands at once
+  public enqueue(event: BoardEvent, color: number, land: () => void): void {
+    if (this.speed === 0) {
+      land();
+      return;
+    }
+    
+    this.queue.push({ event, color, land });
+    if (this.stages.length === 0) {
+      this.next();
+    }
+  }
+  
+  // Advance by the milliseconds since the last frame
+  public update(delta: number): void {
+    if (this.speed === 0) return;
+    
+    const scaled = delta * this.speed;
+    this.effects = this.effects.filter(tween => !this.advance(tween, scaled));
+    
+    // A stage that ends may start the next event, whose first stage waits for the next frame
+    const stage = this.stages[0];
+    if (stage && this.advance(stage, scaled)) {
+      this.stages.shift();
+      if (this.stages.length === 0) {
+        this.next();
+      }
+    }
+  }
+  
+  // Land everything queued at once
+  public skip(): void {
+    this.finishEffects();
+    while (this.isBusy()) {
+      this.stages.shift()?.end();
+      // Effects of an event end before the next one lands on the same territories
+      this.finishEffects();
+      if (this.stages.length === 0) {
+        this.next();
+      }
+    }
+  }
+  
+  // Drop everything without landing it, for when the territory meshes are replaced
+  public clear(): void {
+    for (const stage of this.stages) {
+      stage.cancel?.();
+    }
+    this.stages = [];
+    this.queue = [];
+    this.finishEffects();
+    for (const resolve of this.waiting.splice(0)) {
+      resolve();
+    }
+  }
+  
+  // Resolves once the queue has played out
+  public idle(): Promise<void> {
+    if (!this.isBusy()) return Promise.resolve();
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+  
+  // A pause that follows the animation speed, none with animations off
+  public delay(ms: number): Promise<void> {
+    if (this.speed === 0) return Promise.resolve();
+    return new Promise(resolve => setTimeout(resolve, ms / this.speed));
+  }
+  
+  private advance(tween: Tween, delta: number): boolean {
+    tween.elapsed = Math.min(tween.duration, tween.elapsed + delta);
+    tween.step(tween.elapsed / tween.duration);
+    if (tween.elapsed < tween.duration) return false;
+    
+    tween.end();
+    return true;
+  }
+  
+  private finishEffects(): void {
+    for (const effect of this.effects.splice(0)) {
+      effect.end();
+    }
+  }
+  
+  private next(): void {
+    const queued = this.queue.shift();
+    if (!queued) {
+      for (const resolve of this.waiting.splice(0)) {
+        resolve();
+      }
+      this.onIdle();
+      return;
+    }
+    
+    const { event, color } = queued;
+    const settle: Tween = { duration: SETTLE_TIME, elapsed: 0, step: () => {}, end: () => {} };
+    
+    switch (event.kind) {
+      case 'attack': {
+        const { result } = event;
+        this.stages = [this.createFlight(result.from, result.to, result.units, color, 'arc', () => {
+          const target = this.getTerritory(result.to);
+          const previousColor = target?.getColor();
+          queued.land();
+          
+          this.floatNumber(result.from, -result.attackerLosses);
+          this.floatNumber(result.to, result.captured ? result.survivors : -result.defenderLosses);
+          if (result.captured && target && previousColor !== undefined) {
+            this.effects.push(this.createCapture(target, previousColor));
+          }
+        }), settle];
+        break;
+      }
+      case 'transfer': {
+        const { result } = event;
+        this.stages = [this.createFlight(result.from, result.to, result.units, color, 'march', () => {
+          queued.land();
+          this.floatNumber(result.to, result.units);
+        }), settle];
+        break;
+      }
+      case 'place': {
+        const { result } = event;
+        this.stages = [this.createFlight(result.territory, result.territory, result.units, color, 'drop', () => {
+          queued.land();
+          this.floatNumber(result.territory, result.units);
+        }), settle];
+        break;
+      }
+    }
+  }
+  
+  // Tokens moving from one territory to another: arcing high for attacks,
+  // hopping along the ground for transfers, or falling from the sky for placements
+  private createFlight(fromId: string, toId: string, units: number, color: number, path: 'arc' | 'march' | 'drop', land: () => void): Tween {
+    const from = this.getPosition(fromId);
+    const to = this.getPosition(toId);
+    const count = Math.max(1, Math.min(units, MAX_TOKENS));
+    const tokens = Array.from({ length: count }, (_, i) => {
+      // Spread the tokens around the path so they read as a group
+      const angle = (i / count) * Math.PI * 2;
+      const spread = count > 1 ? 0.35 : 0;
+      return {
+        sprite: this.layer.addToken(color),
+        dx: Math.cos(angle) * spread,
+        dz: Math.sin(angle) * spread,
+        delay: (i / count) * 0.3
+      };
+    });
+    const height = 1.5 + Math.hypot(to.x - from.x, to.z - from.z) * 0.15;
+    const remove = () => {
+      for (const token of tokens) {
+        token.sprite.remove();
+      }
+    };
+    
+    return {
+      duration: FLIGHT_TIME,
+      elapsed: 0,
+      step: t => {
+        for (const { sprite, dx, dz, delay } of tokens) {
+          const p = Math.min(1, Math.max(0, (t - delay) / (1 - delay)));
+          let y: number;
+          if (path === 'arc') {
+            y = 0.8 + Math.sin(Math.PI * p) * height;
+          } else if (path === 'march') {
+            y = 0.7 + Math.abs(Math.sin(Math.PI * p * 3)) * 0.3;
+          } else {
+            y = 0.7 + (1 - p * p) * 5;
+          }
+          sprite.setPosition(from.x + (to.x - from.x) * p + dx, y, from.z + (to.z - from.z) * p + dz);
+        }
+      },
+      end: () => {
+        remove();
+        land();
+      },
+      cancel: remove
+    };
+  }
+  
+  // A copy of where a territory is, the center of the board if it is gone
+  private getPosition(id: string): { x: number; z: number } {
+    const position = this.getTerritory(id)?.getPosition();
+    return { x: position?.x ?? 0, z: position?.z ?? 0 };
+  }
+  
+  // The territory glows white while its color sweeps from the old owner's to the new one's
+  private createCapture(territory: TerritoryView, previousColor: number): Tween {
+    const color = territory.getColor();
+    
+    return {
+      duration: CAPTURE_TIME,
+      elapsed: 0,
+      step: t => {
+        territory.setColor(mixColors(previousColor, color, t));
+        territory.setFlash(1 - t);
+      },
+      end: () => {
+        territory.setColor(color);
+        territory.setFlash(0);
+      }
+    };
+  }
+  
+  // A number rising from a territory and fading out: red losses, green gains
+  private floatNumber(territoryId: string, change: number): void {
+    const territory = this.getTerritory(territoryId);
+    if (!territory || change === 0) return;
+    
+    const sprite = this.layer.addNumber(change);
+    const { x, z } = territory.getPosition();
+    
+    this.effects.push({
+      duration: NUMBER_TIME,
+      elapsed: 0,
+      step: t => {
+        sprite.setPosition(x, 1.5 + t * 1.5, z);
+        sprite.setOpacity(1 - t * t);
+      },
+      end: () => sprite.remove()
+    });
+  }
+}
+
+// Blend two 0xRRGGBB colors, t = 0 giving the first
+function mixColors(from: number, to: number, t: number): number {
+  let color = 0;
+  for (const shift of [16, 8, 0]) {
+    const a = (from >> shift) & 0xff;
+    const b = (to >> shift) & 0xff;
+    color |= Math.round(a + (b - a) * t) << shift;
+  }
+  return color;
+}
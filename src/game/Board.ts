@@ -0,0 +1,102 @@
+import { Terrain } from './Terrain';
+
+// A faction id, or NEUTRAL for unclaimed territories
+export type Owner = string;
+
+// Plain, renderer-independent description of a single territory
+export interface TerritoryData {
+  id: string;
+  name: string;
+  owner: Owner;
+  units: number;
+  x: number;
+  z: number;
+  // Ids of the territories this one borders
+  neighbors: string[];
+  // Set on a faction's capital, its central starting territory; stays when captured
+  capital?: Owner;
+  // Plains when omitted
+  terrain?: Terrain;
+  // Neighbors on the other side of a river
+  rivers?: string[];
+}
+
+// A named group of territories; holding all of it earns bonus reinforcements
+export interface Region {
+  id: string;
+  name: string;
+  bonus: number;
+  territories: string[];
+}
+
+export class Board {
+  private territories: TerritoryData[];
+  private regions: Region[];
+  
+  constructor(territories: TerritoryData[], regions: Region[] = []) {
+    this.territories = territories.map(t => ({
+      ...t,
+      neighbors: [...t.neighbors],
+      ...(t.rivers ? { rivers: [...t.rivers] } : {})
+    }));
+    this.regions = regions.map(r => ({ ...r, territories: [...r.territories] }));
+  }
+  
+  public getTerritories(): TerritoryData[] {
+    return this.territories;
+  }
+  
+  public getRegions(): Region[] {
+    return this.regions;
+  }
+  
+  // Regions where the owner holds every territory
+  public getRegionsHeldBy(owner: Owner): Region[] {
+    return this.regions.filter(r => r.territories.every(id => this.getTerritory(id).owner === owner));
+  }
+  
+  // The territory nearest the middle of the map
+  public getCenter(): TerritoryData | null {
+    if (this.territories.length === 0) return null;
+    
+    const x = this.territories.reduce((sum, t) => sum + t.x, 0) / this.territories.length;
+    const z = this.territories.reduce((sum, t) => sum + t.z, 0) / this.territories.length;
+    return this.territories.reduce((best, t) =>
+      Math.hypot(t.x - x, t.z - z) < Math.hypot(best.x - x, best.z - z) ? t : best);
+  }
+  
+  public getTerritory(id: string): TerritoryData {
+    const territory = this.territories.find(t => t.id === id);
+    if (!territory) {
+      throw new Error(`Unknown territory: ${id}`);
+    }
+    return territory;
+  }
+  
+  public getOwnedBy(owner: Owner): TerritoryData[] {
+    return this.territories.filter(t => t.owner === owner);
+  }
+  
+  public isAdjacent(id1: string, id2: string): boolean {
+    if (id1 === id2) return false;
+    
+    return this.getTerritory(id1).neighbors.includes(id2);
+  }
+  
+  // Whether a river separates two neighbors
+  public crossesRiver(id1: string, id2: string): boolean {
+    return this.getTerritory(id1).rivers?.includes(id2) ?? false;
+  }
+  
+  public getNeighbors(id: string): TerritoryData[] {
+    return this.getTerritory(id).neighbors.map(neighborId => this.getTerritory(neighborId));
+  }
+  
+  public getTotalUnits(owner: Owner): number {
+    return this.getOwnedBy(owner).reduce((sum, t) => sum + t.units, 0);
+  }
+  
+  public clone(): Board {
+    return new Board(this.territories, this.regions);
+  }
+}
@@ -0,0 +1,93 @@
+import { Owner, TerritoryData } from './Board';
+import { Terrain } from './Terrain';
+
+export type RendererKind = 'webgl' | 'svg';
+// 'auto' picks WebGL where the browser supports it
+export type RendererSetting = RendererKind | 'auto';
+
+export const RENDERER_SETTINGS: Record<RendererSetting, string> = {
+  auto: 'Automatic view',
+  webgl: '3D view',
+  svg: '2D view'
+};
+
+// Marks a neighbor of the selected territory as a target for one kind of move
+export type Highlight = 'attack' | 'transfer' | null;
+
+export const HIGHLIGHT_COLORS = { attack: 0xff3d00, transfer: 0x00b0ff };
+export const SELECTED_COLOR = 0xffff00;
+
+// One territory as a renderer draws it. Game keeps these in step with the
+// board; the owner and units are what the player is shown, which under fog
+// of war or while a move animates can differ from the board.
+export interface TerritoryView {
+  getId(): string;
+  getName(): string;
+  setName(name: string): void;
+  // Board coordinates: x and z on the ground
+  getPosition(): { x: number; z: number };
+  setPosition(x: number, z: number): void;
+  getOwner(): Owner;
+  setOwner(owner: Owner, color?: number): void;
+  getUnits(): number;
+  setUnits(units: number): void;
+  getTerrain(): Terrain;
+  // Sync with the board state; stale units are drawn greyed out
+  update(data: TerritoryData, color: number, stale?: boolean): void;
+  // Symbol drawn before the units, e.g. on capitals
+  setMarker(marker: string): void;
+  setSelected(selected: boolean): void;
+  setHighlight(highlight: Highlight): void;
+  // Shown color only, e.g. while a capture sweeps it
+  getColor(): number;
+  setColor(color: number): void;
+  // White glow for capture flashes, 0 turns it off
+  setFlash(intensity: number): void;
+  dispose(): void;
+}
+
+// Something the animations move around the board, in board coordinates with y
+// the height above the ground
+export interface AnimationSprite {
+  setPosition(x: number, y: number, z: number): void;
+  setOpacity(opacity: number): void;
+  remove(): void;
+}
+
+// Where the animations of moves are drawn
+export interface AnimationLayer {
+  // A unit token in a faction's color
+  addToken(color: number): AnimationSprite;
+  // A change in units, green for gains and red for losses
+  addNumber(change: number): AnimationSprite;
+}
+
+// A view of the board: the territories, rivers and editor links, picking
+// under the pointer, and the layer the move animations play on. Game holds
+// the state and tells the renderer what to show.
+export interface BoardRenderer extends AnimationLayer {
+  readonly kind: RendererKind;
+  // Receives the clicks and pointer events on the board
+  readonly element: HTMLElement;
+  
+  createTerritory(id: string, x: number, z: number, name: string): TerritoryView;
+  // Fit the ground and view to the territory layout
+  fitBoard(data: TerritoryData[]): void;
+  // Water across the links that are rivers
+  showRivers(data: TerritoryData[]): void;
+  // Lines between neighbors in the map editor, none to hide them
+  showLinks(links: [TerritoryData, TerritoryData][]): void;
+  
+  // Id of the territory under the pointer
+  pickTerritory(event: MouseEvent): string | null;
+  // Point on the ground under the pointer
+  pickGround(event: MouseEvent): { x: number; z: number } | null;
+  // Panning and zooming, turned off while a territory is dragged in the editor
+  setCameraEnabled(enabled: boolean): void;
+  
+  resize(): void;
+  // Draw a frame
+  render(): void;
+  // Remove the view from the page
+  dispose(): void;
+}
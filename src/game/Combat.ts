@@ -0,0 +1,83 @@
+import { Board } from './Board';
+import { CLASSIC_RULE_SET, RuleSet } from './RuleSet';
+import { CombatModifiers, getCombatModifiers, NO_MODIFIERS } from './Terrain';
+
+// Exact odds of an attack, following the formula in Rules.attack: both sides
+// roll floor(units * range(1 - variance, 1 + variance) * terrain modifier), the
+// attacker with the units it commits, and the attacker captures on a strictly higher roll.
+
+export interface CaptureOdds {
+  // Probability that the attack captures the territory
+  chance: number;
+  // Expected units moving in when it does (0 if it never can)
+  survivors: number;
+}
+
+// Odds computed so far, the oldest dropped first once it holds ODDS_CACHE_SIZE
+const oddsCache: Map<string, CaptureOdds> = new Map();
+const ODDS_CACHE_SIZE = 10000;
+
+export function getCaptureOdds(
+  committedUnits: number,
+  defenderUnits: number,
+  ruleSet: RuleSet = CLASSIC_RULE_SET,
+  modifiers: CombatModifiers = NO_MODIFIERS
+): CaptureOdds {
+  const variance = ruleSet.combatVariance;
+  const key = `${committedUnits},${defenderUnits},${variance},${modifiers.attack},${modifiers.defense}`;
+  const cached = oddsCache.get(key);
+  if (cached) return cached;
+  
+  const attack = rollDistribution(committedUnits, variance, modifiers.attack);
+  const defense = rollDistribution(defenderUnits, variance, modifiers.defense);
+  
+  let chance = 0;
+  let survivors = 0;
+  for (const [a, pa] of attack) {
+    for (const [d, pd] of defense) {
+      if (a <= d) continue;
+      
+      chance += pa * pd;
+      survivors += pa * pd * Math.floor(committedUnits * (a / (a + d)));
+    }
+  }
+  
+  const odds = { chance, survivors: chance > 0 ? survivors / chance : 0 };
+  if (oddsCache.size >= ODDS_CACHE_SIZE) {
+    oddsCache.delete(oddsCache.keys().next().value!);
+  }
+  oddsCache.set(key, odds);
+  return odds;
+}
+
+// Odds of an attack on a board, with the terrain between the two territories
+export function getAttackOdds(board: Board, fromId: string, toId: string, units: number, ruleSet: RuleSet = CLASSIC_RULE_SET): CaptureOdds {
+  return getCaptureOdds(units, board.getTerritory(toId).units, ruleSet, getCombatModifiers(board, fromId, toId));
+}
+
+// Outcome of an attack that fails: the attacker loses a share of the committed
+// units (the rest return to the attacking territory), the defender a share of its own
+export function getFailedAttackUnits(committedUnits: number, defenderUnits: number, ruleSet: RuleSet = CLASSIC_RULE_SET): { attacker: number; defender: number } {
+  return {
+    attacker: committedUnits - Math.floor(committedUnits * ruleSet.attackerLossOnFailure),
+    defender: Math.max(1, defenderUnits - Math.floor(defenderUnits * ruleSet.defenderLossOnFailure))
+  };
+}
+
+// Probability of each value of floor(units * u * modifier) for u uniform in [1 - variance, 1 + variance)
+function rollDistribution(units: number, variance: number, modifier: number): [number, number][] {
+  if (units <= 0) return [[0, 1]];
+  
+  const low = units * (1 - variance) * modifier;
+  const high = units * (1 + variance) * modifier;
+  // Without variance the roll is exact
+  if (high === low) return [[Math.floor(low), 1]];
+  const rolls: [number, number][] = [];
+  for (let value = Math.floor(low); value < high; value++) {
+    const width = Math.min(value + 1, high) - Math.max(value, low);
+    if (width > 0) {
+      rolls.push([value, width / (high - low)]);
+    }
+  }
+  return rolls;
+}
@@ -0,0 +1,174 @@
+import { Owner, TerritoryData } from './Board';
+import { LastSeen } from './FogOfWar';
+import { AttackResult, PlaceResult, Rules, TransferResult } from './Rules';
+
+// A single player action that can be recorded in the turn log
+export interface Command {
+  readonly type: 'attack' | 'transfer' | 'place';
+  readonly owner: Owner;
+  // Both are the target territory for a placement
+  readonly from: string;
+  readonly to: string;
+  // Units sent or placed
+  readonly units: number;
+  // Outcome of the last execution, null until executed
+  readonly result: AttackResult | TransferResult | PlaceResult | null;
+  execute(): void;
+  undo(): void;
+  isUndoable(): boolean;
+  describe(): string;
+}
+
+// Shared snapshot/restore logic: undo puts back the two territories and the
+// random state, so a redo replays the exact same rolls, and what each faction
+// had seen under fog of war, so an undone move reveals nothing.
+abstract class BoardCommand implements Command {
+  abstract readonly type: 'attack' | 'transfer' | 'place';
+  abstract readonly result: AttackResult | TransferResult | PlaceResult | null;
+  private snapshot: { from: TerritoryData; to: TerritoryData; randomState: number; lastSeen: LastSeen | null } | null = null;
+  
+  constructor(
+    protected rules: Rules,
+    public readonly owner: Owner,
+    public readonly from: string,
+    public readonly to: string,
+    public readonly units: number
+  ) {}
+  
+  public execute(): void {
+    const board = this.rules.getBoard();
+    this.snapshot = {
+      from: { ...board.getTerritory(this.from) },
+      to: { ...board.getTerritory(this.to) },
+      randomState: this.rules.getRandom().getState(),
+      lastSeen: this.rules.getFog()?.getState() ?? null
+    };
+    this.apply();
+  }
+  
+  public undo(): void {
+    if (!this.snapshot) {
+      throw new Error('Cannot undo a command that was not executed');
+    }
+    
+    const board = this.rules.getBoard();
+    Object.assign(board.getTerritory(this.from), this.snapshot.from);
+    Object.assign(board.getTerritory(this.to), this.snapshot.to);
+    this.rules.getRandom().setState(this.snapshot.randomState);
+    if (this.snapshot.lastSeen) {
+      this.rules.getFog()?.setState(this.snapshot.lastSeen);
+    }
+    this.snapshot = null;
+    this.rules.notifyChanged();
+  }
+  
+  public abstract isUndoable(): boolean;
+  public abstract describe(): string;
+  protected abstract apply(): void;
+}
+
+export class TransferCommand extends BoardCommand {
+  public readonly type = 'transfer';
+  public result: TransferResult | null = null;
+  
+  protected apply(): void {
+    this.result = this.rules.transfer(this.owner, this.from, this.to, this.units);
+  }
+  
+  public isUndoable(): boolean {
+    return true;
+  }
+  
+  public describe(): string {
+    const board = this.rules.getBoard();
+    return `transfer of ${this.result?.units ?? 0} units from ${board.getTerritory(this.from).name} to ${board.getTerritory(this.to).name}`;
+  }
+}
+
+export class AttackCommand extends BoardCommand {
+  public readonly type = 'attack';
+  public result: AttackResult | null = null;
+  
+  protected apply(): void {
+    this.result = this.rules.attack(this.owner, this.from, this.to, this.units);
+  }
+  
+  public isUndoable(): boolean {
+    return this.rules.getOptions().undoableAttacks;
+  }
+  
+  public describe(): string {
+    const board = this.rules.getBoard();
+    return `attack with ${this.units} units from ${board.getTerritory(this.from).name} on ${board.getTerritory(this.to).name}`;
+  }
+}
+
+// Placing reinforcements; the caller keeps track of the units left to place
+export class PlaceCommand extends BoardCommand {
+  public readonly type = 'place';
+  public result: PlaceResult | null = null;
+  
+  constructor(rules: Rules, owner: Owner, territory: string, units: number) {
+    super(rules, owner, territory, territory, units);
+  }
+  
+  protected apply(): void {
+    this.result = this.rules.place(this.owner, this.to, this.units);
+  }
+  
+  public isUndoable(): boolean {
+    return true;
+  }
+  
+  public describe(): string {
+    const units = this.units === 1 ? '1 unit' : `${this.units} units`;
+    return `placement of ${units} on ${this.rules.getBoard().getTerritory(this.to).name}`;
+  }
+}
+
+// Commands executed during the current turn, with undo/redo until the turn is committed
+export class TurnLog {
+  private done: Command[] = [];
+  private undone: Command[] = [];
+  
+  public execute(command: Command): void {
+    command.execute();
+    this.done.push(command);
+    this.undone = [];
+  }
+  
+  public canUndo(): boolean {
+    const last = this.done[this.done.length - 1];
+    return !!last && last.isUndoable();
+  }
+  
+  public canRedo(): boolean {
+    return this.undone.length > 0;
+  }
+  
+  public undo(): Command | null {
+    if (!this.canUndo()) return null;
+    
+    const command = this.done.pop()!;
+    command.undo();
+    this.undone.push(command);
+    return command;
+  }
+  
+  public redo(): Command | null {
+    const command = this.undone.pop();
+    if (!command) return null;
+    
+    command.execute();
+    this.done.push(command);
+    return command;
+  }
+  
+  // Ends the turn: returns the executed commands and clears the history
+  public commit(): Command[] {
+    const committed = this.done;
+    this.done = [];
+    this.undone = [];
+    return committed;
+  }
+}
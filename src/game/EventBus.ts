@@ -0,0 +1,29 @@
+export type Listener<T> = (event: T) => void;
+
+// Typed publish/subscribe keyed by event name, with any number of listeners
+// per event called in the order they subscribed
+export class EventBus<Events> {
+  private listeners: { [K in keyof Events]?: Listener<Events[K]>[] } = {};
+  
+  // Returns a function that unsubscribes again
+  public on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void {
+    // Copy on write, so listeners can unsubscribe while an event is being emitted
+    this.listeners[type] = [...(this.listeners[type] ?? []), listener];
+    return () => this.off(type, listener);
+  }
+  
+  public off<K extends keyof Events>(type: K, listener: Listener<Events[K]>): void {
+    this.listeners[type] = this.listeners[type]?.filter(l => l !== listener);
+  }
+  
+  // A listener that throws is reported and does not keep the others from running
+  public emit<K extends keyof Events>(type: K, event: Events[K]): void {
+    for (const listener of this.listeners[type] ?? []) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Error in ${String(type)} listener:`, error);
+      }
+    }
+  }
+}
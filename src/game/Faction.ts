@@ -0,0 +1,64 @@
+export type ControllerType = 'human' | 'ai';
+
+export interface Faction {
+  id: string;
+  name: string;
+  color: number;
+  controller: ControllerType;
+}
+
+// Owner id of territories that belong to no faction
+export const NEUTRAL = 'neutral';
+export const NEUTRAL_COLOR = 0xcccccc; // Gray
+
+// Every faction a game can seat, in turn order. The first two are the classic
+// player-vs-AI setup, which is why their ids are 'player' and 'ai'.
+export const FACTION_ROSTER: Faction[] = [
+  { id: 'player', name: 'Player', color: 0x4169E1, controller: 'human' }, // Royal blue
+  { id: 'ai', name: 'AI', color: 0xDC143C, controller: 'ai' }, // Crimson
+  { id: 'ai2', name: 'AI 2', color: 0x2E8B57, controller: 'ai' }, // Sea green
+  { id: 'ai3', name: 'AI 3', color: 0xFF8C00, controller: 'ai' }, // Dark orange
+  { id: 'ai4', name: 'AI 4', color: 0x8A2BE2, controller: 'ai' }, // Blue violet
+  { id: 'ai5', name: 'AI 5', color: 0xDAA520, controller: 'ai' } // Goldenrod
+];
+
+export const DEFAULT_FACTIONS: Faction[] = FACTION_ROSTER.slice(0, 2);
+
+// Human players (hotseat when more than one) followed by AI factions. Seats
+// keep their roster ids and colors so map starts still apply, only the
+// names and controllers change.
+export function createFactions(aiCount: number, humanCount: number = 1): Faction[] {
+  const humans = Math.max(1, Math.min(FACTION_ROSTER.length, humanCount));
+  const total = Math.max(2, Math.min(FACTION_ROSTER.length, humans + Math.max(0, aiCount)));
+  
+  return FACTION_ROSTER.slice(0, total).map((seat, i) => {
+    if (i < humans) {
+      return { ...seat, controller: 'human', name: humans > 1 ? `Player ${i + 1}` : seat.name };
+    }
+    const n = i - humans + 1;
+    return { ...seat, controller: 'ai', name: n === 1 ? 'AI' : `AI ${n}` };
+  });
+}
+
+// Whether untrusted data, from a save or replay file, is a list of at least two factions
+export function isFactionList(value: unknown): value is Faction[] {
+  const factions = value as Faction[];
+  return Array.isArray(factions) && factions.length >= 2 &&
+    new Set(factions.map(f => f?.id)).size === factions.length &&
+    factions.every(f => !!f && typeof f.id === 'string' && typeof f.name === 'string' &&
+      typeof f.color === 'number' && ['human', 'ai'].includes(f.controller));
+}
+
+export function findFaction(factions: Faction[], id: string): Faction | undefined {
+  return factions.find(f => f.id === id);
+}
+
+// Index of the faction that moves after the one at `current`, skipping
+// eliminated factions. A result <= current means a new round has started.
+export function nextInTurnOrder(factions: Faction[], current: number, isEliminated: (id: string) => boolean): number {
+  let next = current;
+  do {
+    next = (next + 1) % factions.length;
+  } while (isEliminated(factions[next].id) && next !== current);
+  return next;
+}
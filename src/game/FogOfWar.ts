@@ -0,0 +1,78 @@
+import { Board, Owner } from './Board';
+import { NEUTRAL } from './Faction';
+
+// Unit counts each faction last saw, by faction id and territory id
+export type LastSeen = Record<Owner, Record<string, number>>;
+
+// A faction sees the exact units on the territories it owns and their
+// neighbors. Everything else shows the count it saw last; ownership stays
+// public (the map colors). Every faction starts out knowing the starting board.
+export class FogOfWar {
+  private lastSeen: LastSeen = {};
+  private initial: Record<string, number> = {};
+  // Views handed out since the last update, by viewer
+  private views = new Map<Owner, Board>();
+  
+  constructor(private board: Board) {
+    for (const territory of board.getTerritories()) {
+      this.initial[territory.id] = territory.units;
+    }
+  }
+  
+  public isVisible(viewer: Owner, id: string): boolean {
+    const territory = this.board.getTerritory(id);
+    return territory.owner === viewer || this.board.getNeighbors(id).some(t => t.owner === viewer);
+  }
+  
+  public getLastSeen(viewer: Owner, id: string): number {
+    return this.getMemory(viewer)[id] ?? this.initial[id] ?? 0;
+  }
+  
+  // The board as the viewer knows it: a copy with last-seen units on hidden
+  // territories. It is shared until the next update, so it must not be changed.
+  public getView(viewer: Owner): Board {
+    const cached = this.views.get(viewer);
+    if (cached) return cached;
+    
+    const view = this.board.clone();
+    for (const territory of view.getTerritories()) {
+      if (!this.isVisible(viewer, territory.id)) {
+        territory.units = this.getLastSeen(viewer, territory.id);
+      }
+    }
+    this.views.set(viewer, view);
+    return view;
+  }
+  
+  // Remember what every faction on the board can see right now; called after
+  // every change to the board
+  public update(): void {
+    this.views.clear();
+    const viewers = new Set(this.board.getTerritories().map(t => t.owner));
+    viewers.delete(NEUTRAL);
+    for (const viewer of viewers) {
+      const memory = this.getMemory(viewer);
+      for (const territory of this.board.getTerritories()) {
+        if (this.isVisible(viewer, territory.id)) {
+          memory[territory.id] = territory.units;
+        }
+      }
+    }
+  }
+  
+  public getState(): LastSeen {
+    return JSON.parse(JSON.stringify(this.lastSeen));
+  }
+  
+  public setState(lastSeen: LastSeen): void {
+    this.lastSeen = JSON.parse(JSON.stringify(lastSeen));
+    this.views.clear();
+  }
+  
+  private getMemory(viewer: Owner): Record<string, number> {
+    if (!this.lastSeen[viewer]) {
+      this.lastSeen[viewer] = { ...this.initial };
+    }
+    return this.lastSeen[viewer];
+  }
+}
@@ -1,188 +1,565 @@
-import * as THREE from 'three';
-import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
-import { Territory } from './Territory';
 import { AIPlayer } from './AIPlayer';
 import { GameState } from './GameState';
+import { Board, Owner, Region, TerritoryData } from './Board';
+import { DEFAULT_RULES_OPTIONS, Rules, RulesOptions, VictoryResult } from './Rules';
+import { Random } from './Random';
+import { SaveData, SAVE_VERSION } from './SaveGame';
+import { AttackCommand, Command, PlaceCommand, TransferCommand, TurnLog } from './Commands';
+import { MatchRecorder, ReplayData, ReplayEvent, ReplayFrame, ReplayPlayer } from './Replay';
+import { createTerritories, MapDefinition } from './MapLoader';
+import { EditorTool, MapEditor } from './MapEditor';
+import { createStrategyProvider, StrategyProvider } from './StrategyProvider';
+import { Difficulty, DIFFICULTY_PRESETS, SearchAI } from './SearchAI';
+import { DEFAULT_FACTIONS, Faction, FACTION_ROSTER, findFaction, nextInTurnOrder, NEUTRAL_COLOR } from './Faction';
+import { BUNDLED_MAPS } from '../maps';
+import { NetworkClient } from '../net/NetworkClient';
+import { RoomState, ServerMessage } from '../net/Protocol';
+import { Animator, BoardEvent } from './Animator';
+import { BoardRenderer, RendererKind, RendererSetting, TerritoryView } from './BoardRenderer';
+import { ThreeRenderer } from './ThreeRenderer';
+import { SvgRenderer } from './SvgRenderer';
+import { CaptureOdds } from './Combat';
+import { describeCombatModifiers } from './Terrain';
+import { EventBus } from './EventBus';
+import { GameEvents } from './GameEvents';
+
+// An attack or transfer waiting for the player to pick how many units to send
+export interface PendingMove {
+  type: 'attack' | 'transfer';
+  from: string;
+  to: string;
+  fromName: string;
+  toName: string;
+  max: number;
+  // Suggested count
+  units: number;
+}
+
+// What a move from the selected territory to the one under the pointer would do
+export interface MovePreview {
+  type: 'attack' | 'transfer';
+  fromName: string;
+  toName: string;
+  // The count the move would suggest
+  units: number;
+  // Exact attack odds with that count; null for transfers
+  odds: CaptureOdds | null;
+  // Terrain effects on the attack
+  modifiers: string[];
+  // Pointer position in the page
+  x: number;
+  y: number;
+}
 
 export class Game {
-  private scene: THREE.Scene;
-  private camera: THREE.PerspectiveCamera;
-  private renderer: THREE.WebGLRenderer;
-  private controls: OrbitControls;
-  private raycaster: THREE.Raycaster;
-  private mouse: THREE.Vector2;
-  
-  private territories: Territory[] = [];
-  private selectedTerritory: Territory | null = null;
+  // Draws the board: the three.js view or the 2D fallback
+  private renderer!: BoardRenderer;
+  private rendererSetting: RendererSetting;
+  private lastFrame = performance.now();
+  
+  private territories: TerritoryView[] = [];
+  // Plays moves back on the board; the territories show a move once its animation lands
+  private animator!: Animator;
+  // Set while moves are being made whose animations update the meshes
+  private holdSync = false;
+  private selectedTerritory: TerritoryView | null = null;
+  private pendingMove: PendingMove | null = null;
   private gameState: GameState;
-  private ai: AIPlayer;
-  
-  public onStateChange: (state: GameState) => void = () => {};
-  public onMessage: (message: string) => void = () => {};
-  
-  constructor(private container: HTMLElement) {
-    // Initialize Three.js scene
-    this.scene = new THREE.Scene();
-    this.scene.background = new THREE.Color(0x87ceeb); // Sky blue background
-    
-    // Set up camera
-    this.camera = new THREE.PerspectiveCamera(
-      75, 
-      window.innerWidth / window.innerHeight, 
-      0.1, 
-      1000
-    );
-    this.camera.position.set(0, 15, 15);
-    
-    // Set up renderer
-    this.renderer = new THREE.WebGLRenderer({ antialias: true });
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
-    this.renderer.shadowMap.enabled = true;
-    this.container.appendChild(this.renderer.domElement);
-    
-    // Set up controls
-    this.controls = new OrbitControls(this.camera, this.renderer.domElement);
-    this.controls.enableDamping = true;
-    this.controls.dampingFactor = 0.05;
-    this.controls.maxPolarAngle = Math.PI / 2 - 0.1; // Prevent going below the ground
-    
-    // Set up raycaster for mouse interaction
-    this.raycaster = new THREE.Raycaster();
-    this.mouse = new THREE.Vector2();
-    
+  private rules!: Rules;
+  private random: Random;
+  private ruleOptions: RulesOptions = { ...DEFAULT_RULES_OPTIONS };
+  // A victory decided when a turn began (turn limit, king of the hill)
+  private turnVictory: VictoryResult | null = null;
+  private turnLog: TurnLog = new TurnLog();
+  private recorder: MatchRecorder = new MatchRecorder();
+  // The first recorded frame of each command, to drop all of its frames on undo
+  private commandFrames = new WeakMap<Command, number>();
+  private replayPlayer: ReplayPlayer | null = null;
+  // Set while endPlayerTurn lets the AI factions move
+  private aiTurnsRunning = false;
+  private factions: Faction[] = DEFAULT_FACTIONS;
+  // One AI player per AI-controlled faction
+  private ais: Map<string, AIPlayer> = new Map();
+  // Advisor the AI players consult, chosen from the Vite env
+  private strategy: StrategyProvider | null = createStrategyProvider();
+  // Search preset the AI players use; null lets them play by the advisor's plans
+  private difficulty: Difficulty | null = 'normal';
+  private currentMap!: MapDefinition;
+  
+  // Networked play: moves go to the server, which sends back the board
+  private online: NetworkClient | null = null;
+  private onlineFaction: Owner | null = null;
+  
+  // Map editor mode
+  private editor: MapEditor | null = null;
+  private editorTool: EditorTool = 'select';
+  private editorSelection: string | null = null;
+  private dragging: { id: string; moved: boolean } | null = null;
+  
+  // Messages, state changes, turns, moves and the end of the game, for any number of listeners
+  public readonly events = new EventBus<GameEvents>();
+  public onReplayFrame: (index: number, frame: ReplayFrame) => void = () => {};
+  public onEditorChange: () => void = () => {};
+  // Open the unit picker for a move, or close it when null
+  public onPendingMove: (move: PendingMove | null) => void = () => {};
+  // Show the odds tooltip for the hovered target, or hide it when null
+  public onMovePreview: (preview: MovePreview | null) => void = () => {};
+  
+  constructor(private container: HTMLElement, renderer: RendererSetting = 'auto') {
     // Set up game state
     this.gameState = new GameState();
     
-    // Set up AI player
-    this.ai = new AIPlayer(this);
+    // Set up the session's random number generator
+    this.random = new Random();
     
-    // Set up lighting
-    this.setupLights();
+    this.rendererSetting = renderer;
+    this.createRenderer();
     
-    // Create game board
-    this.createGameBoard();
+    // Start with the default map
+    this.loadMap(BUNDLED_MAPS[0]);
     
     // Set up event listeners
-    window.addEventListener('resize', this.onWindowResize.bind(this));
-    this.renderer.domElement.addEventListener('click', this.onMouseClick.bind(this));
+    window.addEventListener('resize', () => this.renderer.resize());
     
     // Start animation loop
     this.animate();
   }
   
-  private setupLights(): void {
-    // Ambient light
-    const ambientLight = new THREE.AmbientLight(0xffffff, 0.5);
-    this.scene.add(ambientLight);
-    
-    // Directional light (sun)
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
-    directionalLight.position.set(10, 20, 10);
-    directionalLight.castShadow = true;
-    directionalLight.shadow.mapSize.width = 2048;
-    directionalLight.shadow.mapSize.height = 2048;
-    directionalLight.shadow.camera.near = 0.5;
-    directionalLight.shadow.camera.far = 50;
-    directionalLight.shadow.camera.left = -20;
-    directionalLight.shadow.camera.right = 20;
-    directionalLight.shadow.camera.top = 20;
-    directionalLight.shadow.camera.bottom = -20;
-    this.scene.add(directionalLight);
-  }
-  
-  private createGameBoard(): void {
-    // Create ground
-    const groundGeometry = new THREE.PlaneGeometry(30, 30);
-    const groundMaterial = new THREE.MeshStandardMaterial({ 
-      color: 0x228B22,
-      roughness: 0.8,
-      metalness: 0.2
-    });
-    const ground = new THREE.Mesh(groundGeometry, groundMaterial);
-    ground.rotation.x = -Math.PI / 2;
-    ground.receiveShadow = true;
-    this.scene.add(ground);
-    
-    // Create territories in a grid pattern
-    const gridSize = 5; // 5x5 grid
-    const spacing = 5;
-    const offset = (gridSize - 1) * spacing / 2;
-    
-    for (let x = 0; x < gridSize; x++) {
-      for (let z = 0; z < gridSize; z++) {
-        const posX = x * spacing - offset;
-        const posZ = z * spacing - offset;
-        
-        // Skip some positions to create an interesting pattern
-        if ((x === 0 && z === 0) || (x === gridSize-1 && z === gridSize-1) || 
-            (x === 0 && z === gridSize-1) || (x === gridSize-1 && z === 0)) {
-          continue;
-        }
-        
-        const territory = new Territory(
-          posX, 
-          posZ, 
-          this.scene,
-          `Territory (${x},${z})`
-        );
-        
-        // Assign initial territories
-        if (x < 2 && z < 2) {
-          territory.setOwner('player');
-          territory.setUnits(3);
-        } else if (x > gridSize - 3 && z > gridSize - 3) {
-          territory.setOwner('ai');
-          territory.setUnits(3);
-        }
-        
-        this.territories.push(territory);
-      }
+  // The renderer the setting asks for; automatically, and when WebGL turns out
+  // to be missing, the 3D view where the browser supports it and the 2D one elsewhere
+  private createRenderer(): void {
+    const speed = this.animator?.getSpeed();
+    this.animator?.clear();
+    this.renderer?.dispose();
+    
+    const webgl = this.rendererSetting !== 'svg' && ThreeRenderer.isSupported();
+    this.renderer = webgl ? new ThreeRenderer(this.container) : new SvgRenderer(this.container);
+    
+    const element = this.renderer.element;
+    element.addEventListener('click', event => this.onMouseClick(event));
+    element.addEventListener('pointerdown', event => this.onPointerDown(event));
+    element.addEventListener('pointermove', event => this.onPointerMove(event));
+    element.addEventListener('pointerup', () => this.onPointerUp());
+    
+    this.animator = new Animator(this.renderer, id => this.territories.find(t => t.getId() === id));
+    this.animator.onIdle = () => this.syncTerritories();
+    if (speed !== undefined) {
+      this.animator.setSpeed(speed);
+    }
+  }
+  
+  // Build the rules, AI and territory meshes for a set of territories
+  private setupBoard(data: TerritoryData[], regions: Region[]): void {
+    this.turnLog = new TurnLog();
+    
+    this.rules = new Rules(new Board(data, regions), this.random, this.ruleOptions);
+    this.rules.onChange = () => this.syncTerritories();
+    
+    // Set up AI players
+    this.ais = new Map();
+    for (const faction of this.factions.filter(f => f.controller === 'ai')) {
+      // Mistakes are rolled on the game's generator, so a seed replays them too
+      const search = this.difficulty
+        ? new SearchAI(faction.id, DIFFICULTY_PRESETS[this.difficulty], this.random, this.ruleOptions.ruleSet)
+        : null;
+      const ai = new AIPlayer(this.rules, faction, this.strategy, search, message => this.log(message), () => this.animator.idle());
+      ai.onStrategy = text => {
+        this.record({ kind: 'strategy', side: faction.id, text });
+        this.events.emit('aiStrategyReceived', { side: faction.id, strategy: text });
+      };
+      ai.onPlace = result => {
+        this.gameState.reinforcements -= result.units;
+        this.record({ kind: 'place', side: faction.id, territory: result.territory, units: result.units });
+        this.emitBoardEvent({ kind: 'place', side: faction.id, result });
+        this.playEvent({ kind: 'place', side: faction.id, result });
+      };
+      ai.onAction = (action, result) => {
+        this.record({
+          kind: 'move',
+          side: faction.id,
+          type: action.type,
+          from: action.from.id,
+          to: action.to.id,
+          result,
+          confidence: action.confidence
+        });
+        const event: BoardEvent = 'captured' in result
+          ? { kind: 'attack', side: faction.id, result }
+          : { kind: 'transfer', side: faction.id, result };
+        this.emitBoardEvent(event);
+        this.playEvent(event);
+      };
+      this.ais.set(faction.id, ai);
     }
     
+    this.gameState.factionStats = {};
+    
+    this.buildTerritoryMeshes(this.rules.getBoard().getTerritories());
+    this.syncTerritories();
+    this.updateMarkers();
+    
     // Update game state
     this.updateGameState();
   }
   
-  private onWindowResize(): void {
-    this.camera.aspect = window.innerWidth / window.innerHeight;
-    this.camera.updateProjectionMatrix();
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
+  // Replace the territory meshes with ones for the given layout
+  private buildTerritoryMeshes(data: TerritoryData[]): void {
+    // Remove meshes of a previous board, and what was still animating on them
+    this.animator.clear();
+    for (const territory of this.territories) {
+      territory.dispose();
+    }
+    this.territories = [];
+    this.selectedTerritory = null;
+    this.setPendingMove(null);
+    
+    this.renderer.fitBoard(data);
+    for (const territory of data) {
+      this.territories.push(this.renderer.createTerritory(territory.id, territory.x, territory.z, territory.name));
+    }
+    this.renderer.showRivers(data);
+  }
+  
+  // Mark the hill or the capitals when the victory condition is about them
+  private updateMarkers(): void {
+    const objectives = this.rules.getObjectives().map(t => t.id);
+    const symbol = this.ruleOptions.ruleSet.victory.type === 'kingOfTheHill' ? '♛' : '★';
+    for (const territory of this.territories) {
+      territory.setMarker(objectives.includes(territory.getId()) ? symbol : '');
+    }
+  }
+  
+  // A fresh board of the current map, with the starting units of the rule set
+  private resetBoard(): void {
+    const ids = this.factions.map(f => f.id);
+    const territories = createTerritories(this.currentMap, ids, this.ruleOptions.ruleSet.startingUnits);
+    this.setupBoard(territories, this.currentMap.regions ?? []);
+  }
+  
+  // Update the territory meshes from the board state, as the fog viewer knows it.
+  // While moves animate the meshes follow the animations and catch up at the end.
+  private syncTerritories(): void {
+    if (this.holdSync || this.animator.isBusy()) return;
+    
+    this.showTerritories(this.getDisplayedBoard());
+  }
+  
+  // The board as the fog viewer knows it, with stale (last seen) territories marked
+  private getDisplayedBoard(): { data: TerritoryData; stale: boolean }[] {
+    const fog = this.rules.getFog();
+    const viewer = this.getFogViewer();
+    const board = fog && viewer ? fog.getView(viewer) : this.rules.getBoard();
+    
+    return board.getTerritories().map(data => ({
+      data: { ...data },
+      stale: fog !== null && viewer !== null && !fog.isVisible(viewer, data.id)
+    }));
+  }
+  
+  private showTerritories(displayed: { data: TerritoryData; stale: boolean }[]): void {
+    for (const { data, stale } of displayed) {
+      const territory = this.territories.find(t => t.getId() === data.id);
+      territory?.update(data, this.getFactionColor(data.owner), stale);
+    }
+  }
+  
+  // Queue the animation of a move just made; the meshes show the board as it is
+  // now when it lands. Moves the fog viewer cannot see are not shown.
+  private playEvent(event: BoardEvent): void {
+    const ids = event.kind === 'place' ? [event.result.territory] : [event.result.from, event.result.to];
+    const fog = this.rules.getFog();
+    const viewer = this.getFogViewer();
+    if (fog && viewer && !ids.some(id => fog.isVisible(viewer, id))) {
+      return;
+    }
+    
+    const displayed = this.getDisplayedBoard();
+    this.animator.enqueue(event, this.getFactionColor(event.side), () => this.showTerritories(displayed));
+  }
+  
+  // Make a new player move, animated
+  private executeCommand(command: Command): void {
+    this.commandFrames.set(command, this.recorder.getFrameCount());
+    this.holdSync = true;
+    try {
+      this.turnLog.execute(command);
+    } finally {
+      this.holdSync = false;
+    }
+    
+    const event = this.getBoardEvent(command);
+    if (event) {
+      this.playEvent(event);
+    }
+    this.syncTerritories();
+  }
+  
+  // The board change an executed command made, null if it made none
+  private getBoardEvent(command: Command): BoardEvent | null {
+    if (command instanceof PlaceCommand && command.result) {
+      return { kind: 'place', side: command.owner, result: command.result };
+    } else if (command instanceof AttackCommand && command.result) {
+      return { kind: 'attack', side: command.owner, result: command.result };
+    } else if (command instanceof TransferCommand && command.result) {
+      return { kind: 'transfer', side: command.owner, result: command.result };
+    }
+    return null;
+  }
+  
+  // Report a move to the event listeners; the board already shows its result
+  private emitBoardEvent(event: BoardEvent): void {
+    const board = this.rules.getBoard();
+    switch (event.kind) {
+      case 'place': {
+        const { territory, units } = event.result;
+        this.events.emit('reinforcementsApplied', {
+          side: event.side,
+          territory,
+          name: board.getTerritory(territory).name,
+          units,
+          remaining: this.gameState.reinforcements
+        });
+        break;
+      }
+      case 'attack': {
+        const { result } = event;
+        const toName = board.getTerritory(result.to).name;
+        this.events.emit('attackResolved', { side: event.side, result, fromName: board.getTerritory(result.from).name, toName });
+        if (result.captured) {
+          this.events.emit('territoryCaptured', {
+            side: event.side,
+            previousOwner: result.defender,
+            territory: result.to,
+            name: toName,
+            units: result.survivors
+          });
+        }
+        break;
+      }
+      case 'transfer': {
+        const { result } = event;
+        this.events.emit('unitsTransferred', {
+          side: event.side,
+          result,
+          fromName: board.getTerritory(result.from).name,
+          toName: board.getTerritory(result.to).name
+        });
+        break;
+      }
+    }
+  }
+  
+  // Whose knowledge the board shows under fog of war: the human playing now,
+  // or during AI turns the last human who played. Null shows the real board.
+  public getFogViewer(): Owner | null {
+    if (!this.rules.getFog() || this.online || !this.gameState.gameStarted || this.gameState.gameOver) {
+      return null;
+    }
+    
+    const current = this.factions.findIndex(f => f.id === this.gameState.currentTurn);
+    for (let i = 0; i < this.factions.length; i++) {
+      const faction = this.factions[(current - i + this.factions.length) % this.factions.length];
+      if (faction.controller === 'human' && !this.gameState.factionStats[faction.id]?.eliminated) {
+        return faction.id;
+      }
+    }
+    return null;
+  }
+  
+  private getFactionColor(owner: Owner, factions: Faction[] = this.factions): number {
+    return findFaction(factions, owner)?.color ?? NEUTRAL_COLOR;
+  }
+  
+  public isHumanTurn(): boolean {
+    return findFaction(this.factions, this.gameState.currentTurn)?.controller === 'human';
+  }
+  
+  // Whether the player at this machine may move now
+  public isLocalTurn(): boolean {
+    if (this.online) {
+      return this.gameState.currentTurn === this.onlineFaction;
+    }
+    return this.isHumanTurn();
   }
   
   private onMouseClick(event: MouseEvent): void {
-    // Calculate mouse position in normalized device coordinates
-    this.mouse.x = (event.clientX / window.innerWidth) * 2 - 1;
-    this.mouse.y = -(event.clientY / window.innerHeight) * 2 + 1;
+    if (this.editor) {
+      this.handleEditorClick(event);
+      return;
+    }
     
-    // Update the picking ray with the camera and mouse position
-    this.raycaster.setFromCamera(this.mouse, this.camera);
+    const clickedTerritory = this.pickTerritory(event);
+    if (clickedTerritory) {
+      this.handleTerritoryClick(clickedTerritory, event.shiftKey);
+    }
+    this.updateMovePreview(event);
+  }
+  
+  // The territory under the pointer
+  private pickTerritory(event: MouseEvent): TerritoryView | null {
+    const id = this.renderer.pickTerritory(event);
+    return id ? this.territories.find(t => t.getId() === id) ?? null : null;
+  }
+  
+  // Point on the ground under the pointer
+  private pickGround(event: MouseEvent): { x: number; z: number } | null {
+    return this.renderer.pickGround(event);
+  }
+  
+  private handleEditorClick(event: MouseEvent): void {
+    const editor = this.editor!;
     
-    // Calculate objects intersecting the picking ray
-    const intersects = this.raycaster.intersectObjects(
-      this.territories.map(t => t.getMesh())
-    );
+    // The click that ends a drag is not a selection
+    if (this.dragging?.moved) {
+      this.dragging = null;
+      return;
+    }
+    this.dragging = null;
     
-    if (intersects.length > 0) {
-      const clickedMesh = intersects[0].object;
-      const clickedTerritory = this.territories.find(t => t.getMesh() === clickedMesh);
-      
-      if (clickedTerritory) {
-        this.handleTerritoryClick(clickedTerritory);
+    const territory = this.pickTerritory(event);
+    
+    switch (this.editorTool) {
+      case 'place': {
+        const point = this.pickGround(event);
+        if (point && !territory) {
+          this.editorSelection = editor.addTerritory(point.x, point.z).id;
+        }
+        break;
+      }
+      case 'delete':
+        if (territory) {
+          if (this.editorSelection === territory.getId()) {
+            this.editorSelection = null;
+          }
+          editor.removeTerritory(territory.getId());
+        }
+        break;
+      case 'link':
+        // Link the selected territory with the clicked one, then select the clicked one
+        if (territory && this.editorSelection && this.editorSelection !== territory.getId()) {
+          editor.toggleLink(this.editorSelection, territory.getId());
+        }
+        this.editorSelection = territory ? territory.getId() : null;
+        this.renderEditor();
+        break;
+      case 'river':
+        // Same as linking, for rivers across existing links
+        if (territory && this.editorSelection && this.editorSelection !== territory.getId()) {
+          editor.toggleRiver(this.editorSelection, territory.getId());
+        }
+        this.editorSelection = territory ? territory.getId() : null;
+        this.renderEditor();
+        break;
+      case 'select':
+        this.editorSelection = territory ? territory.getId() : null;
+        this.renderEditor();
+        break;
+    }
+  }
+  
+  // Dragging territories with the select tool
+  
+  private onPointerDown(event: PointerEvent): void {
+    if (!this.editor || this.editorTool !== 'select') return;
+    
+    const territory = this.pickTerritory(event);
+    if (territory) {
+      this.dragging = { id: territory.getId(), moved: false };
+      this.editorSelection = territory.getId();
+      // Keep the camera from moving while dragging
+      this.renderer.setCameraEnabled(false);
+    }
+  }
+  
+  private onPointerMove(event: PointerEvent): void {
+    if (!this.editor) {
+      this.updateMovePreview(event);
+      return;
+    }
+    if (!this.dragging) return;
+    
+    const point = this.pickGround(event);
+    const territory = this.territories.find(t => t.getId() === this.dragging!.id);
+    if (point && territory) {
+      territory.setPosition(point.x, point.z);
+      this.dragging.moved = true;
+    }
+  }
+  
+  private onPointerUp(): void {
+    if (!this.editor || !this.dragging) return;
+    
+    this.renderer.setCameraEnabled(true);
+    const territory = this.territories.find(t => t.getId() === this.dragging!.id);
+    if (this.dragging.moved && territory) {
+      const position = territory.getPosition();
+      this.editor.moveTerritory(this.dragging.id, position.x, position.z);
+    } else {
+      this.dragging = null;
+    }
+  }
+  
+  // Show the map being edited: meshes, starting owners, selection and neighbor links
+  private renderEditor(): void {
+    if (!this.editor) return;
+    
+    const data = createTerritories(this.editor.getMap());
+    this.buildTerritoryMeshes(data);
+    for (const territory of this.territories) {
+      const territoryData = data.find(t => t.id === territory.getId())!;
+      territory.update(territoryData, this.getFactionColor(territoryData.owner, FACTION_ROSTER));
+      territory.setSelected(territory.getId() === this.editorSelection);
+    }
+    
+    const links: [TerritoryData, TerritoryData][] = [];
+    for (const territory of data) {
+      for (const neighborId of territory.neighbors) {
+        // Draw each link once
+        if (neighborId < territory.id) continue;
+        
+        const neighbor = data.find(t => t.id === neighborId);
+        if (neighbor) {
+          links.push([territory, neighbor]);
+        }
       }
     }
+    this.renderer.showLinks(links);
+    
+    this.onEditorChange();
   }
   
-  private handleTerritoryClick(territory: Territory): void {
-    // If it's not player's turn, do nothing
-    if (this.gameState.currentTurn !== 'player') {
+  // Shift-click places all remaining reinforcements at once
+  private handleTerritoryClick(territory: TerritoryView, placeAll: boolean = false): void {
+    // If it's not a human player's turn or a replay is showing, do nothing
+    if (!this.gameState.gameStarted || this.gameState.gameOver || !this.isLocalTurn() || this.replayPlayer) {
+      return;
+    }
+    
+    // Clicking the board while the unit picker is open cancels the move
+    if (this.pendingMove) {
+      this.cancelMove();
+      return;
+    }
+    
+    const board = this.rules.getBoard();
+    const current = this.gameState.currentTurn;
+    
+    // Reinforcements are placed before any attack or transfer
+    if (this.gameState.reinforcements > 0) {
+      if (territory.getOwner() === current) {
+        this.placeUnits(territory, placeAll ? this.gameState.reinforcements : 1);
+      } else {
+        this.showMessage(`Place your ${this.gameState.reinforcements} reinforcements on your own territories first`);
+      }
       return;
     }
     
     // If no territory is selected and the clicked territory belongs to the player
-    if (!this.selectedTerritory && territory.getOwner() === 'player') {
+    if (!this.selectedTerritory && territory.getOwner() === current) {
       this.selectedTerritory = territory;
       territory.setSelected(true);
-      this.onMessage(`Selected ${territory.getName()} with ${territory.getUnits()} units`);
+      this.updateHighlights();
+      this.showMessage(`Selected ${territory.getName()} with ${territory.getUnits()} units`);
     } 
     // If a territory is already selected
     else if (this.selectedTerritory) {
@@ -190,195 +567,942 @@ export class Game {
       if (this.selectedTerritory === territory) {
         this.selectedTerritory.setSelected(false);
         this.selectedTerritory = null;
-        this.onMessage('Deselected territory');
+        this.updateHighlights();
+        this.showMessage('Deselected territory');
       } 
-      // If clicking an adjacent territory
-      else if (this.isAdjacent(this.selectedTerritory, territory)) {
-        // If the target territory is owned by the player, transfer units
-        if (territory.getOwner() === 'player') {
-          this.transferUnits(this.selectedTerritory, territory);
-        } 
-        // If the target territory is neutral or enemy, attack it
-        else {
-          this.attackTerritory(this.selectedTerritory, territory);
-        }
-        
-        // Deselect after action
-        this.selectedTerritory.setSelected(false);
-        this.selectedTerritory = null;
-        
-        // Update game state
-        this.updateGameState();
+      // If clicking an adjacent territory, transfer to own territories and attack the others
+      else if (board.isAdjacent(this.selectedTerritory.getId(), territory.getId())) {
+        this.requestMove(territory.getOwner() === current ? 'transfer' : 'attack', this.selectedTerritory, territory);
       } 
       // If clicking a non-adjacent territory
       else {
-        this.onMessage('Territories are not adjacent');
+        this.showMessage('Territories are not adjacent');
       }
     }
   }
   
-  private isAdjacent(territory1: Territory, territory2: Territory): boolean {
-    const pos1 = territory1.getPosition();
-    const pos2 = territory2.getPosition();
-    const distance = pos1.distanceTo(pos2);
+  private placeUnits(territory: TerritoryView, units: number): void {
+    const owner = this.gameState.currentTurn;
+    const reason = this.rules.checkPlace(owner, territory.getId(), units);
+    if (reason) {
+      this.showMessage(reason);
+      return;
+    }
     
-    // Territories are adjacent if they are within a certain distance
-    return distance < 7; // Slightly more than the spacing (5) to account for territory size
+    if (this.online) {
+      this.online.place(territory.getId(), units);
+      return;
+    }
+    
+    const command = new PlaceCommand(this.rules, owner, territory.getId(), units);
+    this.executeCommand(command);
+    this.gameState.reinforcements -= units;
+    this.reportCommand(command);
+    this.recordCommand(command);
+    this.updateGameState();
   }
   
-  private transferUnits(from: Territory, to: Territory): void {
-    // Transfer half of the units from one territory to another
-    const unitsToTransfer = Math.floor(from.getUnits() / 2);
+  // Asks for the unit count unless there is only one choice
+  private requestMove(type: 'attack' | 'transfer', from: TerritoryView, to: TerritoryView): void {
+    const owner = this.gameState.currentTurn;
+    const units = this.rules.getDefaultUnits(type, from.getId());
+    const reason = type === 'attack'
+      ? this.rules.checkAttack(owner, from.getId(), to.getId(), units)
+      : this.rules.checkTransfer(owner, from.getId(), to.getId(), units);
+    if (reason) {
+      this.showMessage(reason);
+      this.clearSelection();
+      return;
+    }
     
-    if (unitsToTransfer > 0) {
-      from.setUnits(from.getUnits() - unitsToTransfer);
-      to.setUnits(to.getUnits() + unitsToTransfer);
-      this.onMessage(`Transferred ${unitsToTransfer} units from ${from.getName()} to ${to.getName()}`);
+    const move: PendingMove = {
+      type,
+      from: from.getId(),
+      to: to.getId(),
+      fromName: from.getName(),
+      toName: to.getName(),
+      max: this.rules.getMaxUnits(from.getId()),
+      units
+    };
+    if (move.max === 1) {
+      this.executeMove(move);
     } else {
-      this.onMessage('Not enough units to transfer');
+      this.setPendingMove(move);
     }
   }
   
-  private attackTerritory(attacker: Territory, defender: Territory): void {
-    const attackerUnits = attacker.getUnits();
-    const defenderUnits = defender.getUnits();
+  // The move the current faction could make from one territory to the other with
+  // the suggested unit count, or null if it is not allowed
+  private getMoveType(from: TerritoryView, to: TerritoryView): 'attack' | 'transfer' | null {
+    const owner = this.gameState.currentTurn;
+    if (from === to || !this.rules.getBoard().isAdjacent(from.getId(), to.getId())) return null;
     
-    // Need at least 2 units to attack (1 must stay behind)
-    if (attackerUnits <= 1) {
-      this.onMessage('Not enough units to attack');
+    const type = to.getOwner() === owner ? 'transfer' : 'attack';
+    const units = this.rules.getDefaultUnits(type, from.getId());
+    const reason = type === 'attack'
+      ? this.rules.checkAttack(owner, from.getId(), to.getId(), units)
+      : this.rules.checkTransfer(owner, from.getId(), to.getId(), units);
+    return reason ? null : type;
+  }
+  
+  // Light up the neighbors the selected territory can attack or transfer to
+  private updateHighlights(): void {
+    const from = this.selectedTerritory;
+    for (const territory of this.territories) {
+      territory.setHighlight(from ? this.getMoveType(from, territory) : null);
+    }
+  }
+  
+  // Odds for the territory under the pointer, when it is a target of the selected one
+  private updateMovePreview(event: MouseEvent): void {
+    const from = this.selectedTerritory;
+    const to = from && !this.pendingMove && !this.replayPlayer && this.isLocalTurn() ? this.pickTerritory(event) : null;
+    const type = from && to ? this.getMoveType(from, to) : null;
+    if (!from || !to || !type) {
+      this.onMovePreview(null);
       return;
     }
     
-    // Calculate attack strength (random factor for unpredictability)
-    const attackStrength = Math.floor((attackerUnits - 1) * (0.8 + Math.random() * 0.4));
-    const defenseStrength = Math.floor(defenderUnits * (0.8 + Math.random() * 0.4));
+    const units = this.rules.getDefaultUnits(type, from.getId());
+    const board = this.rules.getBoard();
+    this.onMovePreview({
+      type,
+      fromName: from.getName(),
+      toName: to.getName(),
+      units,
+      odds: type === 'attack' ? this.getAttackOdds(from.getId(), to.getId(), units) : null,
+      modifiers: type === 'attack' ? describeCombatModifiers(board, from.getId(), to.getId()) : [],
+      x: event.clientX,
+      y: event.clientY
+    });
+  }
+  
+  // Exact odds of an attack by the faction whose turn it is, as that faction sees the board
+  public getAttackOdds(fromId: string, toId: string, units: number): CaptureOdds {
+    return this.rules.getAttackOdds(this.gameState.currentTurn, fromId, toId, units);
+  }
+  
+  // Sends the pending move with the units picked for it
+  public confirmMove(units: number): void {
+    const move = this.pendingMove;
+    if (!move) return;
     
-    this.onMessage(`${attacker.getName()} (${attackStrength}) attacks ${defender.getName()} (${defenseStrength})`);
+    this.executeMove({ ...move, units });
+  }
+  
+  public cancelMove(): void {
+    if (!this.pendingMove) return;
     
-    // Determine outcome
-    if (attackStrength > defenseStrength) {
-      // Attacker wins
-      const remainingUnits = Math.floor((attackerUnits - 1) * (attackStrength / (attackStrength + defenseStrength)));
-      attacker.setUnits(1); // Leave 1 unit behind
-      defender.setOwner('player');
-      defender.setUnits(remainingUnits);
-      this.onMessage(`Attack successful! Captured ${defender.getName()} with ${remainingUnits} units`);
+    this.clearSelection();
+    this.showMessage('Move cancelled');
+  }
+  
+  public getPendingMove(): PendingMove | null {
+    return this.pendingMove;
+  }
+  
+  private setPendingMove(move: PendingMove | null): void {
+    if (move === this.pendingMove) return;
+    
+    this.pendingMove = move;
+    this.onPendingMove(move);
+  }
+  
+  private executeMove(move: PendingMove): void {
+    const from = this.territories.find(t => t.getId() === move.from)!;
+    const to = this.territories.find(t => t.getId() === move.to)!;
+    if (move.type === 'attack') {
+      this.attackTerritory(from, to, move.units);
     } else {
-      // Defender wins or tie
-      const attackerLosses = Math.floor(attackerUnits * 0.5); // Lose half units on failed attack
-      attacker.setUnits(Math.max(1, attackerUnits - attackerLosses));
+      this.transferUnits(from, to, move.units);
+    }
+    
+    // Deselect after action
+    this.clearSelection();
+    this.updateGameState();
+  }
+  
+  private transferUnits(from: TerritoryView, to: TerritoryView, units: number): void {
+    const owner = this.gameState.currentTurn;
+    const reason = this.rules.checkTransfer(owner, from.getId(), to.getId(), units);
+    if (reason) {
+      this.showMessage(reason);
+      return;
+    }
+    
+    if (this.online) {
+      this.online.transfer(from.getId(), to.getId(), units);
+      return;
+    }
+    
+    const command = new TransferCommand(this.rules, owner, from.getId(), to.getId(), units);
+    this.executeCommand(command);
+    this.reportCommand(command);
+    this.recordCommand(command);
+  }
+  
+  private attackTerritory(attacker: TerritoryView, defender: TerritoryView, units: number): void {
+    const owner = this.gameState.currentTurn;
+    const reason = this.rules.checkAttack(owner, attacker.getId(), defender.getId(), units);
+    if (reason) {
+      this.showMessage(reason);
+      return;
+    }
+    
+    if (this.online) {
+      this.online.attack(attacker.getId(), defender.getId(), units);
+      return;
+    }
+    
+    const command = new AttackCommand(this.rules, owner, attacker.getId(), defender.getId(), units);
+    this.executeCommand(command);
+    this.reportCommand(command);
+    this.recordCommand(command);
+  }
+  
+  // Log the outcome of an executed (or redone) player command
+  private reportCommand(command: Command): void {
+    const event = this.getBoardEvent(command);
+    if (event) {
+      this.emitBoardEvent(event);
+    }
+    
+    const board = this.rules.getBoard();
+    const from = board.getTerritory(command.from);
+    const to = board.getTerritory(command.to);
+    
+    if (command instanceof PlaceCommand && command.result) {
+      this.log(`Placed ${command.result.units} units on ${to.name} (${this.gameState.reinforcements} left)`);
+    } else if (command instanceof TransferCommand && command.result) {
+      this.log(`Transferred ${command.result.units} units from ${from.name} to ${to.name}`);
+    } else if (command instanceof AttackCommand && command.result) {
+      const result = command.result;
+      // Under fog of war in hotseat the other players read the log too, so
+      // like AI attacks it only tells what was attacked and how it went
+      if (this.rules.getFog() && this.isHotseat()) {
+        this.log(`${from.name} attacks ${to.name}`);
+        this.log(result.captured ? `Attack successful! Captured ${to.name}` : 'Attack failed!');
+        return;
+      }
       
-      // Defender also loses some units
-      const defenderLosses = Math.floor(defenderUnits * 0.3);
-      defender.setUnits(Math.max(1, defenderUnits - defenderLosses));
+      this.log(`${from.name} attacks ${to.name} with ${result.units} units (${result.attackStrength} vs ${result.defenseStrength})`);
       
-      this.onMessage(`Attack failed! Lost ${attackerLosses} units`);
+      if (result.captured) {
+        this.log(`Attack successful! Captured ${to.name} with ${result.survivors} units`);
+      } else {
+        this.log(`Attack failed! Lost ${result.attackerLosses} units`);
+      }
+    }
+  }
+  
+  private recordCommand(command: Command): void {
+    if (command instanceof PlaceCommand && command.result) {
+      this.record({ kind: 'place', side: command.owner, territory: command.to, units: command.result.units });
+    } else if ((command instanceof AttackCommand || command instanceof TransferCommand) && command.result) {
+      this.record({
+        kind: 'move',
+        side: command.owner,
+        type: command.type,
+        from: command.from,
+        to: command.to,
+        result: command.result
+      });
     }
   }
   
+  // Log a message that belongs in the match record
+  private log(message: string): void {
+    this.recorder.addMessage(message);
+    this.showMessage(message);
+  }
+  
+  // A message for the log that is not part of the match record
+  private showMessage(text: string): void {
+    this.events.emit('message', { text });
+  }
+  
+  // Tell the listeners whose turn it is, after its reinforcements are granted
+  private announceTurn(faction: Faction): void {
+    this.events.emit('turnStarted', {
+      faction,
+      turnNumber: this.gameState.turnNumber,
+      reinforcements: this.gameState.reinforcements
+    });
+  }
+  
+  private record(event: ReplayEvent): void {
+    this.recorder.record(event, this.gameState.turnNumber, this.rules.getBoard().getTerritories());
+  }
+  
+  private clearSelection(): void {
+    if (this.selectedTerritory) {
+      this.selectedTerritory.setSelected(false);
+      this.selectedTerritory = null;
+    }
+    this.updateHighlights();
+    this.onMovePreview(null);
+    this.setPendingMove(null);
+  }
+  
   private updateGameState(): void {
-    // Count units and territories for each player
-    let playerUnits = 0;
-    let aiUnits = 0;
-    let playerTerritories = 0;
-    let aiTerritories = 0;
+    const board = this.rules.getBoard();
     
-    for (const territory of this.territories) {
-      if (territory.getOwner() === 'player') {
-        playerUnits += territory.getUnits();
-        playerTerritories++;
-      } else if (territory.getOwner() === 'ai') {
-        aiUnits += territory.getUnits();
-        aiTerritories++;
+    // Update per-faction stats, announcing factions that lost their last territory
+    for (const faction of this.factions) {
+      const territories = board.getOwnedBy(faction.id).length;
+      const previous = this.gameState.factionStats[faction.id];
+      this.gameState.factionStats[faction.id] = {
+        units: board.getTotalUnits(faction.id),
+        territories,
+        eliminated: territories === 0
+      };
+      
+      if (this.gameState.gameStarted && territories === 0 && previous && !previous.eliminated) {
+        this.log(`${faction.name} has been eliminated.`);
       }
     }
     
-    // Update game state
-    this.gameState.playerUnits = playerUnits;
-    this.gameState.aiUnits = aiUnits;
-    this.gameState.playerTerritories = playerTerritories;
-    this.gameState.aiTerritories = aiTerritories;
+    // Check for win conditions; a win stands, as undo closes with the game.
+    // The game also ends once no human faction is left to play.
+    const victory = this.turnVictory ?? this.rules.getVictory();
+    const winner = victory?.winner ?? null;
+    const humansLeft = this.factions.some(f => f.controller === 'human' && !this.gameState.factionStats[f.id].eliminated);
+    const wasOver = this.gameState.gameOver;
+    this.gameState.gameOver = victory !== null || !humansLeft;
+    this.gameState.winner = winner;
+    
+    if (!wasOver && victory) {
+      const name = winner ? findFaction(this.factions, winner)?.name ?? winner : null;
+      this.log(name ? `${name} wins! ${victory.reason}.` : `The game is a draw. ${victory.reason}.`);
+    } else if (!wasOver && this.gameState.gameOver) {
+      this.log('Game over! All human players have been eliminated.');
+    }
     
-    // Check for win conditions
-    if (aiTerritories === 0) {
-      this.gameState.gameOver = true;
-      this.gameState.winner = 'player';
-      this.onMessage('You win! All AI territories captured.');
-    } else if (playerTerritories === 0) {
-      this.gameState.gameOver = true;
-      this.gameState.winner = 'ai';
-      this.onMessage('AI wins! All your territories captured.');
+    if (!wasOver && this.gameState.gameOver) {
+      this.record({ kind: 'gameOver', winner });
+      // Lift the fog of war
+      this.syncTerritories();
     }
     
-    // Notify listeners
-    this.onStateChange(this.gameState);
+    // Notify listeners, the end of the game after its final state
+    this.events.emit('stateChanged', { state: this.gameState });
+    if (!wasOver && this.gameState.gameOver) {
+      this.events.emit('gameOver', { winner, reason: victory?.reason ?? 'All human players have been eliminated' });
+    }
   }
   
   private animate(): void {
     requestAnimationFrame(this.animate.bind(this));
     
-    // Update controls
-    this.controls.update();
+    const now = performance.now();
+    this.animator.update(now - this.lastFrame);
+    this.lastFrame = now;
     
-    // Render scene
-    this.renderer.render(this.scene, this.camera);
+    this.renderer.render();
   }
   
   // Public methods
   
-  public start(): void {
+  public start(seed?: number, options: Partial<RulesOptions> = {}): void {
+    if (seed !== undefined) {
+      this.random.setSeed(seed);
+    }
+    
+    this.ruleOptions = { ...this.ruleOptions, ...options };
+    this.turnVictory = null;
+    this.resetBoard();
+    
     this.gameState.gameStarted = true;
-    this.gameState.currentTurn = 'player';
+    this.gameState.currentTurn = this.factions[0].id;
+    this.events.emit('gameStarted', { seed: this.random.getSeed(), factions: this.factions, turnNumber: 1 });
+    this.syncTerritories();
+    this.recorder.begin(this.rules.getBoard().getTerritories(), this.factions, this.random.getSeed());
     this.updateGameState();
-    this.onMessage('Game started! Your turn.');
+    const turn = this.isHotseat() ? `${this.getCurrentFaction().name}'s turn.` : 'Your turn.';
+    this.log(`Game started with seed ${this.random.getSeed()}! ${turn}`);
+    this.record({ kind: 'start', seed: this.random.getSeed() });
+    this.record({ kind: 'turn', side: this.gameState.currentTurn, turnNumber: this.gameState.turnNumber });
+    this.grantReinforcements();
+    this.events.emit('stateChanged', { state: this.gameState });
+  }
+  
+  // A new game with a fresh seed on the same map, factions and rules, once the last one is over
+  public rematch(): void {
+    if (!this.gameState.gameOver || this.online || this.replayPlayer) return;
+    
+    this.gameState = new GameState();
+    this.start(Random.generateSeed());
+  }
+  
+  // Hand the faction whose turn it is its reinforcements to place
+  private grantReinforcements(): void {
+    const faction = this.getCurrentFaction();
+    const pool = this.rules.getReinforcements(faction.id);
+    this.gameState.reinforcements = pool.total;
+    
+    const bonuses = pool.regions.map(r => `+${r.bonus} for ${r.name}`);
+    if (pool.cities > 0) {
+      bonuses.push(`+${pool.cities} for cities`);
+    }
+    this.log(`${faction.name} receives ${pool.total} reinforcements` +
+      (bonuses.length > 0 ? ` (${pool.base} for territories, ${bonuses.join(', ')})` : ''));
+    this.record({ kind: 'reinforce', side: faction.id, units: pool.total });
   }
   
   public async endPlayerTurn(): Promise<void> {
-    if (!this.gameState.gameStarted || this.gameState.gameOver) {
+    if (!this.gameState.gameStarted || this.gameState.gameOver || !this.isLocalTurn()) {
       return;
     }
     
-    // Add units to player territories (1 per territory, minimum)
-    for (const territory of this.territories) {
-      if (territory.getOwner() === 'player') {
-        territory.setUnits(territory.getUnits() + 1);
+    if (this.gameState.reinforcements > 0) {
+      this.showMessage(`Place your remaining ${this.gameState.reinforcements} reinforcements first`);
+      return;
+    }
+    
+    // The server passes the turn on
+    if (this.online) {
+      this.clearSelection();
+      this.online.endTurn();
+      return;
+    }
+    
+    // The player's moves are final from here on
+    this.clearSelection();
+    this.turnLog.commit();
+    
+    this.log(this.isHotseat() ? `${this.getCurrentFaction().name}'s turn ended.` : 'Turn ended.');
+    
+    // Let the AI factions move until it is a human's turn again
+    this.nextTurn();
+    this.aiTurnsRunning = true;
+    try {
+      while (!this.gameState.gameOver && !this.isHumanTurn()) {
+        const ai = this.ais.get(this.gameState.currentTurn)!;
+        this.log(`${ai.getFaction().name} is thinking...`);
+        
+        // Small delay to show AI "thinking", shorter at faster animation speeds
+        await this.animator.delay(1000);
+        
+        // Place reinforcements, then attack and transfer; the moves show as they animate
+        this.holdSync = true;
+        try {
+          await ai.placeReinforcements(this.gameState.reinforcements);
+          this.gameState.reinforcements = 0;
+          await ai.executeTurn();
+        } finally {
+          this.holdSync = false;
+        }
+        this.syncTerritories();
+        this.updateGameState();
+        
+        this.nextTurn();
       }
+    } finally {
+      this.aiTurnsRunning = false;
     }
     
-    this.onMessage('Turn ended. Adding 1 unit to each of your territories.');
-    this.updateGameState();
+    return Promise.resolve();
+  }
+  
+  // Pass the turn to the next faction still in the game, counting a new
+  // round whenever the turn order wraps around
+  private nextTurn(): void {
+    if (this.gameState.gameOver) return;
     
-    // AI turn
-    this.gameState.currentTurn = 'ai';
-    this.onMessage('AI is thinking...');
+    const current = this.factions.findIndex(f => f.id === this.gameState.currentTurn);
+    const next = nextInTurnOrder(this.factions, current, id => this.gameState.factionStats[id].eliminated);
+    if (next <= current) {
+      this.gameState.turnNumber++;
+    }
     
-    // Small delay to show AI "thinking"
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    this.gameState.currentTurn = this.factions[next].id;
+    this.record({ kind: 'turn', side: this.gameState.currentTurn, turnNumber: this.gameState.turnNumber });
     
-    // Execute AI turn
-    await this.ai.executeTurn();
+    this.turnVictory = this.rules.getTurnStartVictory(this.gameState.currentTurn, this.gameState.turnNumber);
+    if (this.turnVictory) {
+      this.updateGameState();
+      return;
+    }
     
-    // Add units to AI territories
-    for (const territory of this.territories) {
-      if (territory.getOwner() === 'ai') {
-        territory.setUnits(territory.getUnits() + 1);
+    this.grantReinforcements();
+    // In hotseat the fog of war follows the player at the device
+    this.syncTerritories();
+    this.events.emit('stateChanged', { state: this.gameState });
+    this.announceTurn(this.factions[next]);
+  }
+  
+  // The factions for the next game, in turn order; only before the game starts
+  public setFactions(factions: Faction[]): void {
+    if (this.gameState.gameStarted) {
+      throw new Error('Cannot change the factions of a running game');
+    }
+    
+    this.factions = factions;
+    this.loadMap(this.currentMap);
+  }
+  
+  public getFactions(): Faction[] {
+    return this.factions;
+  }
+  
+  public setStrategyProvider(strategy: StrategyProvider | null): void {
+    if (this.gameState.gameStarted) {
+      throw new Error('Cannot change the AI advisor of a running game');
+    }
+    
+    this.strategy = strategy;
+    this.setupBoard(this.rules.getBoard().getTerritories(), this.rules.getBoard().getRegions());
+  }
+  
+  public setDifficulty(difficulty: Difficulty | null): void {
+    if (this.gameState.gameStarted) {
+      throw new Error('Cannot change the AI difficulty of a running game');
+    }
+    
+    this.difficulty = difficulty;
+    this.setupBoard(this.rules.getBoard().getTerritories(), this.rules.getBoard().getRegions());
+  }
+  
+  public getDifficulty(): Difficulty | null {
+    return this.difficulty;
+  }
+  
+  public getStrategyProvider(): StrategyProvider | null {
+    return this.strategy;
+  }
+  
+  public getCurrentFaction(): Faction {
+    return findFaction(this.factions, this.gameState.currentTurn) ?? this.factions[0];
+  }
+  
+  // The map's regions with the faction holding each one completely, if any
+  public getRegionHolders(): { region: Region; holder: Faction | null }[] {
+    const board = this.rules.getBoard();
+    return board.getRegions().map(region => {
+      const owner = board.getTerritory(region.territories[0]).owner;
+      const held = board.getRegionsHeldBy(owner).includes(region);
+      return { region, holder: held ? findFaction(this.factions, owner) ?? null : null };
+    });
+  }
+  
+  // Several humans taking turns on one machine
+  public isHotseat(): boolean {
+    return !this.online && this.factions.filter(f => f.controller === 'human').length > 1;
+  }
+  
+  // Networked play
+  
+  public isOnline(): boolean {
+    return this.online !== null;
+  }
+  
+  public getOnlineFaction(): Owner | null {
+    return this.onlineFaction;
+  }
+  
+  // Play the room the client has joined; the local game is replaced by the server's
+  public joinOnlineGame(client: NetworkClient, factionId: Owner): void {
+    this.stopReplay();
+    this.online = client;
+    this.onlineFaction = factionId;
+    // Online matches are not recorded for replays
+    this.recorder = new MatchRecorder();
+  }
+  
+  // Back to a fresh local game on the current map
+  public leaveOnlineGame(): void {
+    if (!this.online) return;
+    
+    this.online = null;
+    this.onlineFaction = null;
+    this.factions = DEFAULT_FACTIONS;
+    this.gameState = new GameState();
+    this.loadMap(this.currentMap);
+  }
+  
+  // Full resync, sent by the server on join and reconnect
+  public applyRoomState(state: RoomState): void {
+    if (!this.online) return;
+    
+    const turnChanged = state.currentTurn !== this.gameState.currentTurn || !this.gameState.gameStarted;
+    const joined = state.started && !this.gameState.gameStarted;
+    this.factions = state.factions;
+    // The server plays the default rules
+    this.ruleOptions = { ...DEFAULT_RULES_OPTIONS };
+    this.turnVictory = null;
+    this.gameState.gameStarted = state.started;
+    this.gameState.gameOver = state.winner !== null;
+    this.gameState.winner = state.winner;
+    this.gameState.currentTurn = state.currentTurn;
+    this.gameState.turnNumber = state.turnNumber;
+    this.gameState.reinforcements = state.reinforcements;
+    
+    if (joined) {
+      this.events.emit('gameStarted', { seed: null, factions: this.factions, turnNumber: state.turnNumber });
+    }
+    this.setupBoard(state.territories, state.regions);
+    if (state.started && turnChanged) {
+      this.announceTurn(this.getCurrentFaction());
+    }
+  }
+  
+  // Apply a state diff from the server to the board and territory meshes
+  public applyRoomUpdate(update: Extract<ServerMessage, { type: 'update' }>): void {
+    if (!this.online) return;
+    
+    const board = this.rules.getBoard();
+    for (const snapshot of update.territories) {
+      const territory = board.getTerritory(snapshot.id);
+      territory.owner = snapshot.owner;
+      territory.units = snapshot.units;
+    }
+    for (const message of update.messages) {
+      this.showMessage(message);
+    }
+    
+    const turnChanged = update.currentTurn !== this.gameState.currentTurn;
+    this.gameState.currentTurn = update.currentTurn;
+    this.gameState.turnNumber = update.turnNumber;
+    this.gameState.reinforcements = update.reinforcements;
+    
+    this.syncTerritories();
+    this.updateGameState();
+    if (turnChanged) {
+      this.clearSelection();
+      this.announceTurn(this.getCurrentFaction());
+    }
+  }
+  
+  // Replace the board with a fresh copy of a map, only before the game starts
+  public loadMap(map: MapDefinition): void {
+    if (this.gameState.gameStarted) {
+      throw new Error('Cannot change the map of a running game');
+    }
+    
+    this.currentMap = map;
+    this.resetBoard();
+    this.showMessage(`Loaded map: ${map.name}`);
+  }
+  
+  public getCurrentMap(): MapDefinition {
+    return this.currentMap;
+  }
+  
+  // Map editor
+  
+  public isEditing(): boolean {
+    return this.editor !== null;
+  }
+  
+  public getEditor(): MapEditor | null {
+    return this.editor;
+  }
+  
+  public getEditorSelection(): string | null {
+    return this.editorSelection;
+  }
+  
+  public getEditorTool(): EditorTool {
+    return this.editorTool;
+  }
+  
+  public setEditorTool(tool: EditorTool): void {
+    this.editorTool = tool;
+    this.onEditorChange();
+  }
+  
+  // Edit a copy of a map (the current one by default), only before the game starts
+  public enterEditor(map: MapDefinition = this.currentMap): MapEditor {
+    if (this.gameState.gameStarted || this.replayPlayer) {
+      throw new Error('The map editor is only available before the game starts');
+    }
+    
+    this.editor = new MapEditor(map);
+    this.editor.onChange = () => this.renderEditor();
+    this.editorSelection = null;
+    this.editorTool = 'select';
+    this.renderEditor();
+    return this.editor;
+  }
+  
+  // Leave the editor, playing on the edited map when apply is set and the map is valid
+  public exitEditor(apply: boolean): boolean {
+    if (!this.editor) return true;
+    
+    const map = this.editor.getMap();
+    if (apply) {
+      const errors = this.editor.validate();
+      if (errors.length > 0) {
+        this.showMessage(`Map is not valid: ${errors.join('; ')}`);
+        return false;
       }
     }
     
-    // Back to player turn
-    this.gameState.currentTurn = 'player';
+    this.editor = null;
+    this.editorSelection = null;
+    this.dragging = null;
+    this.renderer.setCameraEnabled(true);
+    this.renderer.showLinks([]);
+    
+    if (apply) {
+      this.loadMap(map);
+    } else {
+      this.resetBoard();
+    }
+    this.onEditorChange();
+    return true;
+  }
+  
+  // Animations
+  
+  public getAnimationSpeed(): number {
+    return this.animator.getSpeed();
+  }
+  
+  // A multiple of the normal speed, 0 shows moves at once
+  public setAnimationSpeed(speed: number): void {
+    this.animator.setSpeed(speed);
+  }
+  
+  // Show every queued move at once
+  public skipAnimations(): void {
+    this.animator.skip();
+  }
+  
+  // Renderer
+  
+  public getRendererSetting(): RendererSetting {
+    return this.rendererSetting;
+  }
+  
+  // The renderer in use, which differs from an explicit 'webgl' setting without WebGL
+  public getRendererKind(): RendererKind {
+    return this.renderer.kind;
+  }
+  
+  // Switch renderers and draw what the old one showed, from the state rather than its meshes
+  public setRenderer(setting: RendererSetting): void {
+    this.rendererSetting = setting;
+    this.createRenderer();
+    this.dragging = null;
+    
+    if (this.editor) {
+      this.renderEditor();
+    } else if (this.replayPlayer) {
+      this.buildTerritoryMeshes(this.replayPlayer.getReplay().territories);
+      this.replayPlayer.seek(this.replayPlayer.getIndex());
+    } else {
+      this.buildTerritoryMeshes(this.rules.getBoard().getTerritories());
+      this.syncTerritories();
+      this.updateMarkers();
+    }
+  }
+  
+  // Undo/redo of the player's moves during their turn, until the game is over:
+  // by then the end has been announced and the summary shown
+  
+  public canUndo(): boolean {
+    return !this.online && !this.gameState.gameOver && this.isHumanTurn() && this.turnLog.canUndo();
+  }
+  
+  public canRedo(): boolean {
+    return !this.online && !this.gameState.gameOver && this.isHumanTurn() && this.turnLog.canRedo();
+  }
+  
+  public undo(): void {
+    if (!this.canUndo()) return;
+    
+    this.clearSelection();
+    const command = this.turnLog.undo();
+    if (command instanceof PlaceCommand) {
+      this.gameState.reinforcements += command.units;
+    }
+    if (command) {
+      this.recorder.discardFrom(this.commandFrames.get(command) ?? this.recorder.getFrameCount());
+      this.showMessage(`Undid ${command.describe()}`);
+    }
+    if (command instanceof AttackCommand && command.result) {
+      this.events.emit('attackUndone', { side: command.owner, result: command.result });
+    }
     this.updateGameState();
+  }
+  
+  public redo(): void {
+    if (!this.canRedo()) return;
     
-    return Promise.resolve();
+    this.clearSelection();
+    const frame = this.recorder.getFrameCount();
+    const command = this.turnLog.redo();
+    if (command instanceof PlaceCommand) {
+      this.gameState.reinforcements -= command.units;
+    }
+    if (command) {
+      this.commandFrames.set(command, frame);
+      this.reportCommand(command);
+      this.recordCommand(command);
+    }
+    this.updateGameState();
   }
   
-  // Getters for AI player
+  // Getters
   
-  public getTerritories(): Territory[] {
+  public getTerritories(): TerritoryView[] {
     return this.territories;
   }
   
+  public getRules(): Rules {
+    return this.rules;
+  }
+  
   public getGameState(): GameState {
     return this.gameState;
   }
+  
+  public getSeed(): number {
+    return this.random.getSeed();
+  }
+  
+  public getRulesOptions(): RulesOptions {
+    return this.ruleOptions;
+  }
+  
+  // Save/load
+  
+  // Why the game cannot be saved now, or null if it can. A save resumes on
+  // its current turn, which only a human at this device can take up.
+  public checkSave(): string | null {
+    if (this.online) {
+      return 'Online games cannot be saved';
+    }
+    if (this.aiTurnsRunning || !this.isHumanTurn()) {
+      return 'You can only save during your turn';
+    }
+    return null;
+  }
+  
+  // Why a save cannot be loaded now, or null if it can: the AI turns, a
+  // replay and the editor would all keep working on the replaced board
+  public checkLoad(): string | null {
+    if (this.online) {
+      return 'Leave the online game first';
+    }
+    if (this.aiTurnsRunning) {
+      return 'Wait for your turn';
+    }
+    if (this.replayPlayer) {
+      return 'Exit the replay first';
+    }
+    if (this.editor) {
+      return 'Close the map editor first';
+    }
+    return null;
+  }
+  
+  public toSaveData(): SaveData {
+    return {
+      version: SAVE_VERSION,
+      savedAt: new Date().toISOString(),
+      territories: this.rules.getBoard().getTerritories().map(t => ({ ...t })),
+      factions: this.factions.map(f => ({ ...f })),
+      gameStarted: this.gameState.gameStarted,
+      gameOver: this.gameState.gameOver,
+      winner: this.gameState.winner,
+      currentTurn: this.gameState.currentTurn,
+      turnNumber: this.gameState.turnNumber,
+      rng: {
+        seed: this.random.getSeed(),
+        state: this.random.getState()
+      },
+      reinforcements: this.gameState.reinforcements,
+      regions: this.rules.getBoard().getRegions().map(r => ({ ...r, territories: [...r.territories] })),
+      rules: { ...this.ruleOptions },
+      lastSeen: this.rules.getFog()?.getState() ?? null
+    };
+  }
+  
+  public loadSaveData(data: SaveData): void {
+    const reason = this.checkLoad();
+    if (reason) {
+      throw new Error(reason);
+    }
+    
+    this.random.setSeed(data.rng.seed);
+    this.random.setState(data.rng.state);
+    
+    this.gameState.gameStarted = data.gameStarted;
+    this.gameState.gameOver = data.gameOver;
+    this.gameState.winner = data.winner;
+    // Saves are only made on a human's turn, between moves; validateSave holds to that
+    this.gameState.currentTurn = data.currentTurn;
+    this.gameState.turnNumber = data.turnNumber;
+    this.gameState.reinforcements = data.reinforcements;
+    
+    this.factions = data.factions;
+    this.ruleOptions = { ...data.rules };
+    this.turnVictory = null;
+    if (data.gameStarted) {
+      this.events.emit('gameStarted', { seed: data.rng.seed, factions: data.factions, turnNumber: data.turnNumber });
+    }
+    this.setupBoard(data.territories, data.regions);
+    // A victory decided when the saved turn began is found again the same way
+    if (data.gameOver && !this.gameState.gameOver) {
+      this.turnVictory = this.rules.getTurnStartVictory(data.currentTurn, data.turnNumber);
+      this.updateGameState();
+    }
+    if (data.lastSeen) {
+      this.rules.getFog()?.setState(data.lastSeen);
+      this.syncTerritories();
+    }
+    this.showMessage(`Loaded game from turn ${data.turnNumber} (seed ${data.rng.seed})`);
+    
+    // The replay of a loaded game starts at the point it was saved
+    if (data.gameStarted) {
+      this.recorder.begin(data.territories, data.factions, data.rng.seed);
+      this.record({ kind: 'turn', side: data.currentTurn, turnNumber: data.turnNumber });
+    }
+  }
+  
+  // Replays
+  
+  public getReplay(): ReplayData | null {
+    return this.recorder.getReplay();
+  }
+  
+  public isReplaying(): boolean {
+    return this.replayPlayer !== null;
+  }
+  
+  // Show a recorded match (the current one by default) instead of the live board
+  public startReplay(replay: ReplayData | null = this.recorder.getReplay()): ReplayPlayer | null {
+    if (!replay || replay.frames.length === 0 || (this.gameState.gameStarted && !this.gameState.gameOver && !this.isHumanTurn())) {
+      return null;
+    }
+    
+    this.stopReplay();
+    this.clearSelection();
+    this.buildTerritoryMeshes(replay.territories);
+    
+    this.replayPlayer = new ReplayPlayer(replay);
+    this.replayPlayer.onFrame = (index, frame) => {
+      for (const snapshot of frame.territories) {
+        const territory = this.territories.find(t => t.getId() === snapshot.id);
+        territory?.setOwner(snapshot.owner, this.getFactionColor(snapshot.owner, replay.factions));
+        territory?.setUnits(snapshot.units);
+      }
+      this.onReplayFrame(index, frame);
+    };
+    this.replayPlayer.seek(0);
+    
+    return this.replayPlayer;
+  }
+  
+  // Leave replay mode and show the live board again
+  public stopReplay(): void {
+    if (!this.replayPlayer) return;
+    
+    this.replayPlayer.pause();
+    this.replayPlayer = null;
+    this.buildTerritoryMeshes(this.rules.getBoard().getTerritories());
+    this.syncTerritories();
+  }
 }
@@ -0,0 +1,32 @@
+import { Owner } from './Board';
+import { Faction } from './Faction';
+import { GameState } from './GameState';
+import { AttackResult, TransferResult } from './Rules';
+
+// Everything Game reports to its listeners, by event name. Moves carry their
+// full result, also when fog of war hides them from the player at the device;
+// online games only report the server's messages, not the moves behind them.
+export interface GameEvents {
+  // A line for the message log
+  message: { text: string };
+  // The turn, the faction stats or the reinforcements left changed
+  stateChanged: { state: GameState };
+  // A new game began, or a saved or online one already under way was joined.
+  // The seed is unknown online.
+  gameStarted: { seed: number | null; factions: Faction[]; turnNumber: number };
+  // The turn passed to a faction, once it has its reinforcements
+  turnStarted: { faction: Faction; turnNumber: number; reinforcements: number };
+  // Units placed from the faction's reinforcements
+  reinforcementsApplied: { side: Owner; territory: string; name: string; units: number; remaining: number };
+  // The result holds the attack and defense rolls
+  attackResolved: { side: Owner; result: AttackResult; fromName: string; toName: string };
+  // The player took back their latest attack; a redo resolves it again
+  attackUndone: { side: Owner; result: AttackResult };
+  territoryCaptured: { side: Owner; previousOwner: Owner; territory: string; name: string; units: number };
+  unitsTransferred: { side: Owner; result: TransferResult; fromName: string; toName: string };
+  // The summary of an advisor's plan, or its raw reply when there is none
+  aiStrategyReceived: { side: Owner; strategy: string };
+  gameOver: { winner: Owner | null; reason: string };
+}
+
+export type GameEventType = keyof GameEvents;
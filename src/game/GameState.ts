@@ -1,13 +1,21 @@
+export interface FactionStats {
+  units: number;
+  territories: number;
+  eliminated: boolean;
+}
+
 export class GameState {
   public gameStarted: boolean = false;
   public gameOver: boolean = false;
-  public winner: 'player' | 'ai' | null = null;
-  public currentTurn: 'player' | 'ai' = 'player';
+  // Faction ids
+  public winner: string | null = null;
+  public currentTurn: string = 'player';
+  public turnNumber: number = 1;
+  // Units the faction whose turn it is still has to place
+  public reinforcements: number = 0;
   
-  public playerUnits: number = 0;
-  public aiUnits: number = 0;
-  public playerTerritories: number = 0;
-  public aiTerritories: number = 0;
+  // Per-faction totals, keyed by faction id
+  public factionStats: Record<string, FactionStats> = {};
   
   constructor() {}
 }
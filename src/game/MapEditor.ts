@@ -0,0 +1,164 @@
+import { Owner } from './Board';
+import { NEUTRAL } from './Faction';
+import { MapDefinition, MapTerritory, validateMap } from './MapLoader';
+import { Terrain } from './Terrain';
+
+export type EditorTool = 'select' | 'place' | 'delete' | 'link' | 'river';
+
+// Editable copy of a map definition; the editing operations behind the editor mode
+export class MapEditor {
+  public onChange: () => void = () => {};
+  
+  private map: MapDefinition;
+  
+  constructor(map: MapDefinition) {
+    this.map = {
+      ...map,
+      territories: map.territories.map(t => ({
+        ...t,
+        neighbors: [...t.neighbors],
+        ...(t.rivers ? { rivers: [...t.rivers] } : {})
+      })),
+      regions: map.regions?.map(r => ({ ...r, territories: [...r.territories] }))
+    };
+  }
+  
+  public static createBlank(): MapEditor {
+    return new MapEditor({ id: 'custom', name: 'Custom Map', territories: [] });
+  }
+  
+  public getMap(): MapDefinition {
+    return this.map;
+  }
+  
+  public getTerritory(id: string): MapTerritory {
+    const territory = this.map.territories.find(t => t.id === id);
+    if (!territory) {
+      throw new Error(`Unknown territory: ${id}`);
+    }
+    return territory;
+  }
+  
+  public setMapName(name: string): void {
+    this.map.name = name;
+    this.onChange();
+  }
+  
+  public addTerritory(x: number, z: number): MapTerritory {
+    let n = this.map.territories.length + 1;
+    while (this.map.territories.some(t => t.id === `t${n}`)) {
+      n++;
+    }
+    
+    const territory: MapTerritory = {
+      id: `t${n}`,
+      name: `Territory ${n}`,
+      x: Math.round(x * 100) / 100,
+      z: Math.round(z * 100) / 100,
+      neighbors: []
+    };
+    this.map.territories.push(territory);
+    this.onChange();
+    return territory;
+  }
+  
+  public removeTerritory(id: string): void {
+    this.map.territories = this.map.territories.filter(t => t.id !== id);
+    for (const territory of this.map.territories) {
+      territory.neighbors = territory.neighbors.filter(n => n !== id);
+      this.removeRiver(territory, id);
+    }
+    // Regions left without territories are dropped
+    if (this.map.regions) {
+      this.map.regions = this.map.regions
+        .map(r => ({ ...r, territories: r.territories.filter(t => t !== id) }))
+        .filter(r => r.territories.length > 0);
+    }
+    this.onChange();
+  }
+  
+  public moveTerritory(id: string, x: number, z: number): void {
+    const territory = this.getTerritory(id);
+    territory.x = Math.round(x * 100) / 100;
+    territory.z = Math.round(z * 100) / 100;
+    this.onChange();
+  }
+  
+  public renameTerritory(id: string, name: string): void {
+    this.getTerritory(id).name = name;
+    this.onChange();
+  }
+  
+  // Adds the link between two territories, or removes it if it exists (in both directions)
+  public toggleLink(id1: string, id2: string): void {
+    if (id1 === id2) return;
+    
+    const a = this.getTerritory(id1);
+    const b = this.getTerritory(id2);
+    if (a.neighbors.includes(id2)) {
+      a.neighbors = a.neighbors.filter(n => n !== id2);
+      b.neighbors = b.neighbors.filter(n => n !== id1);
+      this.removeRiver(a, id2);
+      this.removeRiver(b, id1);
+    } else {
+      a.neighbors.push(id2);
+      b.neighbors.push(id1);
+    }
+    this.onChange();
+  }
+  
+  // Adds a river between two linked territories, or removes it if it exists
+  public toggleRiver(id1: string, id2: string): void {
+    const a = this.getTerritory(id1);
+    const b = this.getTerritory(id2);
+    if (!a.neighbors.includes(id2)) return;
+    
+    if (a.rivers?.includes(id2)) {
+      this.removeRiver(a, id2);
+      this.removeRiver(b, id1);
+    } else {
+      a.rivers = [...(a.rivers ?? []), id2];
+      b.rivers = [...(b.rivers ?? []), id1];
+    }
+    this.onChange();
+  }
+  
+  public setTerrain(id: string, terrain: Terrain): void {
+    const territory = this.getTerritory(id);
+    if (terrain === 'plains') {
+      delete territory.terrain;
+    } else {
+      territory.terrain = terrain;
+    }
+    this.onChange();
+  }
+  
+  public setStart(id: string, owner: Owner, units: number): void {
+    const territory = this.getTerritory(id);
+    if (owner === NEUTRAL && units === 0) {
+      delete territory.owner;
+      delete territory.units;
+    } else {
+      territory.owner = owner;
+      territory.units = Math.max(0, Math.floor(units));
+    }
+    this.onChange();
+  }
+  
+  public validate(): string[] {
+    return validateMap(this.map);
+  }
+  
+  public toJSON(): string {
+    return JSON.stringify(this.map, null, 2);
+  }
+  
+  private removeRiver(territory: MapTerritory, id: string): void {
+    if (!territory.rivers) return;
+    
+    territory.rivers = territory.rivers.filter(r => r !== id);
+    if (territory.rivers.length === 0) {
+      delete territory.rivers;
+    }
+  }
+}
@@ -0,0 +1,449 @@
+import { Owner, Region } from './Board';
+import { MapDefinition, MapTerritory, validateMap } from './MapLoader';
+import { Random } from './Random';
+import { FACTION_ROSTER } from './Faction';
+import { Terrain } from './Terrain';
+
+export type MapLayout = 'hex' | 'voronoi';
+
+export interface MapGeneratorOptions {
+  layout: MapLayout;
+  // Number of territories on the map
+  size: number;
+  seed: number;
+  // Number of factions to place starts for, 2 when omitted
+  factions?: number;
+}
+
+export const MIN_MAP_SIZE = 12;
+export const MAX_MAP_SIZE = 60;
+// Used when the requested size is not a number
+export const DEFAULT_MAP_SIZE = 24;
+
+// Territories and units each side starts with
+const STARTING_TERRITORIES = 3;
+const STARTING_UNITS = 3;
+
+// Distance between neighboring territory centers, same as the bundled maps
+const SPACING = 5;
+
+// Territories per region, roughly
+const REGION_SIZE = 5;
+
+// Territories per city, mountain and river, roughly
+const TERRITORIES_PER_CITY = 10;
+const TERRITORIES_PER_MOUNTAIN = 6;
+const TERRITORIES_PER_RIVER = 8;
+
+const NAME_PREFIXES = ['North', 'South', 'East', 'West', 'High', 'Low', 'Old', 'New', 'Red', 'Grey', 'Iron', 'Stone'];
+const NAME_SUFFIXES = ['field', 'moor', 'vale', 'ridge', 'ford', 'wood', 'marsh', 'crest', 'haven', 'hollow', 'gate', 'reach'];
+
+interface Site {
+  x: number;
+  z: number;
+  neighbors: Set<number>;
+}
+
+// A short code that reproduces the same map, e.g. "hex-24-123456", with the
+// faction count appended when it is not 2 ("hex-24-123456-4")
+export function encodeMapCode(options: MapGeneratorOptions): string {
+  const code = `${options.layout}-${options.size}-${options.seed}`;
+  const factions = options.factions ?? 2;
+  return factions === 2 ? code : `${code}-${factions}`;
+}
+
+export function parseMapCode(code: string): MapGeneratorOptions | null {
+  const match = /^(hex|voronoi)-(\d+)-(\d+)(?:-(\d+))?$/.exec(code.trim());
+  if (!match) return null;
+  
+  return {
+    layout: match[1] as MapLayout,
+    size: clampSize(Number(match[2])),
+    seed: Number(match[3]) >>> 0,
+    factions: clampFactions(Number(match[4] ?? 2))
+  };
+}
+
+// The options generateMap actually uses: the size and faction count within
+// their limits. Their map code reproduces the map.
+export function normalizeMapOptions(options: MapGeneratorOptions): Required<MapGeneratorOptions> {
+  return {
+    layout: options.layout,
+    size: clampSize(options.size),
+    seed: options.seed,
+    factions: clampFactions(options.factions ?? 2)
+  };
+}
+
+function clampFactions(factions: number): number {
+  if (!Number.isFinite(factions)) return 2;
+  return Math.max(2, Math.min(FACTION_ROSTER.length, Math.round(factions)));
+}
+
+function clampSize(size: number): number {
+  if (!Number.isFinite(size)) return DEFAULT_MAP_SIZE;
+  return Math.max(MIN_MAP_SIZE, Math.min(MAX_MAP_SIZE, Math.round(size)));
+}
+
+export function generateMap(options: MapGeneratorOptions): MapDefinition {
+  const random = new Random(options.seed);
+  const { size, factions } = normalizeMapOptions(options);
+  
+  const sites = options.layout === 'hex'
+    ? generateHexSites(random, size)
+    : generateVoronoiSites(random, size);
+  const factionIds = FACTION_ROSTER.slice(0, factions).map(f => f.id);
+  const owners = placeStartingTerritories(sites, factionIds);
+  const names = generateNames(random, sites.length);
+  const { terrain, rivers } = generateTerrain(random, sites, owners);
+  
+  const territories: MapTerritory[] = sites.map((site, i) => {
+    const territory: MapTerritory = {
+      id: `t${i}`,
+      name: names[i],
+      x: Math.round(site.x * 100) / 100,
+      z: Math.round(site.z * 100) / 100,
+      neighbors: [...site.neighbors].sort((a, b) => a - b).map(n => `t${n}`)
+    };
+    
+    const owner = owners.get(i);
+    if (owner) {
+      territory.owner = owner;
+      territory.units = STARTING_UNITS;
+    }
+    if (terrain.has(i)) {
+      territory.terrain = terrain.get(i);
+    }
+    const across = rivers.filter(r => r.includes(i)).map(r => (r[0] === i ? r[1] : r[0]));
+    if (across.length > 0) {
+      territory.rivers = across.sort((a, b) => a - b).map(n => `t${n}`);
+    }
+    return territory;
+  });
+  
+  const code = encodeMapCode(normalizeMapOptions(options));
+  const map: MapDefinition = {
+    id: `generated-${code}`,
+    name: `Generated ${options.layout} map (${code})`,
+    description: `Procedurally generated from map code ${code}`,
+    territories,
+    regions: generateRegions(sites)
+  };
+  
+  const errors = validateMap(map);
+  if (errors.length > 0) {
+    throw new Error(`Generated an invalid map: ${errors.join('; ')}`);
+  }
+  return map;
+}
+
+// Irregular hex layout: a full hexagon with random tiles removed, keeping it connected
+function generateHexSites(random: Random, size: number): Site[] {
+  let radius = 1;
+  while (3 * radius * (radius + 1) + 1 < size * 1.3) {
+    radius++;
+  }
+  
+  const cells: { q: number; r: number }[] = [];
+  for (let q = -radius; q <= radius; q++) {
+    for (let r = Math.max(-radius, -q - radius); r <= Math.min(radius, -q + radius); r++) {
+      cells.push({ q, r });
+    }
+  }
+  
+  const directions = [[1, 0], [1, -1], [0, -1], [-1, 0], [-1, 1], [0, 1]];
+  const index = new Map(cells.map((c, i) => [`${c.q},${c.r}`, i]));
+  const sites: Site[] = cells.map(c => ({
+    x: SPACING * (c.q + c.r / 2),
+    z: SPACING * (c.r * Math.sqrt(3) / 2),
+    neighbors: new Set<number>()
+  }));
+  
+  cells.forEach((c, i) => {
+    for (const [dq, dr] of directions) {
+      const neighbor = index.get(`${c.q + dq},${c.r + dr}`);
+      if (neighbor !== undefined) {
+        sites[i].neighbors.add(neighbor);
+      }
+    }
+  });
+  
+  // Remove random tiles while the rest stays connected
+  const alive = new Set(sites.map((_, i) => i));
+  const candidates = shuffle(random, [...alive]);
+  for (const candidate of candidates) {
+    if (alive.size <= size) break;
+    
+    alive.delete(candidate);
+    if (!isConnected(sites, alive)) {
+      alive.add(candidate);
+    }
+  }
+  
+  return compact(sites, alive);
+}
+
+// Voronoi-style layout: scattered sites joined by their Gabriel graph, which
+// is a connected subgraph of the Delaunay triangulation (the Voronoi dual)
+function generateVoronoiSites(random: Random, size: number): Site[] {
+  const radius = SPACING * 0.6 * Math.sqrt(size);
+  const minDistance = SPACING * 0.8;
+  const sites: Site[] = [];
+  
+  let attempts = 0;
+  let spacing = minDistance;
+  while (sites.length < size) {
+    const angle = random.range(0, Math.PI * 2);
+    const distance = radius * Math.sqrt(random.next());
+    const x = Math.cos(angle) * distance;
+    const z = Math.sin(angle) * distance;
+    
+    if (sites.every(s => Math.hypot(s.x - x, s.z - z) >= spacing)) {
+      sites.push({ x, z, neighbors: new Set<number>() });
+    }
+    
+    // Relax the spacing if the disk is too crowded to fit more sites
+    if (++attempts % 500 === 0) {
+      spacing *= 0.9;
+    }
+  }
+  
+  for (let a = 0; a < sites.length; a++) {
+    for (let b = a + 1; b < sites.length; b++) {
+      const midX = (sites[a].x + sites[b].x) / 2;
+      const midZ = (sites[a].z + sites[b].z) / 2;
+      const r = Math.hypot(sites[a].x - sites[b].x, sites[a].z - sites[b].z) / 2;
+      
+      const blocked = sites.some((s, c) =>
+        c !== a && c !== b && Math.hypot(s.x - midX, s.z - midZ) < r);
+      if (!blocked) {
+        sites[a].neighbors.add(b);
+        sites[b].neighbors.add(a);
+      }
+    }
+  }
+  
+  return sites;
+}
+
+// Picks well separated start tiles with similar neighbor counts, one per
+// faction, then lets the factions take turns claiming the closest tiles
+function placeStartingTerritories(sites: Site[], factionIds: string[]): Map<number, Owner> {
+  const distances = sites.map((_, i) => bfsDistances(sites, i));
+  // How far the rest of the board is from a tile; should match between starts
+  const reach = distances.map(row => row.reduce((sum, d) => sum + d, 0) / sites.length);
+  // Starts need room to expand
+  const candidates = sites.map((_, i) => i).filter(i => sites[i].neighbors.size >= 2);
+  
+  let best: { a: number; b: number; score: number } | null = null;
+  for (const a of candidates) {
+    for (const b of candidates) {
+      if (b <= a) continue;
+      
+      const separation = distances[a][b];
+      const degreeGap = Math.abs(sites[a].neighbors.size - sites[b].neighbors.size);
+      const reachGap = Math.abs(reach[a] - reach[b]);
+      
+      const score = separation * 10 - degreeGap * 6 - reachGap * 8;
+      if (!best || score > best.score) {
+        best = { a, b, score };
+      }
+    }
+  }
+  
+  const owners = new Map<number, Owner>();
+  if (!best) return owners;
+  
+  // Further starts go where they are farthest from the ones already chosen
+  const starts = [best.a, best.b];
+  while (starts.length < factionIds.length) {
+    const meanDegree = starts.reduce((sum, s) => sum + sites[s].neighbors.size, 0) / starts.length;
+    const meanReach = starts.reduce((sum, s) => sum + reach[s], 0) / starts.length;
+    
+    let next: { site: number; score: number } | null = null;
+    for (const c of candidates) {
+      if (starts.includes(c)) continue;
+      
+      const separation = Math.min(...starts.map(s => distances[s][c]));
+      const score = separation * 10
+        - Math.abs(sites[c].neighbors.size - meanDegree) * 6
+        - Math.abs(reach[c] - meanReach) * 8;
+      if (!next || score > next.score) {
+        next = { site: c, score };
+      }
+    }
+    if (!next) break;
+    starts.push(next.site);
+  }
+  
+  // Earlier factions move first, so later ones get the starts with more neighbors
+  starts.sort((a, b) => sites[a].neighbors.size - sites[b].neighbors.size || a - b);
+  
+  for (let round = 0; round < STARTING_TERRITORIES; round++) {
+    starts.forEach((start, f) => {
+      const nearest = sites
+        .map((_, i) => i)
+        .filter(i => !owners.has(i) && (round === 0 ? i === start : true))
+        .sort((i, j) => distances[start][i] - distances[start][j] || i - j)[0];
+      if (nearest !== undefined) {
+        owners.set(nearest, factionIds[f]);
+      }
+    });
+  }
+  
+  return owners;
+}
+
+// Connected regions flooded out from seeds spread across the map. The bonus
+// grows with the size of a region and the number of its border territories.
+function generateRegions(sites: Site[]): Region[] {
+  const count = Math.max(2, Math.round(sites.length / REGION_SIZE));
+  
+  const seeds = [bfsDistances(sites, 0).reduce((far, d, i, all) => (d > all[far] ? i : far), 0)];
+  const nearest = bfsDistances(sites, seeds[0]);
+  while (seeds.length < count) {
+    const next = nearest.reduce((far, d, i) => (d > nearest[far] ? i : far), 0);
+    seeds.push(next);
+    bfsDistances(sites, next).forEach((d, i) => {
+      nearest[i] = Math.min(nearest[i], d);
+    });
+  }
+  
+  const regionOf = sites.map(() => -1);
+  seeds.forEach((seed, r) => {
+    regionOf[seed] = r;
+  });
+  const queue = [...seeds];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const neighbor of sites[current].neighbors) {
+      if (regionOf[neighbor] === -1) {
+        regionOf[neighbor] = regionOf[current];
+        queue.push(neighbor);
+      }
+    }
+  }
+  
+  const centerX = sites.reduce((sum, s) => sum + s.x, 0) / sites.length;
+  const centerZ = sites.reduce((sum, s) => sum + s.z, 0) / sites.length;
+  const usedNames = new Map<string, number>();
+  
+  return seeds.map((_, r) => {
+    const members = sites.map((_, i) => i).filter(i => regionOf[i] === r);
+    const borders = members.filter(i => [...sites[i].neighbors].some(n => regionOf[n] !== r)).length;
+    
+    // Named after where it lies on the map
+    const x = members.reduce((sum, i) => sum + sites[i].x, 0) / members.length - centerX;
+    const z = members.reduce((sum, i) => sum + sites[i].z, 0) / members.length - centerZ;
+    let name = 'Central';
+    if (Math.hypot(x, z) > SPACING) {
+      const directions = ['East', 'Southeast', 'South', 'Southwest', 'West', 'Northwest', 'North', 'Northeast'];
+      name = directions[(Math.round(Math.atan2(z, x) / (Math.PI / 4)) + 8) % 8];
+    }
+    const uses = (usedNames.get(name) ?? 0) + 1;
+    usedNames.set(name, uses);
+    
+    return {
+      id: `r${r}`,
+      name: uses > 1 ? `${name} ${uses}` : name,
+      bonus: Math.max(1, Math.round((members.length + borders) / 4)),
+      territories: members.map(i => `t${i}`)
+    };
+  });
+}
+
+// Terrain away from the starts: cities on the most contested ground, about as
+// far from every faction, mountains anywhere else, and rivers across a few links
+function generateTerrain(random: Random, sites: Site[], owners: Map<number, Owner>): { terrain: Map<number, Terrain>; rivers: [number, number][] } {
+  // Distance from each faction's nearest starting territory
+  const reach = [...new Set(owners.values())].map(owner => {
+    const starts = [...owners].filter(([, o]) => o === owner).map(([i]) => bfsDistances(sites, i));
+    return sites.map((_, i) => Math.min(...starts.map(d => d[i])));
+  });
+  // How much closer the nearest faction is than the farthest one
+  const spread = (i: number) => {
+    const distances = reach.map(r => r[i]);
+    return Math.max(...distances) - Math.min(...distances);
+  };
+  const neutral = shuffle(random, sites.map((_, i) => i).filter(i => !owners.has(i)));
+  
+  const terrain = new Map<number, Terrain>();
+  const contested = [...neutral].sort((a, b) => spread(a) - spread(b));
+  for (const i of contested.slice(0, Math.max(1, Math.round(sites.length / TERRITORIES_PER_CITY)))) {
+    terrain.set(i, 'city');
+  }
+  for (const i of neutral.filter(i => !terrain.has(i)).slice(0, Math.round(sites.length / TERRITORIES_PER_MOUNTAIN))) {
+    terrain.set(i, 'mountains');
+  }
+  
+  const links = sites.flatMap((site, i) => [...site.neighbors]
+    .filter(n => n > i && !owners.has(i) && !owners.has(n))
+    .map(n => [i, n] as [number, number]));
+  const rivers = shuffle(random, links).slice(0, Math.round(sites.length / TERRITORIES_PER_RIVER));
+  
+  return { terrain, rivers };
+}
+
+function generateNames(random: Random, count: number): string[] {
+  const names = shuffle(random, NAME_PREFIXES.flatMap(prefix =>
+    NAME_SUFFIXES.map(suffix => `${prefix}${suffix}`)));
+  
+  // Number repeats if the map is larger than the name pool
+  return Array.from({ length: count }, (_, i) =>
+    i < names.length ? names[i] : `${names[i % names.length]} ${Math.floor(i / names.length) + 1}`);
+}
+
+function bfsDistances(sites: Site[], start: number): number[] {
+  const distances = sites.map(() => Infinity);
+  distances[start] = 0;
+  const queue = [start];
+  
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const neighbor of sites[current].neighbors) {
+      if (distances[neighbor] === Infinity) {
+        distances[neighbor] = distances[current] + 1;
+        queue.push(neighbor);
+      }
+    }
+  }
+  return distances;
+}
+
+function isConnected(sites: Site[], alive: Set<number>): boolean {
+  const first = alive.values().next().value;
+  if (first === undefined) return true;
+  
+  const visited = new Set<number>([first]);
+  const queue = [first];
+  while (queue.length > 0) {
+    for (const neighbor of sites[queue.shift()!].neighbors) {
+      if (alive.has(neighbor) && !visited.has(neighbor)) {
+        visited.add(neighbor);
+        queue.push(neighbor);
+      }
+    }
+  }
+  return visited.size === alive.size;
+}
+
+// Drops removed sites and renumbers the neighbor links
+function compact(sites: Site[], alive: Set<number>): Site[] {
+  const kept = [...alive].sort((a, b) => a - b);
+  const renumber = new Map(kept.map((old, i) => [old, i]));
+  
+  return kept.map(old => ({
+    x: sites[old].x,
+    z: sites[old].z,
+    neighbors: new Set([...sites[old].neighbors].filter(n => alive.has(n)).map(n => renumber.get(n)!))
+  }));
+}
+
+function shuffle<T>(random: Random, items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = random.int(0, i);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
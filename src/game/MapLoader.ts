@@ -0,0 +1,267 @@
+import { Owner, Region, TerritoryData } from './Board';
+import { NEUTRAL } from './Faction';
+import { isTerrain, Terrain } from './Terrain';
+
+export interface MapTerritory {
+  id: string;
+  name: string;
+  x: number;
+  z: number;
+  neighbors: string[];
+  // Starting owner (a faction id) and units, neutral with 0 units when omitted
+  owner?: Owner;
+  units?: number;
+  // Plains when omitted
+  terrain?: Terrain;
+  // Neighbors across a river; the neighbor must list this territory too
+  rivers?: string[];
+}
+
+export interface MapDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  territories: MapTerritory[];
+  // Regions giving a reinforcement bonus, none when omitted
+  regions?: Region[];
+}
+
+// Units on a start territory handed out to a faction the map has no start for
+const STARTING_UNITS = 3;
+const STARTING_TERRITORIES = 3;
+
+// Returns every problem found in a map definition, empty when the map is valid
+export function validateMap(map: MapDefinition): string[] {
+  const errors: string[] = [];
+  
+  if (!map.territories || map.territories.length === 0) {
+    return ['Map has no territories'];
+  }
+  
+  const byId = new Map<string, MapTerritory>();
+  for (const territory of map.territories) {
+    if (byId.has(territory.id)) {
+      errors.push(`Duplicate territory id "${territory.id}"`);
+    }
+    byId.set(territory.id, territory);
+  }
+  
+  for (const territory of map.territories) {
+    if (territory.owner !== undefined && (typeof territory.owner !== 'string' || !/^[a-z0-9_-]+$/.test(territory.owner))) {
+      errors.push(`${territory.id}: invalid owner "${territory.owner}"`);
+    }
+    if (territory.units !== undefined && (!Number.isInteger(territory.units) || territory.units < 0)) {
+      errors.push(`${territory.id}: units must be a non-negative integer`);
+    }
+    if (territory.terrain !== undefined && !isTerrain(territory.terrain)) {
+      errors.push(`${territory.id}: unknown terrain "${territory.terrain}"`);
+    }
+    
+    for (const riverId of territory.rivers ?? []) {
+      if (!territory.neighbors.includes(riverId)) {
+        errors.push(`${territory.id}: river to "${riverId}", which is not a neighbor`);
+      } else if (!byId.get(riverId)?.rivers?.includes(territory.id)) {
+        errors.push(`${territory.id} -> ${riverId}: river is not symmetric`);
+      }
+    }
+    
+    for (const neighborId of territory.neighbors) {
+      const neighbor = byId.get(neighborId);
+      if (neighborId === territory.id) {
+        errors.push(`${territory.id}: lists itself as a neighbor`);
+      } else if (!neighbor) {
+        errors.push(`${territory.id}: unknown neighbor "${neighborId}"`);
+      } else if (!neighbor.neighbors.includes(territory.id)) {
+        errors.push(`${territory.id} -> ${neighborId}: edge is not symmetric`);
+      }
+    }
+  }
+  
+  // Every territory must be reachable from the first one
+  const visited = new Set<string>([map.territories[0].id]);
+  const queue = [map.territories[0].id];
+  while (queue.length > 0) {
+    const current = byId.get(queue.shift()!);
+    for (const neighborId of current?.neighbors ?? []) {
+      if (byId.has(neighborId) && !visited.has(neighborId)) {
+        visited.add(neighborId);
+        queue.push(neighborId);
+      }
+    }
+  }
+  if (visited.size < byId.size) {
+    const unreachable = [...byId.keys()].filter(id => !visited.has(id));
+    errors.push(`Map is not connected, unreachable: ${unreachable.join(', ')}`);
+  }
+  
+  const regionIds = new Set<string>();
+  const regionOf = new Map<string, string>();
+  for (const region of map.regions ?? []) {
+    if (regionIds.has(region.id)) {
+      errors.push(`Duplicate region id "${region.id}"`);
+    }
+    regionIds.add(region.id);
+    
+    if (!Number.isInteger(region.bonus) || region.bonus < 1) {
+      errors.push(`Region ${region.id}: bonus must be a positive integer`);
+    }
+    if (region.territories.length === 0) {
+      errors.push(`Region ${region.id} has no territories`);
+    }
+    for (const id of region.territories) {
+      if (!byId.has(id)) {
+        errors.push(`Region ${region.id}: unknown territory "${id}"`);
+      } else if (regionOf.has(id)) {
+        errors.push(`${id} is in both region ${regionOf.get(id)} and ${region.id}`);
+      }
+      regionOf.set(id, region.id);
+    }
+  }
+  
+  const factions = new Set(map.territories.map(t => t.owner ?? NEUTRAL));
+  factions.delete(NEUTRAL);
+  if (factions.size < 2) {
+    errors.push('Map needs starting territories for at least two factions');
+  }
+  
+  return errors;
+}
+
+// Checks the shape of untrusted JSON and validates it as a map
+export function loadMap(raw: unknown): MapDefinition {
+  const map = readMap(raw);
+  const errors = validateMap(map);
+  if (errors.length > 0) {
+    throw new Error(`Invalid map "${map.name}": ${errors.join('; ')}`);
+  }
+  
+  return map;
+}
+
+export function parseMap(json: string): MapDefinition {
+  return loadMap(parseMapJson(json));
+}
+
+// A map that may still break the rules, for the editor to open and fix:
+// only its shape is checked, validateMap lists the rest
+export function parseMapDraft(json: string): MapDefinition {
+  return readMap(parseMapJson(json));
+}
+
+function parseMapJson(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new Error('Map file is not valid JSON');
+  }
+}
+
+// Checks that untrusted JSON has the fields of a map, so validateMap and the editor can read it
+function readMap(raw: unknown): MapDefinition {
+  const map = raw as MapDefinition;
+  if (!map || typeof map !== 'object' || typeof map.id !== 'string' ||
+      typeof map.name !== 'string' || !Array.isArray(map.territories)) {
+    throw new Error('Not a valid map file');
+  }
+  
+  for (const t of map.territories) {
+    if (!t || typeof t.id !== 'string' || typeof t.name !== 'string' ||
+        typeof t.x !== 'number' || typeof t.z !== 'number' || !Array.isArray(t.neighbors) ||
+        (t.rivers !== undefined && !Array.isArray(t.rivers))) {
+      throw new Error('Map contains an invalid territory');
+    }
+  }
+  
+  if (map.regions !== undefined && (!Array.isArray(map.regions) || map.regions.some(r =>
+      !r || typeof r.id !== 'string' || typeof r.name !== 'string' ||
+      typeof r.bonus !== 'number' || !Array.isArray(r.territories)))) {
+    throw new Error('Map contains an invalid region');
+  }
+  
+  return map;
+}
+
+// Starting board state for a map. When faction ids are given, starts of
+// factions not in the game turn neutral, factions without a start on the
+// map get one as far away from everyone else as possible, and each faction's
+// capital is marked. Starting units, when given, replace the map's own.
+export function createTerritories(map: MapDefinition, factionIds?: string[], startingUnits?: number): TerritoryData[] {
+  const territories: TerritoryData[] = map.territories.map(t => ({
+    id: t.id,
+    name: t.name,
+    owner: t.owner ?? NEUTRAL,
+    units: t.units ?? 0,
+    x: t.x,
+    z: t.z,
+    neighbors: [...t.neighbors],
+    ...(t.terrain && t.terrain !== 'plains' ? { terrain: t.terrain } : {}),
+    ...(t.rivers?.length ? { rivers: [...t.rivers] } : {})
+  }));
+  
+  if (!factionIds) {
+    return territories;
+  }
+  
+  for (const territory of territories) {
+    if (territory.owner !== NEUTRAL && !factionIds.includes(territory.owner)) {
+      territory.owner = NEUTRAL;
+    }
+  }
+  
+  for (const factionId of factionIds) {
+    if (!territories.some(t => t.owner === factionId)) {
+      assignStart(territories, factionId);
+    }
+    
+    const owned = territories.filter(t => t.owner === factionId);
+    if (startingUnits !== undefined) {
+      for (const territory of owned) {
+        territory.units = startingUnits;
+      }
+    }
+    
+    // The capital is the start with the most of the faction's own territories around it
+    const ownNeighbors = (t: TerritoryData) => t.neighbors.filter(id => owned.some(o => o.id === id)).length;
+    const capital = owned.reduce<TerritoryData | null>((best, t) =>
+      !best || ownNeighbors(t) > ownNeighbors(best) ? t : best, null);
+    if (capital) {
+      capital.capital = factionId;
+    }
+  }
+  
+  return territories;
+}
+
+// Gives a faction the neutral territory farthest from all claimed ones, plus its nearest neutral neighbors
+function assignStart(territories: TerritoryData[], factionId: string): void {
+  const byId = new Map(territories.map(t => [t.id, t]));
+  
+  // Multi-source BFS from every claimed territory
+  const distance = new Map<string, number>();
+  const queue = territories.filter(t => t.owner !== NEUTRAL).map(t => t.id);
+  for (const id of queue) {
+    distance.set(id, 0);
+  }
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const neighborId of byId.get(current)!.neighbors) {
+      if (!distance.has(neighborId)) {
+        distance.set(neighborId, distance.get(current)! + 1);
+        queue.push(neighborId);
+      }
+    }
+  }
+  
+  const neutral = territories.filter(t => t.owner === NEUTRAL);
+  if (neutral.length === 0) return;
+  
+  const start = neutral.reduce((best, t) =>
+    (distance.get(t.id) ?? Infinity) > (distance.get(best.id) ?? Infinity) ? t : best);
+  const claimed = [start, ...start.neighbors.map(id => byId.get(id)!).filter(t => t.owner === NEUTRAL)]
+    .slice(0, STARTING_TERRITORIES);
+  
+  for (const territory of claimed) {
+    territory.owner = factionId;
+    territory.units = STARTING_UNITS;
+  }
+}
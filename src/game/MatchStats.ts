@@ -0,0 +1,194 @@
+import { Owner } from './Board';
+import { EventBus } from './EventBus';
+import { GameEvents } from './GameEvents';
+import { GameState } from './GameState';
+import { AttackResult } from './Rules';
+
+// One faction at the end of a turn. Attacks and losses add up over the game.
+export interface FactionSample {
+  units: number;
+  territories: number;
+  attacksWon: number;
+  attacksLost: number;
+  // Units lost attacking and defending
+  unitsLost: number;
+}
+
+export interface TurnSample {
+  round: number;
+  // The faction whose turn it was
+  side: Owner;
+  factions: Record<Owner, FactionSample>;
+}
+
+export interface Battle {
+  round: number;
+  side: Owner;
+  defender: Owner;
+  fromName: string;
+  toName: string;
+  // Units committed by the attacker
+  units: number;
+  // Units lost on both sides
+  losses: number;
+  captured: boolean;
+}
+
+export interface TurningPoint {
+  round: number;
+  // The faction that took the lead for good
+  leader: Owner;
+}
+
+interface Totals {
+  attacksWon: number;
+  attacksLost: number;
+  unitsLost: number;
+}
+
+// Per-turn history of a game, built from its events: units and territories
+// for the charts, attack counts and losses, and the biggest battle.
+// Undone attacks are taken back, as in replays.
+export class MatchStats {
+  private samples: TurnSample[] = [];
+  private totals: Record<Owner, Totals> = {};
+  // Every attack in order, so an undo can drop the latest
+  private battles: Battle[] = [];
+  private winner: Owner | null = null;
+  private round = 1;
+  
+  // Follow a game; returns a function that stops listening
+  public attach(events: EventBus<GameEvents>): () => void {
+    const listeners = [
+      events.on('gameStarted', ({ turnNumber }) => this.reset(turnNumber)),
+      events.on('stateChanged', ({ state }) => this.sample(state)),
+      events.on('attackResolved', ({ side, result, fromName, toName }) => this.recordAttack(side, result, fromName, toName)),
+      events.on('attackUndone', ({ side, result }) => this.undoAttack(side, result)),
+      events.on('gameOver', ({ winner }) => {
+        this.winner = winner;
+      })
+    ];
+    return () => listeners.forEach(off => off());
+  }
+  
+  public reset(round: number = 1): void {
+    this.samples = [];
+    this.totals = {};
+    this.battles = [];
+    this.winner = null;
+    this.round = round;
+  }
+  
+  public recordAttack(side: Owner, result: AttackResult, fromName: string, toName: string): void {
+    this.addTotals(side, result, 1);
+    this.battles.push({
+      round: this.round,
+      side,
+      defender: result.defender,
+      fromName,
+      toName,
+      units: result.units,
+      losses: result.attackerLosses + result.defenderLosses,
+      captured: result.captured
+    });
+  }
+  
+  // Undo only reaches the current turn's moves, latest first, so the undone
+  // attack is always the last one recorded
+  public undoAttack(side: Owner, result: AttackResult): void {
+    this.addTotals(side, result, -1);
+    this.battles.pop();
+  }
+  
+  // Take the latest totals as the current turn's, replacing earlier ones from the same turn
+  public sample(state: GameState): void {
+    if (!state.gameStarted) return;
+    
+    this.round = state.turnNumber;
+    const factions: Record<Owner, FactionSample> = {};
+    for (const [id, stats] of Object.entries(state.factionStats)) {
+      factions[id] = { units: stats.units, territories: stats.territories, ...this.getTotals(id) };
+    }
+    
+    const last = this.samples[this.samples.length - 1];
+    if (last?.round === state.turnNumber && last.side === state.currentTurn) {
+      last.factions = factions;
+    } else {
+      this.samples.push({ round: state.turnNumber, side: state.currentTurn, factions });
+    }
+  }
+  
+  public getSamples(): TurnSample[] {
+    return this.samples;
+  }
+  
+  // The number of rounds played so far
+  public getRounds(): number {
+    return this.samples[this.samples.length - 1]?.round ?? 0;
+  }
+  
+  // One value per turn for a faction, e.g. its units
+  public getSeries(faction: Owner, key: keyof FactionSample): number[] {
+    return this.samples.map(sample => sample.factions[faction]?.[key] ?? 0);
+  }
+  
+  // The attack that cost the most units on both sides, the earliest of equals
+  public getBiggestBattle(): Battle | null {
+    let biggest: Battle | null = null;
+    for (const battle of this.battles) {
+      if (!biggest || battle.losses > biggest.losses) {
+        biggest = battle;
+      }
+    }
+    return biggest;
+  }
+  
+  // The round the winner (or else the faction holding the most territories at
+  // the end) took the territory lead for good; null if it led from the start
+  public getTurningPoint(): TurningPoint | null {
+    const last = this.samples[this.samples.length - 1];
+    const leader = this.winner ?? (last ? getLeader(last) : null);
+    if (!leader) return null;
+    
+    let since: number | null = null;
+    for (let i = 0; i < this.samples.length; i++) {
+      if (getLeader(this.samples[i]) !== leader) {
+        since = null;
+      } else if (since === null) {
+        since = i;
+      }
+    }
+    return since === null || since === 0 ? null : { round: this.samples[since].round, leader };
+  }
+  
+  // Count an attack in (sign 1) or take it back out (sign -1)
+  private addTotals(side: Owner, result: AttackResult, sign: number): void {
+    const attacker = this.getTotals(side);
+    attacker.attacksWon += result.captured ? sign : 0;
+    attacker.attacksLost += result.captured ? 0 : sign;
+    attacker.unitsLost += result.attackerLosses * sign;
+    this.getTotals(result.defender).unitsLost += result.defenderLosses * sign;
+  }
+  
+  private getTotals(owner: Owner): Totals {
+    if (!this.totals[owner]) {
+      this.totals[owner] = { attacksWon: 0, attacksLost: 0, unitsLost: 0 };
+    }
+    return this.totals[owner];
+  }
+}
+
+// The faction with the most territories, null when several share the most
+function getLeader(sample: TurnSample): Owner | null {
+  let leader: Owner | null = null;
+  let most = -1;
+  for (const [id, stats] of Object.entries(sample.factions)) {
+    if (stats.territories > most) {
+      leader = id;
+      most = stats.territories;
+    } else if (stats.territories === most) {
+      leader = null;
+    }
+  }
+  return leader;
+}
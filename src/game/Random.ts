@@ -0,0 +1,70 @@
+// Seedable pseudo-random number generator (mulberry32).
+// Every random roll in a game session goes through one instance so that the
+// same seed and the same actions always produce the same result.
+export class Random {
+  private seed: number;
+  private state: number;
+  
+  constructor(seed: number = Random.generateSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+  
+  // Picks a fresh seed for sessions that did not ask for a specific one
+  public static generateSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+  
+  // Turns user input into a seed: numbers are used as-is, any other text is hashed
+  public static parseSeed(text: string): number {
+    const trimmed = text.trim();
+    if (/^\d+$/.test(trimmed)) {
+      return Number(trimmed) >>> 0;
+    }
+    
+    // FNV-1a hash
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < trimmed.length; i++) {
+      hash ^= trimmed.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+  
+  public getSeed(): number {
+    return this.seed;
+  }
+  
+  public setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+  
+  // The internal state, so a session can be saved and resumed mid-sequence
+  public getState(): number {
+    return this.state;
+  }
+  
+  public setState(state: number): void {
+    this.state = state >>> 0;
+  }
+  
+  // Float in [0, 1)
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+  
+  // Float in [min, max)
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+  
+  // Integer in [min, max]
+  public int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+}
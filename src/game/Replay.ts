@@ -0,0 +1,257 @@
+import { Owner, TerritoryData } from './Board';
+import { AttackResult, TransferResult } from './Rules';
+import { DEFAULT_FACTIONS, Faction, isFactionList, NEUTRAL } from './Faction';
+
+export const REPLAY_VERSION = 2;
+
+export type TerritorySnapshot = Pick<TerritoryData, 'id' | 'owner' | 'units'>;
+
+export type ReplayEvent =
+  | { kind: 'start'; seed: number }
+  | { kind: 'turn'; side: Owner; turnNumber: number }
+  | { kind: 'strategy'; side: Owner; text: string }
+  | {
+      kind: 'move';
+      side: Owner;
+      type: 'attack' | 'transfer';
+      from: string;
+      to: string;
+      result: AttackResult | TransferResult;
+      // Set for AI moves: the score the AI gave this action
+      confidence?: number;
+    }
+  // Reinforcements handed out at the start of a turn, then placed one territory at a time
+  | { kind: 'reinforce'; side: Owner; units: number }
+  | { kind: 'place'; side: Owner; territory: string; units: number }
+  | { kind: 'gameOver'; winner: Owner | null };
+
+// One step of a replay: what happened, the log lines it produced and the board afterwards
+export interface ReplayFrame {
+  turnNumber: number;
+  event: ReplayEvent;
+  messages: string[];
+  territories: TerritorySnapshot[];
+}
+
+export interface ReplayData {
+  version: number;
+  seed: number;
+  recordedAt: string;
+  factions: Faction[];
+  // Full territory layout at the start of the recording
+  territories: TerritoryData[];
+  frames: ReplayFrame[];
+}
+
+// Records the action stream of a match as it is played
+export class MatchRecorder {
+  private data: ReplayData | null = null;
+  private pendingMessages: string[] = [];
+  
+  public begin(territories: TerritoryData[], factions: Faction[], seed: number): void {
+    this.data = {
+      version: REPLAY_VERSION,
+      seed,
+      recordedAt: new Date().toISOString(),
+      factions: factions.map(f => ({ ...f })),
+      territories: territories.map(t => ({ ...t })),
+      frames: []
+    };
+    this.pendingMessages = [];
+  }
+  
+  public isRecording(): boolean {
+    return this.data !== null;
+  }
+  
+  // Messages are attached to the next recorded frame
+  public addMessage(message: string): void {
+    if (this.data) {
+      this.pendingMessages.push(message);
+    }
+  }
+  
+  public record(event: ReplayEvent, turnNumber: number, territories: TerritoryData[]): void {
+    if (!this.data) return;
+    
+    this.data.frames.push({
+      turnNumber,
+      event,
+      messages: this.pendingMessages,
+      territories: territories.map(t => ({ id: t.id, owner: t.owner, units: t.units }))
+    });
+    this.pendingMessages = [];
+  }
+  
+  public getFrameCount(): number {
+    return this.data?.frames.length ?? 0;
+  }
+  
+  // Drops the frames from index on, used when a move is undone: its own
+  // frame and whatever was recorded after it
+  public discardFrom(index: number): void {
+    this.data?.frames.splice(index);
+    this.pendingMessages = [];
+  }
+  
+  public getReplay(): ReplayData | null {
+    return this.data;
+  }
+}
+
+export function parseReplay(json: string): ReplayData {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+  
+  let data = raw as ReplayData;
+  if (!data || typeof data !== 'object' || typeof data.version !== 'number' || data.version > REPLAY_VERSION) {
+    throw new Error('Unsupported replay file');
+  }
+  // Version 1 replays were always player against AI
+  if (data.version === 1) {
+    data = { ...data, version: REPLAY_VERSION, factions: DEFAULT_FACTIONS };
+  }
+  if (!isFactionList(data.factions)) {
+    throw new Error('Replay file has invalid factions');
+  }
+  if (!Array.isArray(data.territories) || !Array.isArray(data.frames) || data.frames.length === 0) {
+    throw new Error('Replay file has no recorded frames');
+  }
+  
+  // Checked up front, as playback swaps the board before showing any frame
+  const sides = data.factions.map(f => f.id);
+  const owners = [NEUTRAL, ...sides];
+  const ids = data.territories.map(t => t?.id);
+  for (const t of data.territories) {
+    if (!isSnapshot(t, ids, owners) || typeof t.name !== 'string' ||
+        typeof t.x !== 'number' || typeof t.z !== 'number' ||
+        !Array.isArray(t.neighbors) || (t.rivers !== undefined && !Array.isArray(t.rivers))) {
+      throw new Error('Replay file has an invalid territory');
+    }
+  }
+  data.frames.forEach((frame, i) => {
+    if (!frame || !Number.isInteger(frame.turnNumber) || frame.turnNumber < 1 ||
+        !Array.isArray(frame.messages) || frame.messages.some(m => typeof m !== 'string') ||
+        !Array.isArray(frame.territories) || frame.territories.some(t => !isSnapshot(t, ids, owners)) ||
+        !isEvent(frame.event, ids, sides)) {
+      throw new Error(`Replay frame ${i + 1} is invalid`);
+    }
+  });
+  
+  return data;
+}
+
+// A territory id from the map, a known owner and a unit count
+function isSnapshot(raw: unknown, ids: string[], owners: Owner[]): boolean {
+  const t = raw as TerritorySnapshot;
+  return !!t && typeof t.id === 'string' && ids.includes(t.id) &&
+    owners.includes(t.owner) && Number.isInteger(t.units) && t.units >= 0;
+}
+
+function isEvent(raw: unknown, ids: string[], sides: Owner[]): boolean {
+  const event = raw as ReplayEvent;
+  if (!event || typeof event !== 'object') return false;
+  const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+  
+  switch (event.kind) {
+    case 'start':
+      return typeof event.seed === 'number';
+    case 'turn':
+      return sides.includes(event.side) && Number.isInteger(event.turnNumber);
+    case 'strategy':
+      return sides.includes(event.side) && typeof event.text === 'string';
+    case 'move':
+      return sides.includes(event.side) && (event.type === 'attack' || event.type === 'transfer') &&
+        ids.includes(event.from) && ids.includes(event.to) &&
+        !!event.result && typeof event.result === 'object' && isCount(event.result.units);
+    case 'reinforce':
+      return sides.includes(event.side) && isCount(event.units);
+    case 'place':
+      return sides.includes(event.side) && ids.includes(event.territory) && isCount(event.units);
+    case 'gameOver':
+      return event.winner === null || sides.includes(event.winner);
+    default:
+      return false;
+  }
+}
+
+// Steps through the frames of a replay with play/pause, seeking and speed control
+export class ReplayPlayer {
+  public onFrame: (index: number, frame: ReplayFrame) => void = () => {};
+  public onPlayingChange: (playing: boolean) => void = () => {};
+  
+  private index = 0;
+  private speed = 1;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  
+  // Time between frames at 1x speed
+  private static readonly FRAME_INTERVAL = 800;
+  
+  constructor(private replay: ReplayData) {}
+  
+  public getReplay(): ReplayData {
+    return this.replay;
+  }
+  
+  public getIndex(): number {
+    return this.index;
+  }
+  
+  public getFrameCount(): number {
+    return this.replay.frames.length;
+  }
+  
+  public isPlaying(): boolean {
+    return this.timer !== null;
+  }
+  
+  public setSpeed(speed: number): void {
+    this.speed = Math.max(0.25, speed);
+  }
+  
+  public seek(index: number): void {
+    this.index = Math.max(0, Math.min(this.replay.frames.length - 1, index));
+    this.onFrame(this.index, this.replay.frames[this.index]);
+  }
+  
+  public step(delta: number): void {
+    this.seek(this.index + delta);
+  }
+  
+  public play(): void {
+    if (this.isPlaying()) return;
+    
+    // Restart from the beginning when playing at the end
+    if (this.index >= this.replay.frames.length - 1) {
+      this.seek(0);
+    }
+    
+    this.scheduleNext();
+    this.onPlayingChange(true);
+  }
+  
+  public pause(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+      this.onPlayingChange(false);
+    }
+  }
+  
+  private scheduleNext(): void {
+    this.timer = setTimeout(() => {
+      this.step(1);
+      
+      if (this.index >= this.replay.frames.length - 1) {
+        this.timer = null;
+        this.onPlayingChange(false);
+      } else {
+        this.scheduleNext();
+      }
+    }, ReplayPlayer.FRAME_INTERVAL / this.speed);
+  }
+}
@@ -0,0 +1,153 @@
+import { Board, TerritoryData } from './Board';
+
+// How a game is won. Total elimination always wins as well.
+export type VictoryCondition =
+  | { type: 'elimination' }
+  // Hold this share of all territories (0-100)
+  | { type: 'domination'; percent: number }
+  // After this many rounds the faction with the most territories (then units) wins
+  | { type: 'turnLimit'; rounds: number }
+  // Hold every faction's starting capital
+  | { type: 'capital' }
+  // Still hold the territory nearest the map center when your turn comes around
+  | { type: 'kingOfTheHill' };
+
+export type VictoryType = VictoryCondition['type'];
+
+// The numbers behind the rules; everything Rules, the AI and the setup screen tune
+export interface RuleSet {
+  id: string;
+  name: string;
+  // Units on every faction's starting territories
+  startingUnits: number;
+  // Attack and defense rolls are units * range(1 - variance, 1 + variance)
+  combatVariance: number;
+  // Shares of the committed attackers and of the defenders lost when an attack fails
+  attackerLossOnFailure: number;
+  defenderLossOnFailure: number;
+  // Reinforcements: one per this many territories held, but at least minReinforcements
+  territoriesPerReinforcement: number;
+  minReinforcements: number;
+  // Attacks and transfers an AI faction makes per turn
+  aiActionsPerTurn: number;
+  victory: VictoryCondition;
+}
+
+export const CLASSIC_RULE_SET: RuleSet = {
+  id: 'classic',
+  name: 'Classic',
+  startingUnits: 3,
+  combatVariance: 0.2,
+  attackerLossOnFailure: 0.5,
+  defenderLossOnFailure: 0.3,
+  territoriesPerReinforcement: 3,
+  minReinforcements: 3,
+  aiActionsPerTurn: 3,
+  victory: { type: 'elimination' }
+};
+
+export const RULE_SETS: RuleSet[] = [
+  CLASSIC_RULE_SET,
+  {
+    ...CLASSIC_RULE_SET,
+    id: 'blitz',
+    name: 'Blitz',
+    startingUnits: 5,
+    minReinforcements: 4,
+    aiActionsPerTurn: 4,
+    victory: { type: 'domination', percent: 60 }
+  },
+  {
+    ...CLASSIC_RULE_SET,
+    id: 'timed',
+    name: 'Timed (15 rounds)',
+    victory: { type: 'turnLimit', rounds: 15 }
+  },
+  {
+    ...CLASSIC_RULE_SET,
+    id: 'regicide',
+    name: 'Regicide',
+    victory: { type: 'capital' }
+  },
+  {
+    ...CLASSIC_RULE_SET,
+    id: 'king-of-the-hill',
+    name: 'King of the Hill',
+    victory: { type: 'kingOfTheHill' }
+  },
+  {
+    ...CLASSIC_RULE_SET,
+    id: 'wild-dice',
+    name: 'Wild Dice',
+    combatVariance: 0.5,
+    attackerLossOnFailure: 0.3,
+    defenderLossOnFailure: 0.3
+  }
+];
+
+export const DEFAULT_VICTORY: Record<VictoryType, VictoryCondition> = {
+  elimination: { type: 'elimination' },
+  domination: { type: 'domination', percent: 60 },
+  turnLimit: { type: 'turnLimit', rounds: 15 },
+  capital: { type: 'capital' },
+  kingOfTheHill: { type: 'kingOfTheHill' }
+};
+
+export function findRuleSet(id: string): RuleSet | undefined {
+  return RULE_SETS.find(r => r.id === id);
+}
+
+// One line for the HUD, e.g. "Hold 60% of the territories"
+export function describeVictory(victory: VictoryCondition): string {
+  switch (victory.type) {
+    case 'elimination':
+      return 'Eliminate every other faction';
+    case 'domination':
+      return `Hold ${victory.percent}% of the territories`;
+    case 'turnLimit':
+      return `Hold the most territories after ${victory.rounds} rounds`;
+    case 'capital':
+      return 'Capture every capital (★)';
+    case 'kingOfTheHill':
+      return 'Hold the hill (♛) until your next turn';
+  }
+}
+
+// Territories the victory condition is about: the hill or the capitals
+export function getObjectives(board: Board, ruleSet: RuleSet): TerritoryData[] {
+  switch (ruleSet.victory.type) {
+    case 'kingOfTheHill': {
+      const hill = board.getCenter();
+      return hill ? [hill] : [];
+    }
+    case 'capital':
+      return board.getTerritories().filter(t => t.capital);
+    default:
+      return [];
+  }
+}
+
+// Problems with a rule set, e.g. one built on the setup screen; empty when it is usable
+export function validateRuleSet(ruleSet: RuleSet): string[] {
+  const errors: string[] = [];
+  const positive = (value: number) => Number.isInteger(value) && value >= 1;
+  
+  if (!positive(ruleSet.startingUnits)) errors.push('Starting units must be a positive whole number');
+  if (!(ruleSet.combatVariance >= 0 && ruleSet.combatVariance < 1)) errors.push('Combat variance must be between 0 and 1');
+  if (!(ruleSet.attackerLossOnFailure >= 0 && ruleSet.attackerLossOnFailure <= 1)) errors.push('Attacker losses must be between 0 and 1');
+  if (!(ruleSet.defenderLossOnFailure >= 0 && ruleSet.defenderLossOnFailure <= 1)) errors.push('Defender losses must be between 0 and 1');
+  if (!positive(ruleSet.territoriesPerReinforcement)) errors.push('Territories per reinforcement must be a positive whole number');
+  if (!Number.isInteger(ruleSet.minReinforcements) || ruleSet.minReinforcements < 0) errors.push('Minimum reinforcements must be a whole number');
+  if (!positive(ruleSet.aiActionsPerTurn)) errors.push('AI actions per turn must be a positive whole number');
+  
+  const victory = ruleSet.victory;
+  // An own key, so that inherited names such as "toString" are no victory type
+  if (!victory || !Object.prototype.hasOwnProperty.call(DEFAULT_VICTORY, victory.type)) {
+    errors.push('Unknown victory condition');
+  } else if (victory.type === 'domination' && !(victory.percent > 0 && victory.percent <= 100)) {
+    errors.push('Domination needs a share between 1 and 100%');
+  } else if (victory.type === 'turnLimit' && !positive(victory.rounds)) {
+    errors.push('The turn limit must be a positive whole number of rounds');
+  }
+  return errors;
+}
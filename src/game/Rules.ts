@@ -0,0 +1,357 @@
+import { Board, Owner, Region, TerritoryData } from './Board';
+import { Random } from './Random';
+import { NEUTRAL } from './Faction';
+import { FogOfWar } from './FogOfWar';
+import { CLASSIC_RULE_SET, getObjectives, RuleSet } from './RuleSet';
+import { getCombatModifiers, getTerrain, TERRAIN } from './Terrain';
+import { CaptureOdds, getAttackOdds } from './Combat';
+
+export interface AttackResult {
+  from: string;
+  to: string;
+  // Owner of the target before the attack
+  defender: Owner;
+  // Units committed to the attack
+  units: number;
+  attackStrength: number;
+  defenseStrength: number;
+  captured: boolean;
+  attackerLosses: number;
+  defenderLosses: number;
+  // Units that moved into the captured territory (0 when the attack failed)
+  survivors: number;
+}
+
+export interface RulesOptions {
+  // Whether attacks can be taken back with undo before the turn ends
+  undoableAttacks: boolean;
+  // Factions only see the units on and next to their own territories
+  fogOfWar: boolean;
+  ruleSet: RuleSet;
+}
+
+export const DEFAULT_RULES_OPTIONS: RulesOptions = {
+  undoableAttacks: false,
+  fogOfWar: false,
+  ruleSet: CLASSIC_RULE_SET
+};
+
+// How a game ended; a null winner is a draw
+export interface VictoryResult {
+  winner: Owner | null;
+  reason: string;
+}
+
+export interface TransferResult {
+  from: string;
+  to: string;
+  units: number;
+}
+
+export interface PlaceResult {
+  territory: string;
+  units: number;
+}
+
+// Units a faction gets at the start of its turn
+export interface ReinforcementPool {
+  // From the number of territories held
+  base: number;
+  // Regions held completely, each adding its bonus
+  regions: Region[];
+  // From the cities held
+  cities: number;
+  total: number;
+}
+
+// Headless game rules: no DOM or three.js, operates purely on a Board.
+export class Rules {
+  public onChange: () => void = () => {};
+  
+  private fog: FogOfWar | null = null;
+  
+  constructor(
+    private board: Board,
+    private random: Random,
+    private options: RulesOptions = DEFAULT_RULES_OPTIONS
+  ) {
+    this.setOptions(options);
+  }
+  
+  public getOptions(): RulesOptions {
+    return this.options;
+  }
+  
+  // Turning fog of war on starts every faction's memory from the current board
+  public setOptions(options: RulesOptions): void {
+    this.options = options;
+    if (!options.fogOfWar) {
+      this.fog = null;
+    } else if (!this.fog) {
+      this.fog = new FogOfWar(this.board);
+    }
+  }
+  
+  public getBoard(): Board {
+    return this.board;
+  }
+  
+  public getFog(): FogOfWar | null {
+    return this.fog;
+  }
+  
+  // The board as a faction knows it; the real board when there is no fog of war
+  public getView(owner: Owner): Board {
+    return this.fog ? this.fog.getView(owner) : this.board;
+  }
+  
+  public getRandom(): Random {
+    return this.random;
+  }
+  
+  // Returns a reason why the attack is illegal, or null if it is allowed
+  public checkAttack(owner: Owner, fromId: string, toId: string, units: number): string | null {
+    const from = this.board.getTerritory(fromId);
+    const to = this.board.getTerritory(toId);
+    
+    if (from.owner !== owner) return `${from.name} is not yours`;
+    if (to.owner === owner) return `${to.name} is already yours`;
+    if (!this.board.isAdjacent(fromId, toId)) return 'Territories are not adjacent';
+    // Need at least 2 units to attack (1 must stay behind)
+    if (from.units <= 1) return 'Not enough units to attack';
+    
+    return this.checkUnits(fromId, units);
+  }
+  
+  // Only the committed units fight; the ones that win move into the captured territory
+  public attack(owner: Owner, fromId: string, toId: string, units: number): AttackResult {
+    const reason = this.checkAttack(owner, fromId, toId, units);
+    if (reason) {
+      throw new Error(reason);
+    }
+    
+    const from = this.board.getTerritory(fromId);
+    const to = this.board.getTerritory(toId);
+    const defenderUnits = to.units;
+    const ruleSet = this.options.ruleSet;
+    
+    // Calculate attack strength (random factor for unpredictability), then
+    // apply the terrain: rivers weaken the attack, mountains help the defense
+    const variance = ruleSet.combatVariance;
+    const modifiers = getCombatModifiers(this.board, fromId, toId);
+    const attackStrength = Math.floor(units * this.random.range(1 - variance, 1 + variance) * modifiers.attack);
+    const defenseStrength = Math.floor(defenderUnits * this.random.range(1 - variance, 1 + variance) * modifiers.defense);
+    
+    const result: AttackResult = {
+      from: fromId,
+      to: toId,
+      defender: to.owner,
+      units,
+      attackStrength,
+      defenseStrength,
+      captured: attackStrength > defenseStrength,
+      attackerLosses: 0,
+      defenderLosses: 0,
+      survivors: 0
+    };
+    
+    if (result.captured) {
+      // Attacker wins
+      result.survivors = Math.floor(units * (attackStrength / (attackStrength + defenseStrength)));
+      result.attackerLosses = units - result.survivors;
+      result.defenderLosses = defenderUnits;
+      from.units -= units;
+      to.owner = owner;
+      to.units = result.survivors;
+    } else {
+      // Defender wins or tie
+      result.attackerLosses = Math.floor(units * ruleSet.attackerLossOnFailure); // Lose part of the committed units
+      from.units -= result.attackerLosses;
+      
+      // Defender also loses some units
+      result.defenderLosses = Math.floor(defenderUnits * ruleSet.defenderLossOnFailure);
+      to.units = Math.max(1, defenderUnits - result.defenderLosses);
+    }
+    
+    this.changed();
+    return result;
+  }
+  
+  // Exact odds of an attack as the attacker knows the board: under fog of war
+  // the defenders are the last-seen count
+  public getAttackOdds(owner: Owner, fromId: string, toId: string, units: number): CaptureOdds {
+    return getAttackOdds(this.getView(owner), fromId, toId, units, this.options.ruleSet);
+  }
+  
+  // Returns a reason why the transfer is illegal, or null if it is allowed
+  public checkTransfer(owner: Owner, fromId: string, toId: string, units: number): string | null {
+    const from = this.board.getTerritory(fromId);
+    const to = this.board.getTerritory(toId);
+    
+    if (from.owner !== owner || to.owner !== owner) return 'Can only transfer between your own territories';
+    if (!this.board.isAdjacent(fromId, toId)) return 'Territories are not adjacent';
+    if (from.units <= 1) return 'Not enough units to transfer';
+    
+    return this.checkUnits(fromId, units);
+  }
+  
+  // Units that can leave a territory: all but the one that stays behind
+  public getMaxUnits(fromId: string): number {
+    return Math.max(0, this.board.getTerritory(fromId).units - 1);
+  }
+  
+  // Suggested counts: attacks commit everything that can leave, transfers half
+  public getDefaultUnits(type: 'attack' | 'transfer', fromId: string): number {
+    return type === 'attack'
+      ? this.getMaxUnits(fromId)
+      : Math.max(1, Math.floor(this.board.getTerritory(fromId).units / 2));
+  }
+  
+  public transfer(owner: Owner, fromId: string, toId: string, units: number): TransferResult {
+    const reason = this.checkTransfer(owner, fromId, toId, units);
+    if (reason) {
+      throw new Error(reason);
+    }
+    
+    const from = this.board.getTerritory(fromId);
+    const to = this.board.getTerritory(toId);
+    
+    from.units -= units;
+    to.units += units;
+    
+    this.changed();
+    return { from: fromId, to: toId, units };
+  }
+  
+  // Risk-style reinforcements: one per few territories held (with a minimum)
+  // plus the bonus of every region held completely and of every city
+  public getReinforcements(owner: Owner): ReinforcementPool {
+    const owned = this.board.getOwnedBy(owner);
+    if (owned.length === 0) {
+      return { base: 0, regions: [], cities: 0, total: 0 };
+    }
+    
+    const ruleSet = this.options.ruleSet;
+    const base = Math.max(ruleSet.minReinforcements, Math.floor(owned.length / ruleSet.territoriesPerReinforcement));
+    const regions = this.board.getRegionsHeldBy(owner);
+    const cities = owned.reduce((sum, t) => sum + TERRAIN[getTerrain(t)].reinforcements, 0);
+    return { base, regions, cities, total: base + regions.reduce((sum, r) => sum + r.bonus, 0) + cities };
+  }
+  
+  // Returns a reason why the placement is illegal, or null if it is allowed.
+  // How many units are left to place is up to the caller.
+  public checkPlace(owner: Owner, territoryId: string, units: number): string | null {
+    const territory = this.board.getTerritory(territoryId);
+    
+    if (territory.owner !== owner) return `${territory.name} is not yours`;
+    if (!Number.isInteger(units) || units < 1) return 'Must place at least 1 unit';
+    
+    return null;
+  }
+  
+  public place(owner: Owner, territoryId: string, units: number): PlaceResult {
+    const reason = this.checkPlace(owner, territoryId, units);
+    if (reason) {
+      throw new Error(reason);
+    }
+    
+    this.board.getTerritory(territoryId).units += units;
+    
+    this.changed();
+    return { territory: territoryId, units };
+  }
+  
+  // Factions that still hold at least one territory
+  public getActiveFactions(): Owner[] {
+    const owners = new Set(this.board.getTerritories().map(t => t.owner));
+    owners.delete(NEUTRAL);
+    return [...owners];
+  }
+  
+  // The winner of a move-time victory, if any
+  public getWinner(): Owner | null {
+    return this.getVictory()?.winner ?? null;
+  }
+  
+  // Victories that can happen on any move: elimination, domination and capitals
+  public getVictory(): VictoryResult | null {
+    const active = this.getActiveFactions();
+    if (active.length === 1) {
+      return { winner: active[0], reason: 'All other factions have been eliminated' };
+    }
+    
+    const victory = this.options.ruleSet.victory;
+    if (victory.type === 'domination') {
+      const needed = Math.ceil(this.board.getTerritories().length * victory.percent / 100);
+      const winner = active.find(owner => this.board.getOwnedBy(owner).length >= needed);
+      if (winner) return { winner, reason: `Holds ${victory.percent}% of the territories` };
+    } else if (victory.type === 'capital') {
+      const capitals = this.board.getTerritories().filter(t => t.capital);
+      const winner = capitals.length > 0 ? capitals[0].owner : NEUTRAL;
+      if (winner !== NEUTRAL && capitals.every(t => t.owner === winner)) {
+        return { winner, reason: 'Holds every capital' };
+      }
+    }
+    return null;
+  }
+  
+  // Victories checked when a faction's turn begins in the given round: the
+  // turn limit, and king of the hill for a faction still holding the hill
+  public getTurnStartVictory(owner: Owner, round: number): VictoryResult | null {
+    const victory = this.options.ruleSet.victory;
+    if (victory.type === 'turnLimit' && round > victory.rounds) {
+      const winner = this.getLeader();
+      return {
+        winner,
+        reason: winner ? `Holds the most territories after ${victory.rounds} rounds` : `Nobody leads after ${victory.rounds} rounds`
+      };
+    }
+    if (victory.type === 'kingOfTheHill' && round > 1) {
+      const hill = this.getHill();
+      if (hill && hill.owner === owner) {
+        return { winner: owner, reason: `Held ${hill.name} for a whole round` };
+      }
+    }
+    return null;
+  }
+  
+  // The faction with the most territories, then units; null on a tie
+  public getLeader(): Owner | null {
+    const score = (owner: Owner) => [this.board.getOwnedBy(owner).length, this.board.getTotalUnits(owner)];
+    const ranked = this.getActiveFactions().map(owner => ({ owner, score: score(owner) }))
+      .sort((a, b) => b.score[0] - a.score[0] || b.score[1] - a.score[1]);
+    
+    if (ranked.length === 0) return null;
+    if (ranked.length > 1 && ranked[0].score.join() === ranked[1].score.join()) return null;
+    return ranked[0].owner;
+  }
+  
+  // The hill in king of the hill
+  public getHill(): TerritoryData | null {
+    return this.board.getCenter();
+  }
+  
+  // Territories the victory condition is about: the hill or the capitals
+  public getObjectives(): TerritoryData[] {
+    return getObjectives(this.board, this.options.ruleSet);
+  }
+  
+  // Report a board changed outside the rules, e.g. restored by an undo
+  public notifyChanged(): void {
+    this.changed();
+  }
+  
+  private checkUnits(fromId: string, units: number): string | null {
+    if (!Number.isInteger(units) || units < 1) return 'Must send at least 1 unit';
+    
+    const max = this.getMaxUnits(fromId);
+    if (units > max) return `${this.board.getTerritory(fromId).name} can only send ${max} units`;
+    
+    return null;
+  }
+  
+  private changed(): void {
+    this.fog?.update();
+    this.onChange();
+  }
+}
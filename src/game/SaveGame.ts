@@ -0,0 +1,214 @@
+import { Region, TerritoryData } from './Board';
+import { DEFAULT_FACTIONS, Faction, isFactionList, NEUTRAL } from './Faction';
+import { RulesOptions } from './Rules';
+import { LastSeen } from './FogOfWar';
+import { CLASSIC_RULE_SET, validateRuleSet } from './RuleSet';
+import { isTerrain } from './Terrain';
+
+// Bump whenever the save format changes and register a migration below
+export const SAVE_VERSION = 6;
+
+export interface SaveData {
+  version: number;
+  savedAt: string;
+  territories: TerritoryData[];
+  regions: Region[];
+  factions: Faction[];
+  gameStarted: boolean;
+  gameOver: boolean;
+  // Faction ids
+  winner: string | null;
+  currentTurn: string;
+  turnNumber: number;
+  // Units the current faction still has to place
+  reinforcements: number;
+  rng: {
+    seed: number;
+    state: number;
+  };
+  rules: RulesOptions;
+  // What each faction last saw, when playing with fog of war
+  lastSeen: LastSeen | null;
+}
+
+export interface SaveSlotInfo {
+  slot: string;
+  savedAt: string;
+}
+
+// The save format before each migration; versions are added by migrateSave
+type SaveV5 = Omit<SaveData, 'version' | 'rules'> & { rules: Omit<RulesOptions, 'ruleSet'> };
+type SaveV4 = Omit<SaveV5, 'regions' | 'reinforcements'>;
+type SaveV3 = Omit<SaveV4, 'rules' | 'lastSeen'>;
+type SaveV2 = Omit<SaveV3, 'factions'>;
+type SaveV1 = Omit<SaveV2, 'territories'> & { territories: Omit<TerritoryData, 'neighbors'>[] };
+
+// Each migration takes the previous one's output
+interface Migrations {
+  1: (data: SaveV1) => SaveV2;
+  2: (data: SaveV2) => SaveV3;
+  3: (data: SaveV3) => SaveV4;
+  4: (data: SaveV4) => SaveV5;
+  5: (data: SaveV5) => Omit<SaveData, 'version'>;
+}
+
+// MIGRATIONS[n] upgrades a version n save to version n + 1
+const MIGRATIONS: Migrations = {
+  // v2: explicit neighbor lists replace the old "distance < 7" adjacency rule
+  1: data => ({
+    ...data,
+    territories: data.territories.map(t => ({
+      ...t,
+      neighbors: data.territories
+        .filter(o => o !== t && Math.hypot(o.x - t.x, o.z - t.z) < 7)
+        .map(o => o.id)
+    }))
+  }),
+  // v3: any number of factions instead of a fixed player and AI
+  2: data => ({ ...data, factions: DEFAULT_FACTIONS }),
+  // v4: the rule options are saved, with fog of war memory
+  3: data => ({ ...data, rules: { undoableAttacks: false, fogOfWar: false }, lastSeen: null }),
+  // v5: map regions and the reinforcement placement phase
+  4: data => ({ ...data, regions: [], reinforcements: 0 }),
+  // v6: rule sets with victory conditions; older games played the classic rules
+  5: data => ({ ...data, rules: { ...data.rules, ruleSet: CLASSIC_RULE_SET } })
+};
+
+// Brings a parsed save document of any known version up to SAVE_VERSION
+export function migrateSave(raw: unknown): SaveData {
+  const document = raw as { version?: unknown; territories?: unknown };
+  if (!document || typeof document !== 'object' || typeof document.version !== 'number') {
+    throw new Error('Not a valid save file');
+  }
+  
+  let version = document.version;
+  if (version > SAVE_VERSION) {
+    throw new Error(`Save version ${version} is newer than this game supports (${SAVE_VERSION})`);
+  }
+  // Every version has territories, and the first migration reads them
+  if (!Array.isArray(document.territories)) {
+    throw new Error('Save has no territories');
+  }
+  
+  let data: object = document;
+  while (version < SAVE_VERSION) {
+    if (!(version in MIGRATIONS)) {
+      throw new Error(`No migration from save version ${version}`);
+    }
+    // The steps chain by type; only the final result is checked
+    const migrate = MIGRATIONS[version as keyof Migrations] as (data: object) => object;
+    data = migrate(data);
+    version++;
+  }
+  
+  const save: unknown = { ...data, version };
+  validateSave(save);
+  return save;
+}
+
+function validateSave(raw: unknown): asserts raw is SaveData {
+  const data = raw as SaveData;
+  if (!Array.isArray(data.territories) || data.territories.length === 0) {
+    throw new Error('Save has no territories');
+  }
+  
+  if (!isFactionList(data.factions)) {
+    throw new Error('Save has invalid factions');
+  }
+  const owners = [NEUTRAL, ...data.factions.map(f => f.id)];
+  // Nothing would take up an AI's turn in a loaded game
+  const turn = data.factions.find(f => f.id === data.currentTurn);
+  if (!turn || (data.gameStarted && !data.gameOver && turn.controller !== 'human')) {
+    throw new Error('Save was not made on a human turn');
+  }
+  
+  for (const t of data.territories) {
+    if (!t || typeof t.id !== 'string' || typeof t.name !== 'string' ||
+        typeof t.units !== 'number' || typeof t.x !== 'number' || typeof t.z !== 'number' ||
+        !Array.isArray(t.neighbors) ||
+        !owners.includes(t.owner) ||
+        (t.capital !== undefined && !owners.includes(t.capital)) ||
+        (t.terrain !== undefined && !isTerrain(t.terrain)) ||
+        (t.rivers !== undefined && !Array.isArray(t.rivers))) {
+      throw new Error('Save contains an invalid territory');
+    }
+  }
+  
+  const ids = data.territories.map(t => t.id);
+  if (!Array.isArray(data.regions) ||
+      data.regions.some(r => !r || typeof r.id !== 'string' || typeof r.name !== 'string' ||
+        typeof r.bonus !== 'number' || !Array.isArray(r.territories) ||
+        r.territories.some(id => !ids.includes(id)))) {
+    throw new Error('Save has invalid regions');
+  }
+  if (!Number.isInteger(data.reinforcements) || data.reinforcements < 0) {
+    throw new Error('Save has an invalid reinforcement count');
+  }
+  
+  if (!data.rng || typeof data.rng.seed !== 'number' || typeof data.rng.state !== 'number') {
+    throw new Error('Save is missing the random seed');
+  }
+  
+  if (!data.rules || typeof data.rules.undoableAttacks !== 'boolean' || typeof data.rules.fogOfWar !== 'boolean') {
+    throw new Error('Save has invalid rule options');
+  }
+  if (!data.rules.ruleSet || typeof data.rules.ruleSet !== 'object' || validateRuleSet(data.rules.ruleSet).length > 0) {
+    throw new Error('Save has an invalid rule set');
+  }
+  if (data.lastSeen !== null && (typeof data.lastSeen !== 'object' || Array.isArray(data.lastSeen))) {
+    throw new Error('Save has invalid fog of war data');
+  }
+}
+
+export function parseSave(json: string): SaveData {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Save file is not valid JSON');
+  }
+  return migrateSave(raw);
+}
+
+// Save slots kept in localStorage
+export class SaveSlots {
+  private static readonly PREFIX = 'teritory.save.';
+  
+  constructor(private storage: Storage = window.localStorage) {}
+  
+  public list(): SaveSlotInfo[] {
+    const slots: SaveSlotInfo[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (!key || !key.startsWith(SaveSlots.PREFIX)) continue;
+      
+      try {
+        const data = JSON.parse(this.storage.getItem(key) || '');
+        slots.push({ slot: key.slice(SaveSlots.PREFIX.length), savedAt: data.savedAt });
+      } catch {
+        // Skip unreadable entries
+      }
+    }
+    return slots.sort((a, b) => a.slot.localeCompare(b.slot));
+  }
+  
+  public has(slot: string): boolean {
+    return this.storage.getItem(SaveSlots.PREFIX + slot) !== null;
+  }
+  
+  public save(slot: string, data: SaveData): void {
+    this.storage.setItem(SaveSlots.PREFIX + slot, JSON.stringify(data));
+  }
+  
+  public load(slot: string): SaveData {
+    const json = this.storage.getItem(SaveSlots.PREFIX + slot);
+    if (json === null) {
+      throw new Error(`Save slot ${slot} is empty`);
+    }
+    return parseSave(json);
+  }
+  
+  public remove(slot: string): void {
+    this.storage.removeItem(SaveSlots.PREFIX + slot);
+  }
+}
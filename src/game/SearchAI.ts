@@ -0,0 +1,285 @@
+import { Board, Owner, TerritoryData } from './Board';
+import { NEUTRAL } from './Faction';
+import { Random } from './Random';
+import { getAttackOdds, getFailedAttackUnits } from './Combat';
+import { CLASSIC_RULE_SET, getObjectives, RuleSet } from './RuleSet';
+import { getTerrain, TERRAIN } from './Terrain';
+
+export type Difficulty = 'easy' | 'normal' | 'hard' | 'brutal';
+
+export interface SearchOptions {
+  label: string;
+  // Moves looked ahead within the turn
+  depth: number;
+  // Most promising moves expanded at each step
+  breadth: number;
+  // Milliseconds per move, ordering the moves included; a deeper search
+  // that runs out of time is dropped
+  timeBudget: number;
+  // Positions evaluated per move, on top of the time. Tools set it with an
+  // unlimited time budget, so that every machine finds the same moves.
+  nodeBudget?: number;
+  // How much the evaluation fears counterattacks on its own territories
+  threatWeight: number;
+  // Chance of playing a random candidate instead of the best move
+  mistakeRate: number;
+}
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard', 'brutal'];
+
+export const DIFFICULTY_PRESETS: Record<Difficulty, SearchOptions> = {
+  easy: { label: 'Easy', depth: 1, breadth: 6, timeBudget: 20, threatWeight: 0, mistakeRate: 0.35 },
+  normal: { label: 'Normal', depth: 2, breadth: 6, timeBudget: 100, threatWeight: 0.5, mistakeRate: 0.1 },
+  hard: { label: 'Hard', depth: 3, breadth: 8, timeBudget: 300, threatWeight: 1, mistakeRate: 0 },
+  brutal: { label: 'Brutal', depth: 3, breadth: 12, timeBudget: 800, threatWeight: 1.2, mistakeRate: 0 }
+};
+
+export interface SearchMove {
+  type: 'attack' | 'transfer';
+  from: string;
+  to: string;
+  units: number;
+  // Expected evaluation gain over ending the turn now
+  gain: number;
+}
+
+// Thrown to abandon a search iteration that ran out of budget
+class SearchAbort {}
+
+// Expectimax over the moves of one turn: attacks are chance nodes weighted by
+// the exact capture odds, transfers are deterministic and ending the turn is
+// always an option. Works on board copies, so it never touches the game.
+export class SearchAI {
+  // What the running iteration may still spend; null while nothing is limited
+  private budget: { nodes: number; deadline: number } | null = null;
+  
+  // Value of a territory in units, on top of the units on it
+  private static readonly TERRITORY_VALUE = 3;
+  // A held region or city is worth this many turns of its bonus
+  private static readonly REGION_TURNS = 3;
+  // Extra value of the hill or a capital under those victory conditions
+  private static readonly OBJECTIVE_VALUE = 15;
+  private static readonly WIN_SCORE = 100000;
+  
+  constructor(
+    private owner: Owner,
+    private options: SearchOptions,
+    // Only rolled for deliberate mistakes
+    private random: Random = new Random(),
+    // Combat odds follow its variance and losses
+    private ruleSet: RuleSet = CLASSIC_RULE_SET
+  ) {}
+  
+  public getOptions(): SearchOptions {
+    return this.options;
+  }
+  
+  // The best next move, or null when ending the turn is better. Callers play
+  // one move at a time and search again, since each attack's outcome changes the plan.
+  public chooseMove(board: Board, movesLeft: number): SearchMove | null {
+    const depth = Math.min(this.options.depth, movesLeft);
+    if (depth <= 0) return null;
+    
+    // Depth 1 always completes; deeper iterations only within the budget
+    this.budget = null;
+    let best = this.bestMove(board, 1);
+    this.budget = { nodes: this.options.nodeBudget ?? Infinity, deadline: Date.now() + this.options.timeBudget };
+    
+    for (let d = 2; d <= depth; d++) {
+      try {
+        best = this.bestMove(board, d);
+      } catch (error) {
+        if (error instanceof SearchAbort) break;
+        throw error;
+      }
+    }
+    this.budget = null;
+    
+    if (best && this.options.mistakeRate > 0 && this.random.next() < this.options.mistakeRate) {
+      const candidates = this.getCandidates(board);
+      const pick = candidates[this.random.int(0, candidates.length - 1)];
+      return { ...pick, gain: 0 };
+    }
+    return best;
+  }
+  
+  // Splits the reinforcements into a few chunks, each placed where a one-move
+  // search afterwards values it most
+  public choosePlacements(board: Board, units: number): Map<string, number> {
+    const placements = new Map<string, number>();
+    const owned = board.getOwnedBy(this.owner);
+    if (owned.length === 0) return placements;
+    
+    const border = owned.filter(t => board.getNeighbors(t.id).some(n => n.owner !== this.owner));
+    const candidates = (border.length > 0 ? border : owned).map(t => t.id);
+    const chunk = Math.ceil(units / 3);
+    
+    this.budget = null;
+    let current = board.clone();
+    for (let left = units; left > 0; left -= chunk) {
+      const count = Math.min(chunk, left);
+      let best: Board | null = null;
+      let bestId = candidates[0];
+      let bestValue = -Infinity;
+      
+      for (const id of candidates) {
+        const next = current.clone();
+        next.getTerritory(id).units += count;
+        const value = this.search(next, 1);
+        if (value > bestValue) {
+          best = next;
+          bestId = id;
+          bestValue = value;
+        }
+      }
+      
+      current = best!;
+      placements.set(bestId, (placements.get(bestId) ?? 0) + count);
+    }
+    return placements;
+  }
+  
+  private bestMove(board: Board, depth: number): SearchMove | null {
+    const base = this.evaluate(board);
+    let best: SearchMove | null = null;
+    
+    for (const move of this.getCandidates(board)) {
+      const gain = this.expectedValue(board, move, depth - 1) - base;
+      if (gain > 0 && (!best || gain > best.gain)) {
+        best = { ...move, gain };
+      }
+    }
+    return best;
+  }
+  
+  // Value of the best line with `depth` moves left, ending the turn included
+  private search(board: Board, depth: number): number {
+    if (this.budget && (--this.budget.nodes < 0 || Date.now() >= this.budget.deadline)) {
+      throw new SearchAbort();
+    }
+    
+    let best = this.evaluate(board);
+    if (depth === 0) return best;
+    
+    for (const move of this.getCandidates(board)) {
+      best = Math.max(best, this.expectedValue(board, move, depth - 1));
+    }
+    return best;
+  }
+  
+  private expectedValue(board: Board, move: SearchMove, depth: number): number {
+    if (move.type === 'transfer') {
+      return this.search(this.applyTransfer(board, move), depth);
+    }
+    
+    const odds = getAttackOdds(board, move.from, move.to, move.units, this.ruleSet);
+    
+    let value = 0;
+    if (odds.chance > 0) {
+      value += odds.chance * this.search(this.applyAttack(board, move, true, odds.survivors), depth);
+    }
+    if (odds.chance < 1) {
+      value += (1 - odds.chance) * this.search(this.applyAttack(board, move, false, 0), depth);
+    }
+    return value;
+  }
+  
+  // Legal moves ordered by their one-step value, cut down to the preset breadth.
+  // Each move is tried with everything that can leave and with about half of it.
+  private getCandidates(board: Board): SearchMove[] {
+    const moves: SearchMove[] = [];
+    
+    for (const from of board.getOwnedBy(this.owner)) {
+      if (from.units <= 1) continue;
+      
+      const max = from.units - 1;
+      const sizes = max > 1 ? [max, Math.ceil(max / 2)] : [max];
+      for (const to of board.getNeighbors(from.id)) {
+        const type = to.owner !== this.owner ? 'attack' : 'transfer';
+        for (const units of sizes) {
+          moves.push({ type, from: from.id, to: to.id, units, gain: 0 });
+        }
+      }
+    }
+    
+    // Each one-step value is a position searched, charged to the budget
+    for (const move of moves) {
+      move.gain = this.expectedValue(board, move, 0);
+    }
+    
+    return moves.sort((a, b) => b.gain - a.gain).slice(0, this.options.breadth);
+  }
+  
+  private applyAttack(board: Board, move: SearchMove, captured: boolean, survivors: number): Board {
+    const next = board.clone();
+    const from = next.getTerritory(move.from);
+    const to = next.getTerritory(move.to);
+    
+    if (captured) {
+      to.owner = this.owner;
+      to.units = Math.max(1, Math.round(survivors));
+      from.units -= move.units;
+    } else {
+      const units = getFailedAttackUnits(move.units, to.units, this.ruleSet);
+      from.units += units.attacker - move.units;
+      to.units = units.defender;
+    }
+    return next;
+  }
+  
+  private applyTransfer(board: Board, move: SearchMove): Board {
+    const next = board.clone();
+    next.getTerritory(move.from).units -= move.units;
+    next.getTerritory(move.to).units += move.units;
+    return next;
+  }
+  
+  // Own strength against the strongest rival, minus what counterattacks are expected to take
+  private evaluate(board: Board): number {
+    const strength = new Map<Owner, number>();
+    for (const territory of board.getTerritories()) {
+      if (territory.owner === NEUTRAL) continue;
+      const value = territory.units + SearchAI.TERRITORY_VALUE + TERRAIN[getTerrain(territory)].reinforcements * SearchAI.REGION_TURNS;
+      strength.set(territory.owner, (strength.get(territory.owner) ?? 0) + value);
+    }
+    
+    for (const owner of strength.keys()) {
+      const bonus = board.getRegionsHeldBy(owner).reduce((sum, r) => sum + r.bonus, 0);
+      strength.set(owner, strength.get(owner)! + bonus * SearchAI.REGION_TURNS);
+    }
+    for (const objective of getObjectives(board, this.ruleSet)) {
+      if (strength.has(objective.owner)) {
+        strength.set(objective.owner, strength.get(objective.owner)! + SearchAI.OBJECTIVE_VALUE);
+      }
+    }
+    
+    const own = strength.get(this.owner);
+    if (own === undefined) return -SearchAI.WIN_SCORE;
+    strength.delete(this.owner);
+    if (strength.size === 0) return SearchAI.WIN_SCORE;
+    
+    let score = own - Math.max(...strength.values());
+    
+    if (this.options.threatWeight > 0) {
+      for (const territory of board.getOwnedBy(this.owner)) {
+        const attacker = this.strongestEnemyNeighbor(board, territory);
+        if (!attacker || attacker.units <= 1) continue;
+        
+        const odds = getAttackOdds(board, attacker.id, territory.id, attacker.units - 1, this.ruleSet);
+        score -= this.options.threatWeight * odds.chance * (territory.units + SearchAI.TERRITORY_VALUE);
+      }
+    }
+    return score;
+  }
+  
+  private strongestEnemyNeighbor(board: Board, territory: TerritoryData): TerritoryData | null {
+    let strongest: TerritoryData | null = null;
+    for (const neighbor of board.getNeighbors(territory.id)) {
+      if (neighbor.owner === this.owner || neighbor.owner === NEUTRAL) continue;
+      if (!strongest || neighbor.units > strongest.units) {
+        strongest = neighbor;
+      }
+    }
+    return strongest;
+  }
+}
@@ -0,0 +1,62 @@
+import { Board, Owner } from './Board';
+import { DEFAULT_RULES_OPTIONS, Rules, RulesOptions } from './Rules';
+import { Random } from './Random';
+import { AIPlayer } from './AIPlayer';
+import { Faction, nextInTurnOrder } from './Faction';
+import { createTerritories, MapDefinition } from './MapLoader';
+
+export interface MatchSetup {
+  map: MapDefinition;
+  // In turn order, the first one moves first
+  factions: Faction[];
+  // The AI playing a faction; it should not wait between actions
+  createAI: (rules: Rules, faction: Faction) => AIPlayer;
+  seed: number;
+  // Rounds after which the match is a draw
+  maxRounds: number;
+  options?: RulesOptions;
+}
+
+export interface MatchResult {
+  seed: number;
+  // Null for a draw
+  winner: Owner | null;
+  rounds: number;
+  firstMover: Owner;
+}
+
+// Plays a whole AI-only match with no renderer or delays: the same loop as
+// Game.endPlayerTurn, for balancing runs (see tools/tournament.ts)
+export async function simulateMatch(setup: MatchSetup): Promise<MatchResult> {
+  const { factions } = setup;
+  const options = setup.options ?? DEFAULT_RULES_OPTIONS;
+  const territories = createTerritories(setup.map, factions.map(f => f.id), options.ruleSet.startingUnits);
+  const rules = new Rules(new Board(territories, setup.map.regions ?? []), new Random(setup.seed), options);
+  const ais = factions.map(faction => setup.createAI(rules, faction));
+  const isEliminated = (id: Owner) => rules.getBoard().getOwnedBy(id).length === 0;
+  
+  let current = 0;
+  let rounds = 1;
+  while (rounds <= setup.maxRounds) {
+    const turnVictory = rules.getTurnStartVictory(factions[current].id, rounds);
+    if (turnVictory) {
+      return { seed: setup.seed, winner: turnVictory.winner, rounds, firstMover: factions[0].id };
+    }
+    
+    await ais[current].placeReinforcements(rules.getReinforcements(factions[current].id).total);
+    await ais[current].executeTurn();
+    
+    const victory = rules.getVictory();
+    if (victory) {
+      return { seed: setup.seed, winner: victory.winner, rounds, firstMover: factions[0].id };
+    }
+    
+    const next = nextInTurnOrder(factions, current, isEliminated);
+    if (next <= current) {
+      rounds++;
+    }
+    current = next;
+  }
+  
+  return { seed: setup.seed, winner: null, rounds: setup.maxRounds, firstMover: factions[0].id };
+}
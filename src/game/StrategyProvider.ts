@@ -0,0 +1,243 @@
+import axios from 'axios';
+import { Board, Owner, TerritoryData } from './Board';
+import { NEUTRAL } from './Faction';
+import { ACTION_PLAN_FORMAT, ActionPlan, PlannedMove } from './ActionPlan';
+import { getCombatModifiers, RIVER_DESCRIPTION, TERRAIN, TERRAIN_TYPES } from './Terrain';
+
+// What an AI faction asks its advisor about
+export interface StrategyContext {
+  board: Board;
+  owner: Owner;
+  // Under fog of war: territories whose units are only the last-seen count
+  hidden?: Set<string>;
+  // Moves the AI plays per turn
+  maxMoves?: number;
+  // How the game is won, when not by elimination
+  goal?: string;
+}
+
+// Source of the action plan an AIPlayer plays by: a reply containing a JSON
+// object in ACTION_PLAN_FORMAT
+export interface StrategyProvider {
+  readonly name: string;
+  getStrategy(context: StrategyContext): Promise<string>;
+}
+
+export interface ChatCompletionOptions {
+  // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama
+  baseUrl: string;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export type StrategyProviderType = 'chat' | 'rules' | 'none';
+
+// Vite env settings, see .env.example. The API key is not one of them: it is
+// added by the dev server proxy so it never ends up in the bundle.
+export interface StrategyConfig {
+  VITE_STRATEGY_PROVIDER?: string;
+  VITE_LLM_BASE_URL?: string;
+  VITE_LLM_MODEL?: string;
+  // Set by Vite in production builds, which have no dev server proxy
+  PROD?: boolean;
+}
+
+// Base URL of the dev server proxy that adds the API key
+const DEV_PROXY_URL = '/llm';
+
+// Any chat completions endpoint: DeepSeek or OpenAI behind the dev proxy,
+// or a local Ollama / llama.cpp server
+export class ChatCompletionStrategyProvider implements StrategyProvider {
+  public readonly name: string;
+  
+  constructor(private options: ChatCompletionOptions) {
+    this.name = `${options.model} (${options.baseUrl})`;
+  }
+  
+  public async getStrategy(context: StrategyContext): Promise<string> {
+    const response = await axios.post(
+      `${this.options.baseUrl.replace(/\/$/, '')}/chat/completions`,
+      {
+        model: this.options.model,
+        messages: [
+          { role: 'system', content: 'You are a strategic AI advisor for a territory control game.' },
+          { role: 'user', content: buildStrategyPrompt(context) }
+        ],
+        temperature: this.options.temperature ?? 0.7,
+        max_tokens: this.options.maxTokens ?? 400
+      },
+      {
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+    
+    const content = response.data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('Unexpected chat completion response');
+    }
+    return content;
+  }
+}
+
+// Local advisor that reads the board: plans the best attack and reinforces the most threatened border
+export class RuleBasedStrategyProvider implements StrategyProvider {
+  public readonly name = 'rule-based advisor';
+  
+  public async getStrategy({ board, owner }: StrategyContext): Promise<string> {
+    const owned = board.getOwnedBy(owner);
+    const isEnemy = (t: TerritoryData) => t.owner !== owner && t.owner !== NEUTRAL;
+    
+    // Most favorable attack: biggest margin of attacking units over defenders, after the terrain
+    let attack: { from: TerritoryData; to: TerritoryData; margin: number } | null = null;
+    for (const from of owned) {
+      for (const to of board.getNeighbors(from.id)) {
+        if (to.owner === owner) continue;
+        
+        const modifiers = getCombatModifiers(board, from.id, to.id);
+        const margin = (from.units - 1) * modifiers.attack - to.units * modifiers.defense + (isEnemy(to) ? 1 : 0);
+        if (!attack || margin > attack.margin) {
+          attack = { from, to, margin };
+        }
+      }
+    }
+    
+    // Most threatened border: most enemy units next to it
+    let border: { territory: TerritoryData; threat: number } | null = null;
+    for (const territory of owned) {
+      const threat = board.getNeighbors(territory.id).filter(isEnemy).reduce((sum, t) => sum + t.units, 0);
+      if (threat > 0 && (!border || threat > border.threat)) {
+        border = { territory, threat };
+      }
+    }
+    
+    const moves: PlannedMove[] = [];
+    if (attack && attack.margin > 0) {
+      moves.push({
+        type: 'attack',
+        from: attack.from.id,
+        to: attack.to.id,
+        units: attack.from.units - 1,
+        rationale: `Attack ${attack.to.name} from ${attack.from.name} (${attack.from.units} vs ${attack.to.units}).`
+      });
+    }
+    
+    // Bring units from the strongest friendly neighbor
+    if (border && border.threat >= border.territory.units) {
+      const source = board.getNeighbors(border.territory.id)
+        .filter(t => t.owner === owner && t.units > 1 && t !== attack?.from)
+        .sort((a, b) => b.units - a.units)[0];
+      if (source) {
+        moves.push({
+          type: 'transfer',
+          from: source.id,
+          to: border.territory.id,
+          units: Math.floor(source.units / 2),
+          rationale: `Reinforce ${border.territory.name}, it faces ${border.threat} enemy units.`
+        });
+      }
+    }
+    
+    const plan: ActionPlan = {
+      summary: moves.length > 0
+        ? 'Take the weakest target in reach and cover the most threatened border.'
+        : 'Hold the line and build up units before attacking.',
+      moves
+    };
+    return JSON.stringify(plan);
+  }
+}
+
+// Replays canned answers in order (repeating the last one) and keeps every
+// request, for tests and reproducible matches
+export class ScriptedStrategyProvider implements StrategyProvider {
+  public readonly name = 'scripted advisor';
+  public readonly requests: StrategyContext[] = [];
+  
+  constructor(private responses: string[]) {}
+  
+  public async getStrategy(context: StrategyContext): Promise<string> {
+    this.requests.push(context);
+    if (this.responses.length === 0) {
+      return '';
+    }
+    return this.responses[Math.min(this.requests.length, this.responses.length) - 1];
+  }
+}
+
+// Picks the provider from the Vite env; the rule-based advisor unless a chat model is configured
+export function createStrategyProvider(config: StrategyConfig = import.meta.env): StrategyProvider | null {
+  const type = (config.VITE_STRATEGY_PROVIDER || (config.VITE_LLM_MODEL ? 'chat' : 'rules')) as StrategyProviderType;
+  
+  switch (type) {
+    case 'chat': {
+      if (!config.VITE_LLM_MODEL) {
+        console.warn('VITE_LLM_MODEL is not set, using the rule-based advisor');
+        return new RuleBasedStrategyProvider();
+      }
+      // The dev server proxies /llm to LLM_PROXY_TARGET and adds the key
+      const baseUrl = config.VITE_LLM_BASE_URL || DEV_PROXY_URL;
+      if (config.PROD && baseUrl === DEV_PROXY_URL) {
+        console.warn(`${DEV_PROXY_URL} is only proxied by the dev server, set VITE_LLM_BASE_URL for production builds; using the rule-based advisor`);
+        return new RuleBasedStrategyProvider();
+      }
+      return new ChatCompletionStrategyProvider({ baseUrl, model: config.VITE_LLM_MODEL });
+    }
+    case 'none':
+      return null;
+    case 'rules':
+      return new RuleBasedStrategyProvider();
+    default:
+      console.warn(`Unknown strategy provider "${type}", using the rule-based advisor`);
+      return new RuleBasedStrategyProvider();
+  }
+}
+
+export function buildStrategyPrompt({ board, owner, hidden, maxMoves = 3, goal }: StrategyContext): string {
+  const summarize = (o: Owner) => board.getOwnedBy(o).map(t => ({
+    id: t.id,
+    name: t.name,
+    units: t.units,
+    ...(t.terrain ? { terrain: t.terrain } : {}),
+    ...(hidden?.has(t.id) ? { lastSeen: true } : {}),
+    position: {
+      x: t.x,
+      z: t.z
+    }
+  }));
+  
+  // Prepare a simplified game state to send to the API
+  const aiTerritories = board.getOwnedBy(owner).map(t => ({
+    id: t.id,
+    name: t.name,
+    units: t.units,
+    neighbors: t.neighbors,
+    ...(t.terrain ? { terrain: t.terrain } : {}),
+    ...(t.rivers ? { acrossRiver: t.rivers } : {})
+  }));
+  const enemies = [...new Set(board.getTerritories().map(t => t.owner))]
+    .filter(o => o !== owner && o !== NEUTRAL);
+  const neutralTerritories = summarize(NEUTRAL);
+  
+  return `
+    You are an AI strategic advisor for a territory control game.
+    
+    Current game state:
+    - AI controls ${aiTerritories.length} territories with ${board.getTotalUnits(owner)} total units
+    ${enemies.map(enemy => `- Enemy "${enemy}" controls ${board.getOwnedBy(enemy).length} territories with ${hidden ? 'an estimated ' : ''}${board.getTotalUnits(enemy)} total units`).join('\n    ')}
+    - There are ${neutralTerritories.length} neutral territories${goal ? `\n    - Victory condition: ${goal}` : ''}
+    
+    AI territories: ${JSON.stringify(aiTerritories)}
+    ${enemies.map(enemy => `Enemy "${enemy}" territories: ${JSON.stringify(summarize(enemy))}`).join('\n    ')}
+    Neutral territories: ${JSON.stringify(neutralTerritories)}
+    
+    ${hidden ? 'Fog of war is on: territories marked lastSeen show the unit count last seen, the real count may differ.\n    ' : ''}Plan up to ${maxMoves} moves for the AI this turn, executed in order. An attack must go from an AI
+    territory with at least 2 units to a neighboring territory it does not own; a transfer
+    moves units between neighboring AI territories. At most units - 1 units can leave a territory.
+    Only the units sent in an attack fight, and the ones that survive a capture move in.
+    Terrain: ${TERRAIN_TYPES.filter(t => t !== 'plains').map(t => `${t}: ${TERRAIN[t].description}`).join('; ')}; ${RIVER_DESCRIPTION} (neighbors listed in acrossRiver).
+    
+    Reply with only a JSON object in this format:
+    ${ACTION_PLAN_FORMAT}
+  `;
+}
@@ -0,0 +1,175 @@
+import { TerritoryData } from './Board';
+import { AnimationSprite, BoardRenderer, TerritoryView } from './BoardRenderer';
+import { cssColor, SVG_NS, SvgTerritory } from './SvgTerritory';
+
+// Screen offset of the animations per unit of height, so arcs read from above
+const HEIGHT_SHIFT = 0.3;
+
+// The 2D view: the board seen from straight above as SVG, for browsers
+// without WebGL. Board x runs right and z runs down the screen.
+export class SvgRenderer implements BoardRenderer {
+  public readonly kind = 'svg';
+  public readonly element: HTMLElement;
+  
+  private svg: SVGSVGElement;
+  private ground: SVGRectElement;
+  private territories: SVGGElement;
+  private rivers: SVGGElement;
+  private links: SVGGElement;
+  private animations: SVGGElement;
+  
+  constructor(private container: HTMLElement) {
+    this.element = document.createElement('div');
+    this.element.className = 'svg-board';
+    this.svg = document.createElementNS(SVG_NS, 'svg');
+    
+    this.ground = document.createElementNS(SVG_NS, 'rect');
+    this.ground.setAttribute('fill', '#228b22');
+    this.territories = document.createElementNS(SVG_NS, 'g');
+    // Rivers and links go over the territories; only the territories take the pointer
+    this.rivers = this.createLayer();
+    this.links = this.createLayer();
+    this.animations = this.createLayer();
+    this.svg.append(this.ground, this.territories, this.rivers, this.links, this.animations);
+    
+    this.element.appendChild(this.svg);
+    this.container.appendChild(this.element);
+  }
+  
+  private createLayer(): SVGGElement {
+    const layer = document.createElementNS(SVG_NS, 'g');
+    layer.setAttribute('pointer-events', 'none');
+    return layer;
+  }
+  
+  public createTerritory(id: string, x: number, z: number, name: string): TerritoryView {
+    return new SvgTerritory(id, x, z, this.territories, name);
+  }
+  
+  // View the whole layout with a margin around it, and room for the editor
+  // to place territories on a small or empty map
+  public fitBoard(data: TerritoryData[]): void {
+    const fit = (values: number[]) => {
+      const min = Math.min(0, ...values);
+      const max = Math.max(0, ...values);
+      const half = Math.max(6, (max - min) / 2 + 2);
+      return [(min + max) / 2 - half, half * 2];
+    };
+    const [left, width] = fit(data.map(t => t.x));
+    const [top, height] = fit(data.map(t => t.z));
+    
+    this.svg.setAttribute('viewBox', `${left} ${top} ${width} ${height}`);
+    this.ground.setAttribute('x', String(left));
+    this.ground.setAttribute('y', String(top));
+    this.ground.setAttribute('width', String(width));
+    this.ground.setAttribute('height', String(height));
+  }
+  
+  // A stroke of water across the middle of each link that is a river
+  public showRivers(data: TerritoryData[]): void {
+    this.rivers.replaceChildren();
+    for (const territory of data) {
+      for (const neighborId of territory.rivers ?? []) {
+        // Draw each river once
+        if (neighborId < territory.id) continue;
+        
+        const neighbor = data.find(t => t.id === neighborId);
+        if (!neighbor) continue;
+        
+        const length = Math.hypot(neighbor.x - territory.x, neighbor.z - territory.z) || 1;
+        // Half the river's length along the perpendicular of the link
+        const dx = (-(neighbor.z - territory.z) / length) * 1.2;
+        const dz = ((neighbor.x - territory.x) / length) * 1.2;
+        const cx = (territory.x + neighbor.x) / 2;
+        const cz = (territory.z + neighbor.z) / 2;
+        this.rivers.appendChild(this.createLine(cx - dx, cz - dz, cx + dx, cz + dz, '#3a7bd5', 0.3));
+      }
+    }
+  }
+  
+  public showLinks(links: [TerritoryData, TerritoryData][]): void {
+    this.links.replaceChildren(...links.map(([a, b]) => this.createLine(a.x, a.z, b.x, b.z, 'white', 0.06)));
+  }
+  
+  private createLine(x1: number, z1: number, x2: number, z2: number, color: string, width: number): SVGLineElement {
+    const line = document.createElementNS(SVG_NS, 'line');
+    line.setAttribute('x1', String(x1));
+    line.setAttribute('y1', String(z1));
+    line.setAttribute('x2', String(x2));
+    line.setAttribute('y2', String(z2));
+    line.setAttribute('stroke', color);
+    line.setAttribute('stroke-width', String(width));
+    line.setAttribute('stroke-linecap', 'round');
+    return line;
+  }
+  
+  public pickTerritory(event: MouseEvent): string | null {
+    const target = document.elementFromPoint(event.clientX, event.clientY);
+    const group = target?.closest('[data-territory]');
+    return group && this.svg.contains(group) ? group.getAttribute('data-territory') : null;
+  }
+  
+  public pickGround(event: MouseEvent): { x: number; z: number } | null {
+    const matrix = this.svg.getScreenCTM();
+    if (!matrix) return null;
+    
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return { x: point.x, z: point.y };
+  }
+  
+  // The 2D view always shows the whole board
+  public setCameraEnabled(): void {}
+  
+  // The view box scales with the page
+  public resize(): void {}
+  
+  // Changes show as soon as they are made
+  public render(): void {}
+  
+  public dispose(): void {
+    this.element.remove();
+  }
+  
+  // Animations
+  
+  public addToken(color: number): AnimationSprite {
+    const token = document.createElementNS(SVG_NS, 'circle');
+    token.setAttribute('fill', cssColor(color));
+    token.setAttribute('stroke', 'black');
+    token.setAttribute('stroke-width', '0.04');
+    this.animations.appendChild(token);
+    
+    return {
+      // Higher tokens sit further up the screen and look bigger
+      setPosition: (x, y, z) => {
+        token.setAttribute('cx', String(x));
+        token.setAttribute('cy', String(z - y * HEIGHT_SHIFT));
+        token.setAttribute('r', String(0.18 * (1 + y * 0.1)));
+      },
+      setOpacity: opacity => token.setAttribute('opacity', String(opacity)),
+      remove: () => token.remove()
+    };
+  }
+  
+  public addNumber(change: number): AnimationSprite {
+    const text = document.createElementNS(SVG_NS, 'text');
+    text.textContent = change > 0 ? `+${change}` : `${change}`;
+    text.setAttribute('text-anchor', 'middle');
+    text.setAttribute('font-size', '0.6');
+    text.setAttribute('font-weight', 'bold');
+    text.setAttribute('fill', change > 0 ? '#7CFC7C' : '#FF5252');
+    text.setAttribute('stroke', 'black');
+    text.setAttribute('stroke-width', '0.06');
+    text.setAttribute('paint-order', 'stroke');
+    this.animations.appendChild(text);
+    
+    return {
+      setPosition: (x, y, z) => {
+        text.setAttribute('x', String(x));
+        text.setAttribute('y', String(z - y * HEIGHT_SHIFT * 2));
+      },
+      setOpacity: opacity => text.setAttribute('opacity', String(opacity)),
+      remove: () => text.remove()
+    };
+  }
+}
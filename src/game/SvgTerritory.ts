@@ -0,0 +1,220 @@
+import { Owner, TerritoryData } from './Board';
+import { NEUTRAL, NEUTRAL_COLOR } from './Faction';
+import { Terrain } from './Terrain';
+import { Highlight, HIGHLIGHT_COLORS, SELECTED_COLOR, TerritoryView } from './BoardRenderer';
+
+export const SVG_NS = 'http://www.w3.org/2000/svg';
+
+export function cssColor(color: number): string {
+  return `#${color.toString(16).padStart(6, '0')}`;
+}
+
+// Corners of the hexagon, turned the same way as the 3D prisms and a little
+// smaller so the board shows between the territories
+const HEX_POINTS = Array.from({ length: 6 }, (_, i) => {
+  const angle = (i * Math.PI) / 3;
+  return `${(Math.sin(angle) * 0.95).toFixed(3)},${(Math.cos(angle) * 0.95).toFixed(3)}`;
+}).join(' ');
+
+// A territory in the 2D view: a hexagon seen from above with its unit count
+export class SvgTerritory implements TerritoryView {
+  private group: SVGGElement;
+  private hex: SVGPolygonElement;
+  // White overlay for capture flashes
+  private glow: SVGPolygonElement;
+  private label: SVGTextElement;
+  private feature: SVGGElement | null = null;
+  private owner: Owner = NEUTRAL;
+  private units: number = 0;
+  private color: number = NEUTRAL_COLOR;
+  // Showing a last-seen count under fog of war
+  private stale: boolean = false;
+  private marker: string = '';
+  private terrain: Terrain = 'plains';
+  private selected: boolean = false;
+  private highlight: Highlight = null;
+  private flash: number = 0;
+  private position: { x: number; z: number };
+  
+  constructor(private id: string, x: number, z: number, private layer: SVGGElement, private name: string) {
+    this.group = document.createElementNS(SVG_NS, 'g');
+    // Picking finds the territory from any element inside the group
+    this.group.dataset.territory = id;
+    this.group.classList.add('territory');
+    
+    this.hex = document.createElementNS(SVG_NS, 'polygon');
+    this.hex.setAttribute('points', HEX_POINTS);
+    this.glow = document.createElementNS(SVG_NS, 'polygon');
+    this.glow.setAttribute('points', HEX_POINTS);
+    this.glow.setAttribute('fill', 'white');
+    this.glow.setAttribute('opacity', '0');
+    
+    this.label = document.createElementNS(SVG_NS, 'text');
+    this.label.setAttribute('text-anchor', 'middle');
+    this.label.setAttribute('dominant-baseline', 'central');
+    this.label.setAttribute('font-size', '0.6');
+    this.label.setAttribute('font-weight', 'bold');
+    this.label.setAttribute('stroke', 'black');
+    this.label.setAttribute('stroke-width', '0.04');
+    this.label.setAttribute('paint-order', 'stroke');
+    
+    const title = document.createElementNS(SVG_NS, 'title');
+    title.textContent = name;
+    this.group.append(title, this.hex, this.glow, this.label);
+    this.layer.appendChild(this.group);
+    
+    this.position = { x, z };
+    this.setPosition(x, z);
+    this.setColor(NEUTRAL_COLOR);
+    this.updateGlow();
+    this.updateText();
+  }
+  
+  public getId(): string {
+    return this.id;
+  }
+  
+  public getPosition(): { x: number; z: number } {
+    return this.position;
+  }
+  
+  public getName(): string {
+    return this.name;
+  }
+  
+  public setName(name: string): void {
+    this.name = name;
+    const title = this.group.querySelector('title');
+    if (title) {
+      title.textContent = name;
+    }
+  }
+  
+  public setPosition(x: number, z: number): void {
+    this.position = { x, z };
+    this.group.setAttribute('transform', `translate(${x} ${z})`);
+  }
+  
+  public getOwner(): Owner {
+    return this.owner;
+  }
+  
+  public getUnits(): number {
+    return this.units;
+  }
+  
+  public setOwner(owner: Owner, color: number = NEUTRAL_COLOR): void {
+    this.owner = owner;
+    this.setColor(color);
+  }
+  
+  public getColor(): number {
+    return this.color;
+  }
+  
+  public setColor(color: number): void {
+    this.color = color;
+    this.hex.setAttribute('fill', cssColor(color));
+  }
+  
+  public setFlash(intensity: number): void {
+    this.flash = intensity;
+    this.updateGlow();
+  }
+  
+  public setHighlight(highlight: Highlight): void {
+    if (highlight === this.highlight) return;
+    
+    this.highlight = highlight;
+    this.updateGlow();
+  }
+  
+  public setUnits(units: number): void {
+    this.units = Math.max(0, units);
+    this.updateText();
+  }
+  
+  public dispose(): void {
+    this.group.remove();
+  }
+  
+  public update(data: TerritoryData, color: number, stale: boolean = false): void {
+    if (data.owner !== this.owner) {
+      this.setOwner(data.owner, color);
+    }
+    if (data.units !== this.units || stale !== this.stale) {
+      this.stale = stale;
+      this.setUnits(data.units);
+    }
+    if ((data.terrain ?? 'plains') !== this.terrain) {
+      this.setTerrain(data.terrain ?? 'plains');
+    }
+  }
+  
+  public getTerrain(): Terrain {
+    return this.terrain;
+  }
+  
+  // Grey peaks for mountains and pale blocks for cities, beside the unit count like in 3D
+  public setTerrain(terrain: Terrain): void {
+    this.terrain = terrain;
+    this.feature?.remove();
+    this.feature = null;
+    if (terrain === 'plains') return;
+    
+    this.feature = document.createElementNS(SVG_NS, 'g');
+    this.feature.setAttribute('stroke', 'rgba(0, 0, 0, 0.5)');
+    this.feature.setAttribute('stroke-width', '0.03');
+    if (terrain === 'mountains') {
+      this.feature.setAttribute('fill', '#8a8580');
+      for (const [x, z, height] of [[-0.45, -0.5, 0.7], [0.2, -0.6, 0.5], [0.55, 0.45, 0.45]]) {
+        const peak = document.createElementNS(SVG_NS, 'polygon');
+        const h = height * 0.5;
+        peak.setAttribute('points', `${x - 0.22},${z + h / 2} ${x},${z - h / 2} ${x + 0.22},${z + h / 2}`);
+        this.feature.appendChild(peak);
+      }
+    } else {
+      this.feature.setAttribute('fill', '#e8e0d0');
+      for (const [x, z, height] of [[-0.35, 0.5, 0.45], [0, 0.6, 0.7], [0.35, 0.5, 0.35]]) {
+        const building = document.createElementNS(SVG_NS, 'rect');
+        const h = height * 0.5;
+        building.setAttribute('x', String(x - 0.11));
+        building.setAttribute('y', String(z - h / 2));
+        building.setAttribute('width', '0.22');
+        building.setAttribute('height', String(h));
+        this.feature.appendChild(building);
+      }
+    }
+    // Under the label so the count stays readable
+    this.group.insertBefore(this.feature, this.label);
+  }
+  
+  public isStale(): boolean {
+    return this.stale;
+  }
+  
+  public setMarker(marker: string): void {
+    if (marker === this.marker) return;
+    
+    this.marker = marker;
+    this.updateText();
+  }
+  
+  public setSelected(selected: boolean): void {
+    this.selected = selected;
+    this.updateGlow();
+  }
+  
+  // Selection outlines yellow over a move target highlight; flashes lighten the fill
+  private updateGlow(): void {
+    const outline = this.selected ? SELECTED_COLOR : this.highlight ? HIGHLIGHT_COLORS[this.highlight] : null;
+    this.hex.setAttribute('stroke', outline === null ? 'rgba(0, 0, 0, 0.35)' : cssColor(outline));
+    this.hex.setAttribute('stroke-width', outline === null ? '0.04' : '0.14');
+    this.glow.setAttribute('opacity', String(this.flash * 0.7));
+  }
+  
+  private updateText(): void {
+    this.label.textContent = this.marker + this.units.toString();
+    this.label.setAttribute('fill', this.stale ? '#888888' : 'white');
+  }
+}
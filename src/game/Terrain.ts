@@ -0,0 +1,77 @@
+import { Board, TerritoryData } from './Board';
+
+export type Terrain = 'plains' | 'mountains' | 'city';
+
+export interface TerrainInfo {
+  name: string;
+  // Multiplies the defense roll of the territory
+  defense: number;
+  // Extra reinforcements for whoever holds the territory
+  reinforcements: number;
+  // Shown in the legend
+  description: string;
+}
+
+export const TERRAIN: Record<Terrain, TerrainInfo> = {
+  plains: {
+    name: 'Plains',
+    defense: 1,
+    reinforcements: 0,
+    description: 'Open ground, no effect on combat'
+  },
+  mountains: {
+    name: 'Mountains',
+    defense: 1.25,
+    reinforcements: 0,
+    description: 'Defenders roll 25% higher'
+  },
+  city: {
+    name: 'City',
+    defense: 1,
+    reinforcements: 1,
+    description: '+1 reinforcement every turn for its owner'
+  }
+};
+
+export const TERRAIN_TYPES = Object.keys(TERRAIN) as Terrain[];
+
+// Only the terrain types themselves, not keys TERRAIN inherits such as "toString"
+export function isTerrain(value: unknown): value is Terrain {
+  return TERRAIN_TYPES.includes(value as Terrain);
+}
+
+// Attacks across a river roll this share of their strength
+export const RIVER_ATTACK = 0.8;
+export const RIVER_DESCRIPTION = 'Attacks across a river roll 20% lower';
+
+// Multipliers on the attack and defense rolls of one attack
+export interface CombatModifiers {
+  attack: number;
+  defense: number;
+}
+
+export const NO_MODIFIERS: CombatModifiers = { attack: 1, defense: 1 };
+
+export function getTerrain(territory: TerritoryData): Terrain {
+  return territory.terrain ?? 'plains';
+}
+
+export function getCombatModifiers(board: Board, fromId: string, toId: string): CombatModifiers {
+  return {
+    attack: board.crossesRiver(fromId, toId) ? RIVER_ATTACK : 1,
+    defense: TERRAIN[getTerrain(board.getTerritory(toId))].defense
+  };
+}
+
+// Lines explaining the terrain effects on an attack, e.g. for the odds tooltip
+export function describeCombatModifiers(board: Board, fromId: string, toId: string): string[] {
+  const lines: string[] = [];
+  if (board.crossesRiver(fromId, toId)) {
+    lines.push(RIVER_DESCRIPTION);
+  }
+  const terrain = TERRAIN[getTerrain(board.getTerritory(toId))];
+  if (terrain.defense !== 1) {
+    lines.push(`${terrain.name}: ${terrain.description.toLowerCase()}`);
+  }
+  return lines;
+}
@@ -1,16 +1,29 @@
 import * as THREE from 'three';
+import { Owner, TerritoryData } from './Board';
+import { NEUTRAL, NEUTRAL_COLOR } from './Faction';
+import { Terrain } from './Terrain';
+import { Highlight, HIGHLIGHT_COLORS, SELECTED_COLOR, TerritoryView } from './BoardRenderer';
 
-export type Owner = 'player' | 'ai' | 'neutral';
-
-export class Territory {
+// A territory in the three.js view: a hexagonal prism with its unit count on top
+export class Territory implements TerritoryView {
   private mesh: THREE.Mesh;
   private textMesh: THREE.Mesh;
-  private owner: Owner = 'neutral';
+  private owner: Owner = NEUTRAL;
   private units: number = 0;
+  // Showing a last-seen count under fog of war
+  private stale: boolean = false;
+  // Symbol drawn before the units, e.g. on capitals
+  private marker: string = '';
+  private terrain: Terrain = 'plains';
+  // Peaks or buildings on top of the hexagon, none on plains
+  private feature: THREE.Group | null = null;
   private selected: boolean = false;
+  private highlight: Highlight = null;
+  // Capture flash strength, 0 when there is none
+  private flash: number = 0;
   private position: THREE.Vector3;
   
-  constructor(x: number, z: number, private scene: THREE.Scene, private name: string) {
+  constructor(private id: string, x: number, z: number, private scene: THREE.Scene, private name: string) {
     // Create hexagonal territory
     const geometry = new THREE.CylinderGeometry(1, 1, 0.5, 6);
     const material = new THREE.MeshStandardMaterial({ 
@@ -23,6 +36,8 @@ export class Territory {
     this.mesh.position.set(x, 0.25, z);
     this.mesh.castShadow = true;
     this.mesh.receiveShadow = true;
+    // Lets the renderer tell which territory a picking ray hit
+    this.mesh.userData.territoryId = id;
     this.scene.add(this.mesh);
     
     // Store position for distance calculations
@@ -44,6 +59,10 @@ export class Territory {
     this.updateText();
   }
   
+  public getId(): string {
+    return this.id;
+  }
+  
   public getMesh(): THREE.Mesh {
     return this.mesh;
   }
@@ -56,6 +75,17 @@ export class Territory {
     return this.name;
   }
   
+  public setName(name: string): void {
+    this.name = name;
+  }
+  
+  public setPosition(x: number, z: number): void {
+    this.mesh.position.set(x, 0.25, z);
+    this.position.set(x, 0, z);
+    this.textMesh.position.set(x, this.mesh.position.y + 0.5, z);
+    this.feature?.position.set(x, 0.5, z);
+  }
+  
   public getOwner(): Owner {
     return this.owner;
   }
@@ -64,19 +94,34 @@ export class Territory {
     return this.units;
   }
   
-  public setOwner(owner: Owner): void {
+  public setOwner(owner: Owner, color: number = NEUTRAL_COLOR): void {
     this.owner = owner;
     
     // Update color based on owner
     const material = this.mesh.material as THREE.MeshStandardMaterial;
+    material.color.set(color);
+  }
+  
+  public getColor(): number {
+    return (this.mesh.material as THREE.MeshStandardMaterial).color.getHex();
+  }
+  
+  // Shown color only, e.g. while a capture sweeps it; setOwner sets the owner's color
+  public setColor(color: number): void {
+    (this.mesh.material as THREE.MeshStandardMaterial).color.set(color);
+  }
+  
+  // White glow for capture flashes, 0 turns it off; the selection highlight wins
+  public setFlash(intensity: number): void {
+    this.flash = intensity;
+    this.updateGlow();
+  }
+  
+  public setHighlight(highlight: Highlight): void {
+    if (highlight === this.highlight) return;
     
-    if (owner === 'player') {
-      material.color.set(0x4169E1); // Royal blue
-    } else if (owner === 'ai') {
-      material.color.set(0xDC143C); // Crimson
-    } else {
-      material.color.set(0xcccccc); // Gray
-    }
+    this.highlight = highlight;
+    this.updateGlow();
   }
   
   public setUnits(units: number): void {
@@ -84,21 +129,119 @@ export class Territory {
     this.updateText();
   }
   
+  // Remove the territory's meshes from the scene
+  public dispose(): void {
+    this.scene.remove(this.mesh);
+    this.scene.remove(this.textMesh);
+    this.mesh.geometry.dispose();
+    this.textMesh.geometry.dispose();
+    this.removeFeature();
+  }
+  
+  public isSelected(): boolean {
+    return this.selected;
+  }
+  
+  // Sync visuals with the board state; stale units are drawn greyed out
+  public update(data: TerritoryData, color: number, stale: boolean = false): void {
+    if (data.owner !== this.owner) {
+      this.setOwner(data.owner, color);
+    }
+    if (data.units !== this.units || stale !== this.stale) {
+      this.stale = stale;
+      this.setUnits(data.units);
+    }
+    if ((data.terrain ?? 'plains') !== this.terrain) {
+      this.setTerrain(data.terrain ?? 'plains');
+    }
+  }
+  
+  public getTerrain(): Terrain {
+    return this.terrain;
+  }
+  
+  // Mountains get grey peaks and a rough surface, cities a cluster of buildings.
+  // Features sit beside the unit count so they never hide it.
+  public setTerrain(terrain: Terrain): void {
+    this.terrain = terrain;
+    this.removeFeature();
+    
+    const material = this.mesh.material as THREE.MeshStandardMaterial;
+    material.roughness = terrain === 'mountains' ? 1 : 0.7;
+    material.metalness = terrain === 'city' ? 0.4 : 0.2;
+    if (terrain === 'plains') return;
+    
+    this.feature = new THREE.Group();
+    if (terrain === 'mountains') {
+      const rock = new THREE.MeshStandardMaterial({ color: 0x8a8580, roughness: 1, flatShading: true });
+      for (const [x, z, height] of [[-0.45, -0.5, 0.7], [0.2, -0.6, 0.5], [0.55, 0.45, 0.45]]) {
+        const peak = new THREE.Mesh(new THREE.ConeGeometry(0.25, height, 5), rock);
+        peak.position.set(x, height / 2, z);
+        peak.castShadow = true;
+        this.feature.add(peak);
+      }
+    } else {
+      const stone = new THREE.MeshStandardMaterial({ color: 0xe8e0d0, roughness: 0.5 });
+      for (const [x, z, height] of [[-0.35, 0.5, 0.45], [0, 0.6, 0.7], [0.35, 0.5, 0.35]]) {
+        const building = new THREE.Mesh(new THREE.BoxGeometry(0.22, height, 0.22), stone);
+        building.position.set(x, height / 2, z);
+        building.castShadow = true;
+        this.feature.add(building);
+      }
+    }
+    
+    this.feature.position.set(this.mesh.position.x, 0.5, this.mesh.position.z);
+    this.scene.add(this.feature);
+  }
+  
+  public isStale(): boolean {
+    return this.stale;
+  }
+  
+  public setMarker(marker: string): void {
+    if (marker === this.marker) return;
+    
+    this.marker = marker;
+    this.updateText();
+  }
+  
   public setSelected(selected: boolean): void {
     this.selected = selected;
-    
-    // Highlight selected territory
+    this.updateGlow();
+  }
+  
+  // Selection glows yellow, over a capture flash, over a move target highlight
+  private updateGlow(): void {
     const material = this.mesh.material as THREE.MeshStandardMaterial;
     
-    if (selected) {
-      material.emissive.set(0xffff00);
+    if (this.selected) {
+      material.emissive.set(SELECTED_COLOR);
       material.emissiveIntensity = 0.5;
+    } else if (this.flash > 0) {
+      material.emissive.set(0xffffff);
+      material.emissiveIntensity = this.flash;
+    } else if (this.highlight) {
+      material.emissive.set(HIGHLIGHT_COLORS[this.highlight]);
+      material.emissiveIntensity = 0.35;
     } else {
       material.emissive.set(0x000000);
       material.emissiveIntensity = 0;
     }
   }
   
+  private removeFeature(): void {
+    if (!this.feature) return;
+    
+    this.scene.remove(this.feature);
+    this.feature.traverse(object => {
+      if (object instanceof THREE.Mesh) {
+        object.geometry.dispose();
+        (object.material as THREE.Material).dispose();
+      }
+    });
+    this.feature = null;
+  }
+  
   private updateText(): void {
     // Update the text position to be above the territory
     const x = this.mesh.position.x;
@@ -115,11 +258,11 @@ export class Territory {
     canvas.width = 128;
     canvas.height = 64;
     
-    context.fillStyle = 'white';
+    context.fillStyle = this.stale ? '#888888' : 'white';
     context.font = 'bold 48px Arial';
     context.textAlign = 'center';
     context.textBaseline = 'middle';
-    context.fillText(this.units.toString(), canvas.width / 2, canvas.height / 2);
+    context.fillText(this.marker + this.units.toString(), canvas.width / 2, canvas.height / 2);
     
     // Create texture from canvas
     const texture = new THREE.CanvasTexture(canvas);
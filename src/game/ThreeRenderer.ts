@@ -0,0 +1,264 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { TerritoryData } from './Board';
+import { AnimationSprite, BoardRenderer, TerritoryView } from './BoardRenderer';
+import { Territory } from './Territory';
+
+// The 3D view: hexagonal prisms on a green plane under an orbiting camera
+export class ThreeRenderer implements BoardRenderer {
+  public readonly kind = 'webgl';
+  public readonly element: HTMLElement;
+  
+  private scene: THREE.Scene;
+  private camera: THREE.PerspectiveCamera;
+  private renderer: THREE.WebGLRenderer;
+  private controls: OrbitControls;
+  private raycaster: THREE.Raycaster;
+  private mouse: THREE.Vector2;
+  private ground: THREE.Mesh;
+  // Water across the links that are rivers
+  private rivers: THREE.Group | null = null;
+  private links: THREE.LineSegments | null = null;
+  private tokenGeometry = new THREE.SphereGeometry(0.18, 12, 8);
+  
+  // Whether the browser can create a WebGL context at all
+  public static isSupported(): boolean {
+    try {
+      const canvas = document.createElement('canvas');
+      return !!(window.WebGLRenderingContext && (canvas.getContext('webgl2') ?? canvas.getContext('webgl')));
+    } catch {
+      return false;
+    }
+  }
+  
+  constructor(private container: HTMLElement) {
+    // Initialize Three.js scene
+    this.scene = new THREE.Scene();
+    this.scene.background = new THREE.Color(0x87ceeb); // Sky blue background
+    
+    // Set up camera
+    this.camera = new THREE.PerspectiveCamera(
+      75,
+      window.innerWidth / window.innerHeight,
+      0.1,
+      1000
+    );
+    this.camera.position.set(0, 15, 15);
+    
+    // Set up renderer
+    this.renderer = new THREE.WebGLRenderer({ antialias: true });
+    this.renderer.setSize(window.innerWidth, window.innerHeight);
+    this.renderer.shadowMap.enabled = true;
+    this.element = this.renderer.domElement;
+    this.container.appendChild(this.element);
+    
+    // Set up controls
+    this.controls = new OrbitControls(this.camera, this.renderer.domElement);
+    this.controls.enableDamping = true;
+    this.controls.dampingFactor = 0.05;
+    this.controls.maxPolarAngle = Math.PI / 2 - 0.1; // Prevent going below the ground
+    
+    // Set up raycaster for mouse interaction
+    this.raycaster = new THREE.Raycaster();
+    this.mouse = new THREE.Vector2();
+    
+    // Set up lighting
+    this.setupLights();
+    
+    // Create ground
+    const groundGeometry = new THREE.PlaneGeometry(1, 1);
+    const groundMaterial = new THREE.MeshStandardMaterial({
+      color: 0x228B22,
+      roughness: 0.8,
+      metalness: 0.2
+    });
+    this.ground = new THREE.Mesh(groundGeometry, groundMaterial);
+    this.ground.rotation.x = -Math.PI / 2;
+    this.ground.receiveShadow = true;
+    this.scene.add(this.ground);
+  }
+  
+  private setupLights(): void {
+    // Ambient light
+    const ambientLight = new THREE.AmbientLight(0xffffff, 0.5);
+    this.scene.add(ambientLight);
+    
+    // Directional light (sun)
+    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
+    directionalLight.position.set(10, 20, 10);
+    directionalLight.castShadow = true;
+    directionalLight.shadow.mapSize.width = 2048;
+    directionalLight.shadow.mapSize.height = 2048;
+    directionalLight.shadow.camera.near = 0.5;
+    directionalLight.shadow.camera.far = 50;
+    directionalLight.shadow.camera.left = -20;
+    directionalLight.shadow.camera.right = 20;
+    directionalLight.shadow.camera.top = 20;
+    directionalLight.shadow.camera.bottom = -20;
+    this.scene.add(directionalLight);
+  }
+  
+  public createTerritory(id: string, x: number, z: number, name: string): TerritoryView {
+    return new Territory(id, x, z, this.scene, name);
+  }
+  
+  // Size the ground to the territory layout, with a margin around it
+  public fitBoard(data: TerritoryData[]): void {
+    const extent = Math.max(10, ...data.map(t => Math.max(Math.abs(t.x), Math.abs(t.z))));
+    const size = extent * 2 + 10;
+    this.ground.scale.set(size, size, 1);
+  }
+  
+  // Water on the ground halfway between each pair of river neighbors
+  public showRivers(data: TerritoryData[]): void {
+    if (this.rivers) {
+      this.scene.remove(this.rivers);
+      this.rivers.traverse(object => {
+        if (object instanceof THREE.Mesh) {
+          object.geometry.dispose();
+          (object.material as THREE.Material).dispose();
+        }
+      });
+    }
+    
+    this.rivers = new THREE.Group();
+    const material = new THREE.MeshStandardMaterial({ color: 0x3a7bd5, roughness: 0.2, metalness: 0.3 });
+    for (const territory of data) {
+      for (const neighborId of territory.rivers ?? []) {
+        // Draw each river once
+        if (neighborId < territory.id) continue;
+        
+        const neighbor = data.find(t => t.id === neighborId);
+        if (!neighbor) continue;
+        
+        const strip = new THREE.Mesh(new THREE.BoxGeometry(0.6, 0.04, 2.4), material);
+        strip.position.set((territory.x + neighbor.x) / 2, 0.02, (territory.z + neighbor.z) / 2);
+        // The strip's long side runs across the link between the two centers
+        strip.rotation.y = Math.atan2(neighbor.x - territory.x, neighbor.z - territory.z) + Math.PI / 2;
+        this.rivers.add(strip);
+      }
+    }
+    this.scene.add(this.rivers);
+  }
+  
+  public showLinks(links: [TerritoryData, TerritoryData][]): void {
+    if (this.links) {
+      this.scene.remove(this.links);
+      this.links.geometry.dispose();
+      this.links = null;
+    }
+    if (links.length === 0) return;
+    
+    const points = links.flatMap(([a, b]) => [new THREE.Vector3(a.x, 0.6, a.z), new THREE.Vector3(b.x, 0.6, b.z)]);
+    this.links = new THREE.LineSegments(
+      new THREE.BufferGeometry().setFromPoints(points),
+      new THREE.LineBasicMaterial({ color: 0xffffff })
+    );
+    this.scene.add(this.links);
+  }
+  
+  // Update the picking ray with the camera and mouse position
+  private updateRay(event: MouseEvent): void {
+    // Calculate mouse position in normalized device coordinates
+    this.mouse.x = (event.clientX / window.innerWidth) * 2 - 1;
+    this.mouse.y = -(event.clientY / window.innerHeight) * 2 + 1;
+    
+    this.raycaster.setFromCamera(this.mouse, this.camera);
+  }
+  
+  public pickTerritory(event: MouseEvent): string | null {
+    this.updateRay(event);
+    
+    // The nearest territory mesh along the ray; labels and terrain features do not count
+    const hit = this.raycaster.intersectObjects(this.scene.children, true)
+      .find(intersection => intersection.object.userData.territoryId !== undefined);
+    return hit ? hit.object.userData.territoryId : null;
+  }
+  
+  // Point on the ground plane (y = 0) under the mouse
+  public pickGround(event: MouseEvent): { x: number; z: number } | null {
+    this.updateRay(event);
+    
+    const plane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+    return this.raycaster.ray.intersectPlane(plane, new THREE.Vector3());
+  }
+  
+  public setCameraEnabled(enabled: boolean): void {
+    this.controls.enabled = enabled;
+  }
+  
+  public resize(): void {
+    this.camera.aspect = window.innerWidth / window.innerHeight;
+    this.camera.updateProjectionMatrix();
+    this.renderer.setSize(window.innerWidth, window.innerHeight);
+  }
+  
+  public render(): void {
+    // Update controls
+    this.controls.update();
+    
+    // Render scene
+    this.renderer.render(this.scene, this.camera);
+  }
+  
+  public dispose(): void {
+    this.controls.dispose();
+    this.renderer.dispose();
+    this.element.remove();
+  }
+  
+  // Animations
+  
+  public addToken(color: number): AnimationSprite {
+    const material = new THREE.MeshStandardMaterial({ color, emissive: color, emissiveIntensity: 0.4, transparent: true });
+    const token = new THREE.Mesh(this.tokenGeometry, material);
+    this.scene.add(token);
+    
+    return {
+      setPosition: (x, y, z) => token.position.set(x, y, z),
+      setOpacity: opacity => {
+        material.opacity = opacity;
+      },
+      remove: () => {
+        this.scene.remove(token);
+        material.dispose();
+      }
+    };
+  }
+  
+  // A number drawn on a canvas, on a sprite that always faces the camera
+  public addNumber(change: number): AnimationSprite {
+    const canvas = document.createElement('canvas');
+    canvas.width = 128;
+    canvas.height = 64;
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.font = 'bold 44px Arial';
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+      context.lineWidth = 6;
+      context.strokeStyle = 'black';
+      const text = change > 0 ? `+${change}` : `${change}`;
+      context.strokeText(text, canvas.width / 2, canvas.height / 2);
+      context.fillStyle = change > 0 ? '#7CFC7C' : '#FF5252';
+      context.fillText(text, canvas.width / 2, canvas.height / 2);
+    }
+    
+    const material = new THREE.SpriteMaterial({ map: new THREE.CanvasTexture(canvas), transparent: true, depthTest: false });
+    const sprite = new THREE.Sprite(material);
+    sprite.scale.set(1.6, 0.8, 1);
+    this.scene.add(sprite);
+    
+    return {
+      setPosition: (x, y, z) => sprite.position.set(x, y, z),
+      setOpacity: opacity => {
+        material.opacity = opacity;
+      },
+      remove: () => {
+        this.scene.remove(sprite);
+        material.map?.dispose();
+        material.dispose();
+      }
+    };
+  }
+}
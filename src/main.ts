@@ -1,39 +1,459 @@
 import './style.css';
-import { Game } from './game/Game';
+import { Game, MovePreview, PendingMove } from './game/Game';
+import { CaptureOdds } from './game/Combat';
+import { Random } from './game/Random';
+import { parseSave, SaveSlots } from './game/SaveGame';
+import { parseReplay, ReplayData, ReplayFrame, ReplayPlayer } from './game/Replay';
+import { parseMap, parseMapDraft } from './game/MapLoader';
+import { EditorTool, MapEditor } from './game/MapEditor';
+import { Owner } from './game/Board';
+import { createFactions, Faction, FACTION_ROSTER, findFaction, NEUTRAL } from './game/Faction';
+import { GameState } from './game/GameState';
+import { FactionSample, MatchStats } from './game/MatchStats';
+import { cssColor, SVG_NS } from './game/SvgTerritory';
+import { encodeMapCode, generateMap, MapLayout, normalizeMapOptions, parseMapCode } from './game/MapGenerator';
+import { Difficulty, DIFFICULTIES, DIFFICULTY_PRESETS } from './game/SearchAI';
+import { ANIMATION_SPEEDS } from './game/Animator';
+import { RENDERER_SETTINGS, RendererSetting } from './game/BoardRenderer';
+import { DEFAULT_VICTORY, describeVictory, RULE_SETS, RuleSet, validateRuleSet, VictoryCondition, VictoryType } from './game/RuleSet';
+import { RIVER_DESCRIPTION, Terrain, TERRAIN, TERRAIN_TYPES } from './game/Terrain';
+import { BUNDLED_MAPS } from './maps';
+import { NetworkClient } from './net/NetworkClient';
+import { DEFAULT_SERVER_URL, MAX_ROOM_SEATS, MIN_ROOM_SEATS, RoomInfo, RoomState } from './net/Protocol';
 
 // Initialize the game when the DOM is loaded
 document.addEventListener('DOMContentLoaded', () => {
   const gameContainer = document.getElementById('game-container') as HTMLElement;
-  const game = new Game(gameContainer);
+  // The chosen view is kept across visits
+  const RENDERER_KEY = 'teritory.renderer';
+  const storedRenderer = localStorage.getItem(RENDERER_KEY);
+  const game = new Game(gameContainer, storedRenderer && storedRenderer in RENDERER_SETTINGS ? storedRenderer as RendererSetting : 'auto');
   
   // Set up UI event listeners
   const startButton = document.getElementById('start-game') as HTMLButtonElement;
   const endTurnButton = document.getElementById('end-turn') as HTMLButtonElement;
+  const seedInput = document.getElementById('seed-input') as HTMLInputElement;
+  const undoableAttacksInput = document.getElementById('undoable-attacks') as HTMLInputElement;
+  const fogOfWarInput = document.getElementById('fog-of-war') as HTMLInputElement;
+  const undoButton = document.getElementById('undo') as HTMLButtonElement;
+  const redoButton = document.getElementById('redo') as HTMLButtonElement;
+  const animationSpeedSelect = document.getElementById('animation-speed') as HTMLSelectElement;
+  const skipAnimationsButton = document.getElementById('skip-animations') as HTMLButtonElement;
+  const rendererSelect = document.getElementById('renderer-select') as HTMLSelectElement;
   
-  startButton.addEventListener('click', () => {
-    game.start();
+  const mapSelect = document.getElementById('map-select') as HTMLSelectElement;
+  const playersSelect = document.getElementById('players') as HTMLSelectElement;
+  const opponentsSelect = document.getElementById('opponents') as HTMLSelectElement;
+  const difficultySelect = document.getElementById('difficulty') as HTMLSelectElement;
+  const passDevice = document.getElementById('pass-device') as HTMLDivElement;
+  const passTitle = document.getElementById('pass-title') as HTMLHeadingElement;
+  const passReady = document.getElementById('pass-ready') as HTMLButtonElement;
+  const openMapButton = document.getElementById('open-map') as HTMLButtonElement;
+  const mapFile = document.getElementById('map-file') as HTMLInputElement;
+  
+  updateSeed(game.getSeed());
+  
+  // Map selection
+  for (const map of BUNDLED_MAPS) {
+    const option = document.createElement('option');
+    option.value = map.id;
+    option.textContent = map.name;
+    option.title = map.description ?? '';
+    mapSelect.appendChild(option);
+  }
+  
+  mapSelect.addEventListener('change', () => {
+    const map = BUNDLED_MAPS.find(m => m.id === mapSelect.value);
+    if (map) {
+      game.loadMap(map);
+    }
+  });
+  
+  // Show the seats actually in use (a game needs at least two factions)
+  const syncFactionSelects = () => {
+    const factions = game.getFactions();
+    const humans = factions.filter(f => f.controller === 'human').length;
+    playersSelect.value = String(humans);
+    opponentsSelect.value = String(factions.length - humans);
+  };
+  
+  const changeFactions = () => {
+    game.setFactions(createFactions(Number(opponentsSelect.value), Number(playersSelect.value)));
+    syncFactionSelects();
+  };
+  playersSelect.addEventListener('change', changeFactions);
+  opponentsSelect.addEventListener('change', changeFactions);
+  
+  // AI strength: a local search preset, or the configured advisor's plans
+  for (const difficulty of DIFFICULTIES) {
+    const option = document.createElement('option');
+    option.value = difficulty;
+    option.textContent = `${DIFFICULTY_PRESETS[difficulty].label} AI`;
+    difficultySelect.appendChild(option);
+  }
+  const strategy = game.getStrategyProvider();
+  if (strategy) {
+    const option = document.createElement('option');
+    option.value = 'advisor';
+    option.textContent = 'Advisor AI';
+    option.title = strategy.name;
+    difficultySelect.appendChild(option);
+  }
+  difficultySelect.value = game.getDifficulty() ?? 'advisor';
+  
+  difficultySelect.addEventListener('change', () => {
+    const value = difficultySelect.value;
+    game.setDifficulty(value === 'advisor' ? null : value as Difficulty);
+  });
+  
+  for (const speed of ANIMATION_SPEEDS) {
+    const option = document.createElement('option');
+    option.value = String(speed);
+    option.textContent = speed === 0 ? 'No animations' : `Animations ${speed}x`;
+    animationSpeedSelect.appendChild(option);
+  }
+  animationSpeedSelect.value = String(game.getAnimationSpeed());
+  
+  animationSpeedSelect.addEventListener('change', () => game.setAnimationSpeed(Number(animationSpeedSelect.value)));
+  skipAnimationsButton.addEventListener('click', () => game.skipAnimations());
+  
+  // 3D or 2D board; the automatic choice names the view it picked
+  const updateRendererOptions = () => {
+    for (const option of Array.from(rendererSelect.options)) {
+      const setting = option.value as RendererSetting;
+      option.textContent = setting === 'auto'
+        ? `${RENDERER_SETTINGS.auto} (${game.getRendererKind() === 'webgl' ? '3D' : '2D'})`
+        : RENDERER_SETTINGS[setting];
+    }
+    rendererSelect.value = game.getRendererSetting();
+    rendererSelect.title = game.getRendererSetting() === 'webgl' && game.getRendererKind() !== 'webgl'
+      ? 'WebGL is not available, showing the 2D view'
+      : 'Board view';
+  };
+  for (const setting of Object.keys(RENDERER_SETTINGS)) {
+    const option = document.createElement('option');
+    option.value = setting;
+    rendererSelect.appendChild(option);
+  }
+  updateRendererOptions();
+  
+  rendererSelect.addEventListener('change', () => {
+    const setting = rendererSelect.value as RendererSetting;
+    localStorage.setItem(RENDERER_KEY, setting);
+    game.setRenderer(setting);
+    updateRendererOptions();
+  });
+  
+  // Hotseat: hide the board until the next human is at the device
+  game.events.on('turnStarted', ({ faction }) => {
+    if (faction.controller === 'ai') {
+      updateStatus(`${faction.name} is thinking...`);
+      return;
+    }
+    
+    updateStatus(turnStatus(game));
+    if (game.isHotseat() && !game.getGameState().gameOver) {
+      passTitle.textContent = `${faction.name}, it's your turn`;
+      passDevice.hidden = false;
+    }
+  });
+  
+  passReady.addEventListener('click', () => {
+    passDevice.hidden = true;
+  });
+  
+  // Procedural maps: a map code reproduces the exact same board
+  const genLayout = document.getElementById('gen-layout') as HTMLSelectElement;
+  const genSize = document.getElementById('gen-size') as HTMLInputElement;
+  const genCode = document.getElementById('gen-code') as HTMLInputElement;
+  const generateButton = document.getElementById('generate-map') as HTMLButtonElement;
+  
+  generateButton.addEventListener('click', () => {
+    const text = genCode.value.trim();
+    const options = normalizeMapOptions(parseMapCode(text) ?? {
+      layout: genLayout.value as MapLayout,
+      size: Number(genSize.value),
+      seed: text ? Random.parseSeed(text) : Random.generateSeed(),
+      factions: game.getFactions().length
+    });
+    
+    game.loadMap(generateMap(options));
+    // The requested size, not the territory count, reproduces the map
+    genLayout.value = options.layout;
+    genSize.value = String(options.size);
+    genCode.value = encodeMapCode(options);
+  });
+  
+  setupMapEditor(game);
+  setupOnlinePlay(game);
+  setupUnitPicker(game);
+  setupMoveTooltip(game);
+  setupStats(game, () => {
+    endTurnButton.disabled = false;
+    updateSeed(game.getSeed());
+    updateStatus(`Game started! ${turnStatus(game)}`);
+  });
+  setupTerrainLegend();
+  
+  openMapButton.addEventListener('click', () => mapFile.click());
+  
+  mapFile.addEventListener('change', async () => {
+    const file = mapFile.files?.[0];
+    mapFile.value = '';
+    if (!file) return;
+    
+    try {
+      game.loadMap(parseMap(await file.text()));
+    } catch (error) {
+      addMessage(`Could not open map: ${(error as Error).message}`);
+    }
+  });
+  
+  // Start Game opens the setup screen, which starts the game with the rule set picked there
+  const openSetup = setupRuleSetScreen(ruleSet => {
+    const seedText = seedInput.value.trim();
+    game.start(seedText ? Random.parseSeed(seedText) : undefined, {
+      undoableAttacks: undoableAttacksInput.checked,
+      fogOfWar: fogOfWarInput.checked,
+      ruleSet
+    });
     startButton.disabled = true;
+    seedInput.disabled = true;
+    undoableAttacksInput.disabled = true;
+    fogOfWarInput.disabled = true;
+    mapSelect.disabled = true;
+    playersSelect.disabled = true;
+    opponentsSelect.disabled = true;
+    difficultySelect.disabled = true;
+    openMapButton.disabled = true;
+    generateButton.disabled = true;
     endTurnButton.disabled = false;
-    updateStatus('Game started! Your turn.');
+    updateSeed(game.getSeed());
+    updateStatus(`Game started! ${turnStatus(game)}`);
   });
+  startButton.addEventListener('click', () => openSetup(game.getRulesOptions().ruleSet));
   
   endTurnButton.addEventListener('click', () => {
     endTurnButton.disabled = true;
-    updateStatus('AI is thinking...');
     game.endPlayerTurn().then(() => {
-      endTurnButton.disabled = false;
-      updateStatus('Your turn.');
+      endTurnButton.disabled = game.getGameState().gameOver;
+      updateStatus(turnStatus(game));
     });
   });
   
-  // Update UI with game state
-  game.onStateChange = (state) => {
-    updateScore(state.playerUnits, state.aiUnits);
+  // Save/load controls
+  const saveSlots = new SaveSlots();
+  const slotSelect = document.getElementById('save-slot') as HTMLSelectElement;
+  const saveButton = document.getElementById('save-game') as HTMLButtonElement;
+  const loadButton = document.getElementById('load-game') as HTMLButtonElement;
+  const exportButton = document.getElementById('export-game') as HTMLButtonElement;
+  const importButton = document.getElementById('import-game') as HTMLButtonElement;
+  const importFile = document.getElementById('import-file') as HTMLInputElement;
+  
+  const refreshSlots = () => {
+    const saved = new Map(saveSlots.list().map(info => [info.slot, info.savedAt]));
+    for (const option of Array.from(slotSelect.options)) {
+      const savedAt = saved.get(option.value);
+      option.textContent = savedAt
+        ? `Slot ${option.value} (${new Date(savedAt).toLocaleString()})`
+        : `Slot ${option.value} (empty)`;
+    }
+  };
+  
+  // Sync the controls after a game has been loaded
+  const onGameLoaded = () => {
+    const state = game.getGameState();
+    startButton.disabled = state.gameStarted;
+    seedInput.disabled = state.gameStarted;
+    undoableAttacksInput.disabled = state.gameStarted;
+    undoableAttacksInput.checked = game.getRulesOptions().undoableAttacks;
+    fogOfWarInput.disabled = state.gameStarted;
+    fogOfWarInput.checked = game.getRulesOptions().fogOfWar;
+    mapSelect.disabled = state.gameStarted;
+    playersSelect.disabled = state.gameStarted;
+    opponentsSelect.disabled = state.gameStarted;
+    difficultySelect.disabled = state.gameStarted;
+    syncFactionSelects();
+    openMapButton.disabled = state.gameStarted;
+    generateButton.disabled = state.gameStarted;
+    endTurnButton.disabled = !state.gameStarted || state.gameOver;
+    updateSeed(game.getSeed());
+    updateStatus(turnStatus(game));
+  };
+  
+  refreshSlots();
+  
+  // Saves and exports resume on the turn they were made in
+  const canSave = (): boolean => {
+    const reason = game.checkSave();
+    if (reason) {
+      addMessage(reason);
+    }
+    return reason === null;
+  };
+  
+  saveButton.addEventListener('click', () => {
+    if (!canSave()) return;
+    saveSlots.save(slotSelect.value, game.toSaveData());
+    refreshSlots();
+    addMessage(`Game saved to slot ${slotSelect.value}`);
+  });
+  
+  loadButton.addEventListener('click', () => {
+    try {
+      game.loadSaveData(saveSlots.load(slotSelect.value));
+      onGameLoaded();
+    } catch (error) {
+      addMessage(`Could not load: ${(error as Error).message}`);
+    }
+  });
+  
+  exportButton.addEventListener('click', () => {
+    if (!canSave()) return;
+    const json = JSON.stringify(game.toSaveData(), null, 2);
+    downloadFile(`territory-save-${Date.now()}.json`, json);
+  });
+  
+  importButton.addEventListener('click', () => importFile.click());
+  
+  importFile.addEventListener('change', async () => {
+    const file = importFile.files?.[0];
+    importFile.value = '';
+    if (!file) return;
+    
+    try {
+      game.loadSaveData(parseSave(await file.text()));
+      onGameLoaded();
+    } catch (error) {
+      addMessage(`Could not import: ${(error as Error).message}`);
+    }
+  });
+  
+  // Replay controls
+  const watchReplayButton = document.getElementById('watch-replay') as HTMLButtonElement;
+  const exportReplayButton = document.getElementById('export-replay') as HTMLButtonElement;
+  const importReplayButton = document.getElementById('import-replay') as HTMLButtonElement;
+  const importReplayFile = document.getElementById('import-replay-file') as HTMLInputElement;
+  const replayBar = document.getElementById('replay-bar') as HTMLDivElement;
+  const replayBack = document.getElementById('replay-back') as HTMLButtonElement;
+  const replayPlay = document.getElementById('replay-play') as HTMLButtonElement;
+  const replayForward = document.getElementById('replay-forward') as HTMLButtonElement;
+  const replaySpeed = document.getElementById('replay-speed') as HTMLSelectElement;
+  const replayExit = document.getElementById('replay-exit') as HTMLButtonElement;
+  const replayScrub = document.getElementById('replay-scrub') as HTMLInputElement;
+  const replayInfo = document.getElementById('replay-info') as HTMLDivElement;
+  let replayPlayer: ReplayPlayer | null = null;
+  let endTurnWasDisabled = false;
+  
+  const openReplay = (replay?: ReplayData) => {
+    const player = game.startReplay(replay);
+    if (!player) {
+      addMessage('No replay available yet');
+      return;
+    }
+    
+    replayPlayer = player;
+    replayPlayer.setSpeed(Number(replaySpeed.value));
+    replayPlayer.onPlayingChange = (playing) => {
+      replayPlay.textContent = playing ? 'Pause' : 'Play';
+    };
+    replayScrub.max = String(replayPlayer.getFrameCount() - 1);
+    replayBar.hidden = false;
+    endTurnWasDisabled = endTurnButton.disabled;
+    endTurnButton.disabled = true;
+    updateStatus('Watching replay');
   };
   
-  game.onMessage = (message) => {
-    addMessage(message);
+  game.onReplayFrame = (index, frame) => {
+    replayScrub.value = String(index);
+    replayInfo.textContent = describeReplayFrame(frame, replayPlayer?.getReplay().factions ?? game.getFactions());
   };
+  
+  watchReplayButton.addEventListener('click', () => openReplay());
+  
+  exportReplayButton.addEventListener('click', () => {
+    const replay = game.getReplay();
+    if (!replay) {
+      addMessage('No replay available yet');
+      return;
+    }
+    downloadFile(`territory-replay-${Date.now()}.json`, JSON.stringify(replay));
+  });
+  
+  importReplayButton.addEventListener('click', () => importReplayFile.click());
+  
+  importReplayFile.addEventListener('change', async () => {
+    const file = importReplayFile.files?.[0];
+    importReplayFile.value = '';
+    if (!file) return;
+    
+    try {
+      openReplay(parseReplay(await file.text()));
+    } catch (error) {
+      addMessage(`Could not import replay: ${(error as Error).message}`);
+    }
+  });
+  
+  replayPlay.addEventListener('click', () => {
+    if (replayPlayer?.isPlaying()) {
+      replayPlayer.pause();
+    } else {
+      replayPlayer?.play();
+    }
+  });
+  replayBack.addEventListener('click', () => replayPlayer?.step(-1));
+  replayForward.addEventListener('click', () => replayPlayer?.step(1));
+  replaySpeed.addEventListener('change', () => replayPlayer?.setSpeed(Number(replaySpeed.value)));
+  replayScrub.addEventListener('input', () => replayPlayer?.seek(Number(replayScrub.value)));
+  
+  replayExit.addEventListener('click', () => {
+    game.stopReplay();
+    replayPlayer = null;
+    replayBar.hidden = true;
+    replayPlay.textContent = 'Play';
+    endTurnButton.disabled = endTurnWasDisabled;
+    updateStatus(turnStatus(game));
+  });
+  
+  // Undo/redo controls
+  undoButton.addEventListener('click', () => game.undo());
+  redoButton.addEventListener('click', () => game.redo());
+  
+  document.addEventListener('keydown', (event) => {
+    const typing = event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement || event.target instanceof HTMLButtonElement;
+    if (event.key === ' ' && !typing) {
+      event.preventDefault();
+      game.skipAnimations();
+      return;
+    }
+    if (!(event.ctrlKey || event.metaKey) || event.target instanceof HTMLInputElement) {
+      return;
+    }
+    
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+      event.preventDefault();
+      game.undo();
+    } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+      event.preventDefault();
+      game.redo();
+    }
+  });
+  
+  // Update UI with game state
+  game.events.on('stateChanged', ({ state }) => {
+    updateScore(game.getFactions(), state, game.getFogViewer());
+    updateVictory(game.getRulesOptions().ruleSet.victory, state);
+    updateReinforcements(state.gameStarted && !state.gameOver && game.isLocalTurn() ? state.reinforcements : 0);
+    updateRegions(game);
+    undoButton.disabled = !game.canUndo();
+    redoButton.disabled = !game.canRedo();
+    if (game.isOnline()) {
+      endTurnButton.disabled = !state.gameStarted || state.gameOver || !game.isLocalTurn();
+    }
+  });
+  
+  game.events.on('message', ({ text }) => addMessage(text));
 });
 
 function updateStatus(message: string) {
@@ -43,11 +463,735 @@ function updateStatus(message: string) {
   }
 }
 
-function updateScore(playerUnits: number, aiUnits: number) {
+// Status line for whoever is to move
+function turnStatus(game: Game): string {
+  if (game.getGameState().gameOver) return 'Game over.';
+  
+  const name = game.getCurrentFaction().name;
+  if (game.isOnline()) {
+    return game.isLocalTurn() ? 'Your turn.' : `Waiting for ${name}...`;
+  }
+  return game.isHotseat() ? `${name}'s turn.` : 'Your turn.';
+}
+
+function updateSeed(seed: number) {
+  const seedElement = document.getElementById('seed');
+  if (seedElement) {
+    seedElement.textContent = `Seed: ${seed}`;
+  }
+}
+
+// Under fog of war the viewer only gets the territory counts of the other factions
+function updateScore(factions: Faction[], state: GameState, viewer: Owner | null) {
   const scoreElement = document.getElementById('score');
   if (scoreElement) {
-    scoreElement.textContent = `Your Units: ${playerUnits} | AI Units: ${aiUnits}`;
+    scoreElement.textContent = factions.map(faction => {
+      const stats = state.factionStats[faction.id];
+      if (stats?.eliminated) return `${faction.name}: out`;
+      if (viewer && faction.id !== viewer) return `${faction.name}: ${stats?.territories ?? 0} territories`;
+      return `${faction.name}: ${stats?.units ?? 0}`;
+    }).join(' | ');
+  }
+}
+
+function updateVictory(victory: VictoryCondition, state: GameState) {
+  const element = document.getElementById('victory');
+  if (element) {
+    const round = victory.type === 'turnLimit' && state.gameStarted ? ` (round ${state.turnNumber}/${victory.rounds})` : '';
+    element.textContent = `Goal: ${describeVictory(victory)}${round}`;
+  }
+}
+
+// Rule set picker shown before a game starts: presets, each number editable,
+// and the victory condition. Returns the function that opens it.
+function setupRuleSetScreen(onStart: (ruleSet: RuleSet) => void): (current: RuleSet) => void {
+  const screen = document.getElementById('setup-screen') as HTMLDivElement;
+  const presetSelect = document.getElementById('rule-set') as HTMLSelectElement;
+  const victoryType = document.getElementById('victory-type') as HTMLSelectElement;
+  const victoryValue = document.getElementById('victory-value') as HTMLInputElement;
+  const startingUnits = document.getElementById('rule-starting-units') as HTMLInputElement;
+  const variance = document.getElementById('rule-variance') as HTMLInputElement;
+  const attackerLoss = document.getElementById('rule-attacker-loss') as HTMLInputElement;
+  const defenderLoss = document.getElementById('rule-defender-loss') as HTMLInputElement;
+  const perReinforcement = document.getElementById('rule-per-reinforcement') as HTMLInputElement;
+  const minReinforcements = document.getElementById('rule-min-reinforcements') as HTMLInputElement;
+  const aiActions = document.getElementById('rule-ai-actions') as HTMLInputElement;
+  const errors = document.getElementById('setup-errors') as HTMLDivElement;
+  const startButton = document.getElementById('setup-start') as HTMLButtonElement;
+  const cancelButton = document.getElementById('setup-cancel') as HTMLButtonElement;
+  
+  for (const ruleSet of RULE_SETS) {
+    presetSelect.add(new Option(ruleSet.name, ruleSet.id));
+  }
+  presetSelect.add(new Option('Custom', 'custom'));
+  
+  const showVictoryValue = () => {
+    const type = victoryType.value as VictoryType;
+    victoryValue.hidden = type !== 'domination' && type !== 'turnLimit';
+    victoryValue.title = type === 'domination' ? 'Share of the territories (%)' : 'Rounds';
+  };
+  
+  const fill = (ruleSet: RuleSet) => {
+    presetSelect.value = RULE_SETS.some(r => r.id === ruleSet.id) ? ruleSet.id : 'custom';
+    startingUnits.value = String(ruleSet.startingUnits);
+    variance.value = String(Math.round(ruleSet.combatVariance * 100));
+    attackerLoss.value = String(Math.round(ruleSet.attackerLossOnFailure * 100));
+    defenderLoss.value = String(Math.round(ruleSet.defenderLossOnFailure * 100));
+    perReinforcement.value = String(ruleSet.territoriesPerReinforcement);
+    minReinforcements.value = String(ruleSet.minReinforcements);
+    aiActions.value = String(ruleSet.aiActionsPerTurn);
+    victoryType.value = ruleSet.victory.type;
+    victoryValue.value = ruleSet.victory.type === 'domination' ? String(ruleSet.victory.percent)
+      : ruleSet.victory.type === 'turnLimit' ? String(ruleSet.victory.rounds) : '';
+    showVictoryValue();
+    errors.textContent = '';
+  };
+  
+  const read = (): RuleSet => {
+    const type = victoryType.value as VictoryType;
+    const value = Number(victoryValue.value);
+    const victory: VictoryCondition = type === 'domination' ? { type, percent: value }
+      : type === 'turnLimit' ? { type, rounds: value } : DEFAULT_VICTORY[type];
+    const preset = RULE_SETS.find(r => r.id === presetSelect.value);
+    return {
+      id: preset?.id ?? 'custom',
+      name: preset?.name ?? 'Custom',
+      startingUnits: Number(startingUnits.value),
+      combatVariance: Number(variance.value) / 100,
+      attackerLossOnFailure: Number(attackerLoss.value) / 100,
+      defenderLossOnFailure: Number(defenderLoss.value) / 100,
+      territoriesPerReinforcement: Number(perReinforcement.value),
+      minReinforcements: Number(minReinforcements.value),
+      aiActionsPerTurn: Number(aiActions.value),
+      victory
+    };
+  };
+  
+  presetSelect.addEventListener('change', () => {
+    const preset = RULE_SETS.find(r => r.id === presetSelect.value);
+    if (preset) fill(preset);
+  });
+  victoryType.addEventListener('change', () => {
+    const type = victoryType.value as VictoryType;
+    const victory = DEFAULT_VICTORY[type];
+    victoryValue.value = victory.type === 'domination' ? String(victory.percent)
+      : victory.type === 'turnLimit' ? String(victory.rounds) : '';
+    showVictoryValue();
+  });
+  // Editing any number turns the preset into a custom rule set
+  screen.addEventListener('input', (event) => {
+    if (event.target !== presetSelect) {
+      presetSelect.value = 'custom';
+    }
+  });
+  
+  startButton.addEventListener('click', () => {
+    const ruleSet = read();
+    const problems = validateRuleSet(ruleSet);
+    if (problems.length > 0) {
+      errors.textContent = problems.join('\n');
+      return;
+    }
+    screen.hidden = true;
+    onStart(ruleSet);
+  });
+  cancelButton.addEventListener('click', () => {
+    screen.hidden = true;
+  });
+  
+  return (current) => {
+    fill(current);
+    screen.hidden = false;
+  };
+}
+
+// Counter for the placement phase of the local player's turn
+function updateReinforcements(units: number) {
+  const element = document.getElementById('reinforcements');
+  if (element) {
+    element.hidden = units === 0;
+    element.textContent = `Reinforcements to place: ${units} (shift-click places all)`;
+  }
+}
+
+function updateRegions(game: Game) {
+  const element = document.getElementById('regions');
+  if (element) {
+    element.textContent = game.getRegionHolders()
+      .map(({ region, holder }) => `${region.name} (+${region.bonus}): ${holder ? holder.name : '-'}`)
+      .join(' | ');
+  }
+}
+
+// One entry per terrain and for rivers, the effect in a tooltip
+function setupTerrainLegend() {
+  const element = document.getElementById('terrain-legend');
+  if (!element) return;
+  
+  const symbols: Record<string, string> = { plains: '⬡', mountains: '▲', city: '▦', river: '≈' };
+  const entries = [
+    ...TERRAIN_TYPES.map(terrain => ({ symbol: symbols[terrain], ...TERRAIN[terrain] })),
+    { symbol: symbols.river, name: 'River', description: RIVER_DESCRIPTION }
+  ];
+  for (const entry of entries) {
+    const item = document.createElement('span');
+    item.textContent = `${entry.symbol} ${entry.name}`;
+    item.title = entry.description;
+    element.appendChild(item);
+  }
+}
+
+// e.g. "Win chance 63.4%, 2.1 survivors expected"
+function describeOdds(odds: CaptureOdds): string {
+  const chance = `Win chance ${(odds.chance * 100).toFixed(1)}%`;
+  return odds.chance > 0 ? `${chance}, ${odds.survivors.toFixed(1)} survivors expected` : chance;
+}
+
+// Follows the pointer over a target of the selected territory with what the move would do
+function setupMoveTooltip(game: Game) {
+  const tooltip = document.getElementById('move-tooltip') as HTMLDivElement;
+  
+  game.onMovePreview = (preview: MovePreview | null) => {
+    tooltip.hidden = !preview;
+    if (!preview) return;
+    
+    const lines = preview.odds
+      ? [`Attack ${preview.toName} with ${preview.units} units`, describeOdds(preview.odds), ...preview.modifiers]
+      : [`Move ${preview.units} units to ${preview.toName}`];
+    tooltip.replaceChildren(...lines.map((line, i) => {
+      const row = document.createElement('div');
+      row.textContent = line;
+      // Terrain effects after the odds
+      if (i > 1) row.className = 'move-tooltip-modifier';
+      return row;
+    }));
+    tooltip.style.left = `${preview.x + 16}px`;
+    tooltip.style.top = `${preview.y + 16}px`;
+  };
+}
+
+// Lines over the turns, all scaled to the largest value
+function createChart(series: { color: number; values: number[] }[], width: number, height: number): SVGSVGElement {
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('width', String(width));
+  svg.setAttribute('height', String(height));
+  svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  
+  const max = Math.max(1, ...series.flatMap(s => s.values));
+  for (const { color, values } of series) {
+    // A single turn draws as a flat line
+    const points = values.length === 1 ? [values[0], values[0]] : values;
+    const line = document.createElementNS(SVG_NS, 'polyline');
+    line.setAttribute('points', points.map((value, i) => {
+      const x = (i / (points.length - 1)) * (width - 2) + 1;
+      const y = height - 1 - (value / max) * (height - 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    }).join(' '));
+    line.setAttribute('fill', 'none');
+    line.setAttribute('stroke', cssColor(color));
+    line.setAttribute('stroke-width', '2');
+    svg.appendChild(line);
+  }
+  return svg;
+}
+
+// Per-turn history: sparklines while playing and a summary with charts when the game ends
+function setupStats(game: Game, onRematch: () => void) {
+  const panel = document.getElementById('stats-panel') as HTMLDivElement;
+  const summary = document.getElementById('summary-screen') as HTMLDivElement;
+  const title = document.getElementById('summary-title') as HTMLHeadingElement;
+  const reason = document.getElementById('summary-reason') as HTMLParagraphElement;
+  const charts = document.getElementById('summary-charts') as HTMLDivElement;
+  const table = document.getElementById('summary-table') as HTMLTableElement;
+  const highlights = document.getElementById('summary-highlights') as HTMLUListElement;
+  const rematchButton = document.getElementById('summary-rematch') as HTMLButtonElement;
+  const closeButton = document.getElementById('summary-close') as HTMLButtonElement;
+  
+  const stats = new MatchStats();
+  stats.attach(game.events);
+  
+  const factionName = (id: string) => findFaction(game.getFactions(), id)?.name ?? (id === NEUTRAL ? 'Neutral' : id);
+  
+  // Sparklines follow the score line: under fog of war only territories for the other factions
+  game.events.on('stateChanged', ({ state }) => {
+    panel.hidden = !state.gameStarted || stats.getSamples().length === 0;
+    if (panel.hidden) return;
+    
+    const viewer = game.getFogViewer();
+    panel.replaceChildren(...game.getFactions().map(faction => {
+      const key: keyof FactionSample = viewer && faction.id !== viewer ? 'territories' : 'units';
+      const values = stats.getSeries(faction.id, key);
+      const row = document.createElement('div');
+      row.className = 'stats-row';
+      const name = document.createElement('span');
+      name.textContent = faction.name;
+      name.style.color = cssColor(faction.color);
+      const value = document.createElement('span');
+      value.textContent = `${values[values.length - 1] ?? 0} ${key}`;
+      row.append(name, createChart([{ color: faction.color, values }], 80, 20), value);
+      return row;
+    }));
+    
+    // An undone attack can take a win back
+    if (!state.gameOver) {
+      summary.hidden = true;
+    }
+  });
+  
+  game.events.on('gameOver', ({ winner, reason: text }) => {
+    const factions = game.getFactions();
+    title.textContent = winner ? `${factionName(winner)} wins!` : 'Game over';
+    reason.textContent = `${text}.`;
+    
+    charts.replaceChildren(...(['units', 'territories'] as const).map(key => {
+      const chart = document.createElement('div');
+      chart.className = 'summary-chart';
+      const heading = document.createElement('div');
+      heading.textContent = key === 'units' ? 'Units' : 'Territories';
+      chart.append(heading, createChart(factions.map(f => ({ color: f.color, values: stats.getSeries(f.id, key) })), 300, 100));
+      return chart;
+    }));
+    
+    const last = stats.getSamples()[stats.getSamples().length - 1];
+    const headings = ['Faction', 'Units', 'Territories', 'Attacks won', 'Attacks lost', 'Units lost'];
+    const rows = factions.map(faction => {
+      const sample = last?.factions[faction.id];
+      return [faction.name, sample?.units, sample?.territories, sample?.attacksWon, sample?.attacksLost, sample?.unitsLost]
+        .map(value => String(value ?? 0));
+    });
+    table.replaceChildren(...[headings, ...rows].map((cells, i) => {
+      const row = document.createElement('tr');
+      for (const text of cells) {
+        const cell = document.createElement(i === 0 ? 'th' : 'td');
+        cell.textContent = text;
+        row.appendChild(cell);
+      }
+      if (i > 0) {
+        row.style.color = cssColor(factions[i - 1].color);
+      }
+      return row;
+    }));
+    
+    const lines: string[] = [`Played ${stats.getRounds()} rounds`];
+    const battle = stats.getBiggestBattle();
+    if (battle) {
+      lines.push(`Biggest battle: ${factionName(battle.side)} attacked ${battle.toName} (${factionName(battle.defender)}) ` +
+        `from ${battle.fromName} with ${battle.units} units in round ${battle.round}, ` +
+        `${battle.losses} units lost, ${battle.captured ? 'captured' : 'held'}`);
+    }
+    const turningPoint = stats.getTurningPoint();
+    if (turningPoint) {
+      lines.push(`Turning point: round ${turningPoint.round}, when ${factionName(turningPoint.leader)} took the lead in territories for good`);
+    } else if (winner && stats.getSamples().length > 1) {
+      lines.push(`${factionName(winner)} led from start to finish`);
+    }
+    highlights.replaceChildren(...lines.map(line => {
+      const item = document.createElement('li');
+      item.textContent = line;
+      return item;
+    }));
+    
+    // Online rematches are up to the server
+    rematchButton.hidden = game.isOnline() || game.isReplaying();
+    summary.hidden = false;
+  });
+  
+  rematchButton.addEventListener('click', () => {
+    summary.hidden = true;
+    game.rematch();
+    onRematch();
+  });
+  closeButton.addEventListener('click', () => {
+    summary.hidden = true;
+  });
+}
+
+// Picks the units for an attack or transfer once its source and target are chosen
+function setupUnitPicker(game: Game) {
+  const picker = document.getElementById('unit-picker') as HTMLDivElement;
+  const title = document.getElementById('unit-picker-title') as HTMLDivElement;
+  const range = document.getElementById('unit-range') as HTMLInputElement;
+  const count = document.getElementById('unit-count') as HTMLInputElement;
+  const oddsLine = document.getElementById('unit-picker-odds') as HTMLDivElement;
+  const confirmButton = document.getElementById('unit-confirm') as HTMLButtonElement;
+  const cancelButton = document.getElementById('unit-cancel') as HTMLButtonElement;
+  
+  let max = 1;
+  let pending: PendingMove | null = null;
+  const setUnits = (units: number) => {
+    const value = Math.min(max, Math.max(1, Math.round(units) || 1));
+    range.value = String(value);
+    count.value = String(value);
+    // Attacks show the odds for the count picked
+    oddsLine.hidden = pending?.type !== 'attack';
+    if (pending?.type === 'attack') {
+      oddsLine.textContent = describeOdds(game.getAttackOdds(pending.from, pending.to, value));
+    }
+  };
+  
+  game.onPendingMove = (move) => {
+    picker.hidden = !move;
+    pending = move;
+    if (!move) return;
+    
+    max = move.max;
+    range.max = String(max);
+    count.max = String(max);
+    setUnits(move.units);
+    title.textContent = move.type === 'attack'
+      ? `Attack ${move.toName} from ${move.fromName} (up to ${max} units)`
+      : `Move units from ${move.fromName} to ${move.toName} (up to ${max})`;
+    count.focus();
+    count.select();
+  };
+  
+  range.addEventListener('input', () => setUnits(Number(range.value)));
+  count.addEventListener('change', () => setUnits(Number(count.value)));
+  confirmButton.addEventListener('click', () => {
+    setUnits(Number(count.value));
+    game.confirmMove(Number(count.value));
+  });
+  cancelButton.addEventListener('click', () => game.cancelMove());
+  
+  // While the picker is open the scroll wheel changes the count instead of zooming
+  window.addEventListener('wheel', (event) => {
+    if (picker.hidden) return;
+    
+    event.preventDefault();
+    event.stopPropagation();
+    setUnits(Number(count.value) + (event.deltaY < 0 ? 1 : -1));
+  }, { capture: true, passive: false });
+  
+  document.addEventListener('keydown', (event) => {
+    if (picker.hidden) return;
+    
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      confirmButton.click();
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      game.cancelMove();
+    } else if (event.target !== count && event.target !== range && (event.key === 'ArrowUp' || event.key === 'ArrowRight')) {
+      setUnits(Number(count.value) + 1);
+    } else if (event.target !== count && event.target !== range && (event.key === 'ArrowDown' || event.key === 'ArrowLeft')) {
+      setUnits(Number(count.value) - 1);
+    }
+  });
+}
+
+function setupMapEditor(game: Game) {
+  const editButton = document.getElementById('edit-map') as HTMLButtonElement;
+  const panel = document.getElementById('editor-panel') as HTMLDivElement;
+  const toolButtons = Array.from(panel.querySelectorAll<HTMLButtonElement>('button[data-tool]'));
+  const mapName = document.getElementById('editor-map-name') as HTMLInputElement;
+  const territoryFields = document.getElementById('editor-territory') as HTMLDivElement;
+  const nameInput = document.getElementById('editor-name') as HTMLInputElement;
+  const ownerSelect = document.getElementById('editor-owner') as HTMLSelectElement;
+  const unitsInput = document.getElementById('editor-units') as HTMLInputElement;
+  const terrainSelect = document.getElementById('editor-terrain') as HTMLSelectElement;
+  const validateButton = document.getElementById('editor-validate') as HTMLButtonElement;
+  const newButton = document.getElementById('editor-new') as HTMLButtonElement;
+  const exportButton = document.getElementById('editor-export') as HTMLButtonElement;
+  const importButton = document.getElementById('editor-import') as HTMLButtonElement;
+  const importFile = document.getElementById('editor-import-file') as HTMLInputElement;
+  const applyButton = document.getElementById('editor-apply') as HTMLButtonElement;
+  const cancelButton = document.getElementById('editor-cancel') as HTMLButtonElement;
+  const errors = document.getElementById('editor-errors') as HTMLDivElement;
+  // Controls that must stay off while editing
+  const gameControls = ['start-game', 'map-select', 'players', 'opponents', 'difficulty', 'open-map', 'generate-map']
+    .map(id => document.getElementById(id) as HTMLButtonElement | HTMLSelectElement);
+  
+  const editor = () => game.getEditor()!;
+  
+  // Starts can be given to any faction; those not in the game turn neutral
+  for (const faction of FACTION_ROSTER) {
+    const option = document.createElement('option');
+    option.value = faction.id;
+    option.textContent = faction.name;
+    ownerSelect.appendChild(option);
+  }
+  for (const terrain of TERRAIN_TYPES) {
+    const option = document.createElement('option');
+    option.value = terrain;
+    option.textContent = TERRAIN[terrain].name;
+    terrainSelect.appendChild(option);
+  }
+  
+  const showErrors = (list: string[]) => {
+    errors.textContent = list.length > 0 ? list.join('\n') : 'Map is valid';
+  };
+  
+  const refresh = () => {
+    const editing = game.isEditing();
+    panel.hidden = !editing;
+    editButton.disabled = editing || game.getGameState().gameStarted;
+    for (const control of gameControls) {
+      control.disabled = editing || game.getGameState().gameStarted;
+    }
+    if (!editing) return;
+    
+    for (const button of toolButtons) {
+      button.classList.toggle('active', button.dataset.tool === game.getEditorTool());
+    }
+    
+    // Don't overwrite fields while the user is typing in them
+    if (document.activeElement !== mapName) {
+      mapName.value = editor().getMap().name;
+    }
+    
+    const selection = game.getEditorSelection();
+    territoryFields.hidden = !selection;
+    if (selection) {
+      const territory = editor().getTerritory(selection);
+      if (document.activeElement !== nameInput) nameInput.value = territory.name;
+      ownerSelect.value = territory.owner ?? NEUTRAL;
+      if (document.activeElement !== unitsInput) unitsInput.value = String(territory.units ?? 0);
+      terrainSelect.value = territory.terrain ?? 'plains';
+    }
+  };
+  
+  game.onEditorChange = refresh;
+  
+  editButton.addEventListener('click', () => {
+    game.enterEditor();
+    errors.textContent = '';
+  });
+  
+  for (const button of toolButtons) {
+    button.addEventListener('click', () => game.setEditorTool(button.dataset.tool as EditorTool));
+  }
+  
+  mapName.addEventListener('input', () => editor().setMapName(mapName.value));
+  
+  nameInput.addEventListener('input', () => {
+    const selection = game.getEditorSelection();
+    if (selection) editor().renameTerritory(selection, nameInput.value);
+  });
+  
+  const updateStart = () => {
+    const selection = game.getEditorSelection();
+    if (selection) {
+      editor().setStart(selection, ownerSelect.value as Owner, Number(unitsInput.value) || 0);
+    }
+  };
+  ownerSelect.addEventListener('change', updateStart);
+  unitsInput.addEventListener('input', updateStart);
+  
+  terrainSelect.addEventListener('change', () => {
+    const selection = game.getEditorSelection();
+    if (selection) editor().setTerrain(selection, terrainSelect.value as Terrain);
+  });
+  
+  validateButton.addEventListener('click', () => showErrors(editor().validate()));
+  
+  newButton.addEventListener('click', () => {
+    game.exitEditor(false);
+    game.enterEditor(MapEditor.createBlank().getMap());
+    errors.textContent = '';
+  });
+  
+  exportButton.addEventListener('click', () => {
+    const map = editor().getMap();
+    downloadFile(`${map.id}.json`, editor().toJSON());
+  });
+  
+  importButton.addEventListener('click', () => importFile.click());
+  
+  importFile.addEventListener('change', async () => {
+    const file = importFile.files?.[0];
+    importFile.value = '';
+    if (!file) return;
+    
+    try {
+      // Maps that break the rules can still be opened here so they can be fixed
+      const map = parseMapDraft(await file.text());
+      game.exitEditor(false);
+      game.enterEditor(map);
+      showErrors(editor().validate());
+    } catch (error) {
+      errors.textContent = `Could not import: ${(error as Error).message}`;
+    }
+  });
+  
+  applyButton.addEventListener('click', () => {
+    const problems = editor().validate();
+    if (problems.length > 0) {
+      showErrors(problems);
+      return;
+    }
+    game.exitEditor(true);
+  });
+  
+  cancelButton.addEventListener('click', () => game.exitEditor(false));
+}
+
+function setupOnlinePlay(game: Game) {
+  const serverUrl = document.getElementById('server-url') as HTMLInputElement;
+  const playerName = document.getElementById('player-name') as HTMLInputElement;
+  const connectButton = document.getElementById('connect') as HTMLButtonElement;
+  const lobby = document.getElementById('lobby') as HTMLDivElement;
+  const roomSeats = document.getElementById('room-seats') as HTMLSelectElement;
+  const createButton = document.getElementById('create-room') as HTMLButtonElement;
+  const refreshButton = document.getElementById('refresh-rooms') as HTMLButtonElement;
+  const roomIdInput = document.getElementById('room-id') as HTMLInputElement;
+  const joinButton = document.getElementById('join-room') as HTMLButtonElement;
+  const leaveButton = document.getElementById('leave-room') as HTMLButtonElement;
+  const roomList = document.getElementById('room-list') as HTMLDivElement;
+  const roomInfo = document.getElementById('room-info') as HTMLDivElement;
+  const mapSelect = document.getElementById('map-select') as HTMLSelectElement;
+  // Controls of the local game that must stay off while playing online
+  const localControls = ['start-game', 'map-select', 'players', 'opponents', 'difficulty', 'open-map', 'edit-map',
+    'generate-map', 'seed-input', 'undoable-attacks', 'fog-of-war', 'load-game', 'import-game']
+    .map(id => document.getElementById(id) as HTMLButtonElement | HTMLInputElement | HTMLSelectElement);
+  
+  let client: NetworkClient | null = null;
+  
+  serverUrl.value = DEFAULT_SERVER_URL;
+  for (let seats = MIN_ROOM_SEATS; seats <= MAX_ROOM_SEATS; seats++) {
+    const option = document.createElement('option');
+    option.value = String(seats);
+    option.textContent = `${seats} players`;
+    roomSeats.appendChild(option);
+  }
+  
+  const setInRoom = (inRoom: boolean) => {
+    for (const control of localControls) {
+      control.disabled = inRoom;
+    }
+    createButton.disabled = inRoom;
+    joinButton.disabled = inRoom;
+    leaveButton.disabled = !inRoom;
+    if (!inRoom) {
+      roomInfo.textContent = '';
+    }
+  };
+  
+  const renderRooms = (rooms: RoomInfo[]) => {
+    roomList.replaceChildren(...rooms.filter(room => !room.started).map(room => {
+      const button = document.createElement('button');
+      button.textContent = `${room.id}: ${room.mapName} (${room.players}/${room.seats})`;
+      button.addEventListener('click', () => client?.joinRoom(room.id, playerName.value));
+      return button;
+    }));
+    if (rooms.length === 0) {
+      roomList.textContent = 'No open rooms';
+    }
+  };
+  
+  const renderRoom = (state: RoomState) => {
+    const seats = state.seats.map(seat => {
+      if (!seat.taken) return 'Open seat';
+      
+      const you = seat.factionId === game.getOnlineFaction() ? ' (you)' : '';
+      return `${seat.name}${you}${seat.connected ? '' : ' - disconnected'}`;
+    });
+    const taken = state.seats.filter(s => s.taken).length;
+    roomInfo.textContent = [`Room ${state.roomId} on ${state.mapName}`, ...seats].join('\n');
+    updateStatus(state.started ? turnStatus(game) : `Waiting for players (${taken}/${state.seats.length})`);
+  };
+  
+  const leave = () => {
+    if (!game.isOnline()) return;
+    
+    game.leaveOnlineGame();
+    setInRoom(false);
+    updateStatus('Waiting to start...');
+  };
+  
+  connectButton.addEventListener('click', async () => {
+    if (client) {
+      client.disconnect();
+      client = null;
+      leave();
+      lobby.hidden = true;
+      connectButton.textContent = 'Play Online';
+      return;
+    }
+    
+    const connection = new NetworkClient(serverUrl.value.trim());
+    connection.onConnectionChange = (connected) => {
+      addMessage(connected ? 'Connected to the server' : 'Lost the connection to the server, reconnecting...');
+    };
+    connection.onRooms = renderRooms;
+    connection.onJoined = (roomId, factionId) => {
+      game.joinOnlineGame(connection, factionId);
+      setInRoom(true);
+      addMessage(`Joined room ${roomId}`);
+    };
+    connection.onState = (state) => {
+      game.applyRoomState(state);
+      renderRoom(state);
+    };
+    connection.onUpdate = (update) => game.applyRoomUpdate(update);
+    connection.onError = (message) => addMessage(`Server: ${message}`);
+    
+    try {
+      await connection.connect();
+    } catch (error) {
+      // Don't keep retrying a server that was never reached
+      connection.disconnect();
+      addMessage((error as Error).message);
+      return;
+    }
+    
+    client = connection;
+    lobby.hidden = false;
+    connectButton.textContent = 'Disconnect';
+    client.listRooms();
+  });
+  
+  createButton.addEventListener('click', () => {
+    client?.createRoom(playerName.value, mapSelect.value, Number(roomSeats.value));
+  });
+  refreshButton.addEventListener('click', () => client?.listRooms());
+  joinButton.addEventListener('click', () => client?.joinRoom(roomIdInput.value, playerName.value));
+  leaveButton.addEventListener('click', () => {
+    client?.leaveRoom();
+    leave();
+    client?.listRooms();
+  });
+}
+
+function describeReplayFrame(frame: ReplayFrame, factions: Faction[]): string {
+  const event = frame.event;
+  const name = (side: Owner) => findFaction(factions, side)?.name ?? side;
+  let title: string;
+  
+  switch (event.kind) {
+    case 'start':
+      title = `Game start (seed ${event.seed})`;
+      break;
+    case 'turn':
+      title = `${name(event.side)} turn`;
+      break;
+    case 'strategy':
+      title = `${name(event.side)} strategy`;
+      break;
+    case 'move':
+      title = `${name(event.side)} ${event.type}`;
+      break;
+    case 'reinforce':
+      title = `${name(event.side)} reinforcements (+${event.units})`;
+      break;
+    case 'place':
+      title = `${name(event.side)} placement (+${event.units})`;
+      break;
+    case 'gameOver':
+      title = event.winner ? `Game over, ${name(event.winner)} wins` : 'Game over';
+      break;
   }
+  
+  return [`Turn ${frame.turnNumber}: ${title}`, ...frame.messages].join('\n');
+}
+
+function downloadFile(filename: string, contents: string) {
+  const blob = new Blob([contents], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
 }
 
 function addMessage(message: string) {
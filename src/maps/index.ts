@@ -0,0 +1,7 @@
+import { loadMap, MapDefinition } from '../game/MapLoader';
+import classic from './classic.json';
+import bridges from './bridges.json';
+import crossroads from './crossroads.json';
+
+// Maps that ship with the game, the first one is the default
+export const BUNDLED_MAPS: MapDefinition[] = [classic, bridges, crossroads].map(map => loadMap(map));
@@ -0,0 +1,186 @@
+import { Owner } from '../game/Board';
+import { ClientMessage, RoomInfo, RoomState, ServerMessage } from './Protocol';
+
+type RoomUpdate = Extract<ServerMessage, { type: 'update' }>;
+
+interface Session {
+  url: string;
+  roomId: string;
+  token: string;
+}
+
+// Connection to the multiplayer server. Keeps the seat token so a dropped
+// connection (or a page reload) can resume the same seat.
+export class NetworkClient {
+  public onConnectionChange: (connected: boolean) => void = () => {};
+  public onRooms: (rooms: RoomInfo[]) => void = () => {};
+  public onJoined: (roomId: string, factionId: Owner) => void = () => {};
+  public onState: (state: RoomState) => void = () => {};
+  public onUpdate: (update: RoomUpdate) => void = () => {};
+  public onError: (message: string) => void = () => {};
+  
+  private socket: WebSocket | null = null;
+  private session: Session | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectDelay = NetworkClient.MIN_RECONNECT_DELAY;
+  private closed = false;
+  
+  private static readonly SESSION_KEY = 'teritory.session';
+  private static readonly MIN_RECONNECT_DELAY = 500;
+  private static readonly MAX_RECONNECT_DELAY = 10000;
+  
+  constructor(private url: string, private storage: Storage = window.sessionStorage) {
+    try {
+      const session = JSON.parse(this.storage.getItem(NetworkClient.SESSION_KEY) || 'null');
+      if (session && session.url === url) {
+        this.session = session;
+      }
+    } catch {
+      // Ignore an unreadable session
+    }
+  }
+  
+  public isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+  
+  // Resolves once connected; resumes the stored seat if there is one
+  public connect(): Promise<void> {
+    this.closed = false;
+    
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      this.socket = socket;
+      
+      socket.onopen = () => {
+        this.reconnectDelay = NetworkClient.MIN_RECONNECT_DELAY;
+        this.onConnectionChange(true);
+        if (this.session) {
+          this.send({ type: 'resume', roomId: this.session.roomId, token: this.session.token });
+        }
+        resolve();
+      };
+      
+      socket.onmessage = (event) => {
+        try {
+          this.receive(JSON.parse(event.data));
+        } catch (error) {
+          console.error('Bad message from server:', error);
+        }
+      };
+      
+      socket.onerror = () => reject(new Error(`Could not connect to ${this.url}`));
+      
+      socket.onclose = () => {
+        if (this.socket !== socket) return;
+        
+        this.socket = null;
+        this.onConnectionChange(false);
+        if (!this.closed) {
+          this.scheduleReconnect();
+        }
+      };
+    });
+  }
+  
+  public disconnect(): void {
+    this.closed = true;
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+  
+  // Lobby
+  
+  public listRooms(): void {
+    this.send({ type: 'listRooms' });
+  }
+  
+  public createRoom(playerName: string, mapId: string, seats: number): void {
+    this.send({ type: 'createRoom', playerName, mapId, seats });
+  }
+  
+  public joinRoom(roomId: string, playerName: string): void {
+    this.send({ type: 'joinRoom', roomId, playerName });
+  }
+  
+  // Gives the seat up for good: the server forfeits it once the game has started
+  public leaveRoom(): void {
+    this.send({ type: 'leaveRoom' });
+    this.setSession(null);
+  }
+  
+  // Move intents; the server answers with an update or an error
+  
+  public attack(from: string, to: string, units: number): void {
+    this.send({ type: 'attack', from, to, units });
+  }
+  
+  public transfer(from: string, to: string, units: number): void {
+    this.send({ type: 'transfer', from, to, units });
+  }
+  
+  public place(territory: string, units: number): void {
+    this.send({ type: 'place', territory, units });
+  }
+  
+  public endTurn(): void {
+    this.send({ type: 'endTurn' });
+  }
+  
+  private send(message: ClientMessage): void {
+    if (!this.isConnected()) {
+      this.onError('Not connected to the server');
+      return;
+    }
+    this.socket!.send(JSON.stringify(message));
+  }
+  
+  private receive(message: ServerMessage): void {
+    switch (message.type) {
+      case 'rooms':
+        this.onRooms(message.rooms);
+        break;
+      case 'joined':
+        this.setSession({ url: this.url, roomId: message.roomId, token: message.token });
+        this.onJoined(message.roomId, message.factionId);
+        break;
+      case 'state':
+        this.onState(message.state);
+        break;
+      case 'update':
+        this.onUpdate(message);
+        break;
+      case 'error':
+        // The stored seat is gone, e.g. the server restarted
+        if (this.session && (message.message === 'Unknown seat' || message.message.startsWith('No room'))) {
+          this.setSession(null);
+        }
+        this.onError(message.message);
+        break;
+    }
+  }
+  
+  private setSession(session: Session | null): void {
+    this.session = session;
+    if (session) {
+      this.storage.setItem(NetworkClient.SESSION_KEY, JSON.stringify(session));
+    } else {
+      this.storage.removeItem(NetworkClient.SESSION_KEY);
+    }
+  }
+  
+  // Retry with a growing delay until the server is back
+  private scheduleReconnect(): void {
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch(() => {
+        // onclose schedules the next attempt
+      });
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(NetworkClient.MAX_RECONNECT_DELAY, this.reconnectDelay * 2);
+  }
+}
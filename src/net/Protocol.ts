@@ -0,0 +1,71 @@
+import { Owner, Region, TerritoryData } from '../game/Board';
+import { Faction } from '../game/Faction';
+import { TerritorySnapshot } from '../game/Replay';
+
+// Messages exchanged with the multiplayer server (server/), sent as JSON text frames
+
+export const DEFAULT_SERVER_URL = 'ws://localhost:8787';
+
+export const MIN_ROOM_SEATS = 2;
+export const MAX_ROOM_SEATS = 6;
+
+export interface RoomInfo {
+  id: string;
+  mapName: string;
+  players: number;
+  seats: number;
+  started: boolean;
+}
+
+export interface SeatInfo {
+  factionId: Owner;
+  name: string;
+  // Whether a player has taken the seat
+  taken: boolean;
+  connected: boolean;
+}
+
+// Everything a client needs to show a room, sent on join and reconnect
+export interface RoomState {
+  roomId: string;
+  mapName: string;
+  factions: Faction[];
+  seats: SeatInfo[];
+  territories: TerritoryData[];
+  regions: Region[];
+  started: boolean;
+  currentTurn: Owner;
+  turnNumber: number;
+  // Units the current faction still has to place
+  reinforcements: number;
+  winner: Owner | null;
+}
+
+export type ClientMessage =
+  | { type: 'listRooms' }
+  | { type: 'createRoom'; playerName: string; mapId: string; seats: number }
+  | { type: 'joinRoom'; roomId: string; playerName: string }
+  // Take a seat back after a dropped connection
+  | { type: 'resume'; roomId: string; token: string }
+  | { type: 'leaveRoom' }
+  | { type: 'attack'; from: string; to: string; units: number }
+  | { type: 'transfer'; from: string; to: string; units: number }
+  | { type: 'place'; territory: string; units: number }
+  | { type: 'endTurn' };
+
+export type ServerMessage =
+  | { type: 'rooms'; rooms: RoomInfo[] }
+  // The seat this connection plays; the token is needed to resume it
+  | { type: 'joined'; roomId: string; factionId: Owner; token: string }
+  | { type: 'state'; state: RoomState }
+  // Territories that changed since the last update, plus the turn afterwards
+  | {
+      type: 'update';
+      territories: TerritorySnapshot[];
+      currentTurn: Owner;
+      turnNumber: number;
+      reinforcements: number;
+      winner: Owner | null;
+      messages: string[];
+    }
+  | { type: 'error'; message: string };
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 'chat', 'rules' or 'none'; see .env.example
+  readonly VITE_STRATEGY_PROVIDER?: string;
+  readonly VITE_LLM_BASE_URL?: string;
+  readonly VITE_LLM_MODEL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
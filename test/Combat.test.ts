@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getAttackOdds, getCaptureOdds, getFailedAttackUnits } from '../src/game/Combat';
+import { Board } from '../src/game/Board';
+import { CLASSIC_RULE_SET } from '../src/game/RuleSet';
+import { territory } from './fixtures';
+
+const EXACT = { ...CLASSIC_RULE_SET, combatVariance: 0 };
+
+describe('getCaptureOdds', () => {
+  it('gives the exact odds of classic 3 against 2', () => {
+    // Attack rolls 2 or 3, defense 1 or 2, each half the time
+    const odds = getCaptureOdds(3, 2);
+    assert.ok(Math.abs(odds.chance - 0.75) < 1e-9);
+    assert.ok(Math.abs(odds.survivors - 5 / 3) < 1e-9);
+  });
+  
+  it('needs a strictly higher roll without variance', () => {
+    assert.deepEqual(getCaptureOdds(5, 5, EXACT), { chance: 0, survivors: 0 });
+    assert.deepEqual(getCaptureOdds(6, 5, EXACT), { chance: 1, survivors: 3 });
+    assert.deepEqual(getCaptureOdds(1, 0, EXACT), { chance: 1, survivors: 1 });
+  });
+  
+  it('applies the terrain modifiers to the rolls', () => {
+    assert.equal(getCaptureOdds(4, 4, EXACT, { attack: 1, defense: 1.25 }).chance, 0);
+    assert.deepEqual(getCaptureOdds(5, 3, EXACT, { attack: 0.8, defense: 1 }), { chance: 1, survivors: 2 });
+  });
+  
+  it('takes the river and terrain from the board', () => {
+    const board = new Board([
+      { ...territory('a', 'player', 6, ['b']), rivers: ['b'] },
+      { ...territory('b', 'ai', 4, ['a']), terrain: 'mountains', rivers: ['a'] }
+    ]);
+    assert.deepEqual(getAttackOdds(board, 'a', 'b', 5, EXACT), getCaptureOdds(5, 4, EXACT, { attack: 0.8, defense: 1.25 }));
+  });
+});
+
+describe('getFailedAttackUnits', () => {
+  it('returns what is left of both sides', () => {
+    assert.deepEqual(getFailedAttackUnits(5, 10), { attacker: 3, defender: 7 });
+    assert.deepEqual(getFailedAttackUnits(1, 1), { attacker: 1, defender: 1 });
+  });
+});
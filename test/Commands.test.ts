@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AttackCommand, TurnLog } from '../src/game/Commands';
+import { createLine, createRules } from './fixtures';
+
+describe('TurnLog', () => {
+  it('undoes an attack exactly and redoes it with the same rolls', () => {
+    const rules = createRules(createLine([8, 6, 3, 4]), { undoableAttacks: true });
+    const log = new TurnLog();
+    const before = JSON.stringify(rules.getBoard().getTerritories());
+    
+    const command = new AttackCommand(rules, 'player', 'a', 'b', 7);
+    log.execute(command);
+    const result = command.result;
+    const after = JSON.stringify(rules.getBoard().getTerritories());
+    
+    assert.equal(log.undo(), command);
+    assert.equal(JSON.stringify(rules.getBoard().getTerritories()), before);
+    
+    assert.equal(log.redo(), command);
+    assert.deepEqual(command.result, result);
+    assert.equal(JSON.stringify(rules.getBoard().getTerritories()), after);
+  });
+  
+  it('keeps attacks final unless they are undoable', () => {
+    const rules = createRules(createLine([8, 6, 3, 4]));
+    const log = new TurnLog();
+    log.execute(new AttackCommand(rules, 'player', 'a', 'b', 7));
+    
+    assert.equal(log.canUndo(), false);
+    assert.equal(log.undo(), null);
+  });
+  
+  it('forgets what an undone attack revealed under fog of war', () => {
+    const rules = createRules(createLine([20, 1, 3, 4]), { undoableAttacks: true, fogOfWar: true });
+    const log = new TurnLog();
+    // The AI reinforces C out of the player's sight
+    rules.getBoard().getTerritory('c').units = 9;
+    rules.notifyChanged();
+    assert.equal(rules.getView('player').getTerritory('c').units, 3);
+    
+    // Capturing B puts C next to the player
+    log.execute(new AttackCommand(rules, 'player', 'a', 'b', 19));
+    assert.equal(rules.getBoard().getTerritory('b').owner, 'player');
+    assert.equal(rules.getView('player').getTerritory('c').units, 9);
+    
+    log.undo();
+    assert.equal(rules.getView('player').getTerritory('c').units, 3);
+    assert.equal(rules.getFog()!.getLastSeen('player', 'c'), 3);
+    
+    // Redoing the capture shows C again
+    log.redo();
+    assert.equal(rules.getView('player').getTerritory('c').units, 9);
+  });
+});
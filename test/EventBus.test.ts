@@ -0,0 +1,54 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventBus } from '../src/game/EventBus';
+
+interface TestEvents {
+  ping: { n: number };
+  pong: { text: string };
+}
+
+describe('EventBus', () => {
+  it('calls the listeners of an event in the order they subscribed', () => {
+    const bus = new EventBus<TestEvents>();
+    const calls: string[] = [];
+    bus.on('ping', ({ n }) => calls.push(`first ${n}`));
+    bus.on('ping', ({ n }) => calls.push(`second ${n}`));
+    bus.on('pong', ({ text }) => calls.push(text));
+    
+    bus.emit('ping', { n: 1 });
+    assert.deepEqual(calls, ['first 1', 'second 1']);
+  });
+  
+  it('stops calling a listener once it unsubscribes, also during an emit', () => {
+    const bus = new EventBus<TestEvents>();
+    const calls: number[] = [];
+    const off = bus.on('ping', ({ n }) => {
+      calls.push(n);
+      off();
+    });
+    bus.on('ping', ({ n }) => calls.push(n * 10));
+    
+    bus.emit('ping', { n: 1 });
+    bus.emit('ping', { n: 2 });
+    assert.deepEqual(calls, [1, 10, 20]);
+  });
+  
+  it('keeps calling the other listeners when one throws', () => {
+    const bus = new EventBus<TestEvents>();
+    const error = mock.method(console, 'error', () => {});
+    const calls: string[] = [];
+    bus.on('pong', () => {
+      throw new Error('broken');
+    });
+    bus.on('pong', ({ text }) => calls.push(text));
+    
+    try {
+      bus.emit('pong', { text: 'still heard' });
+    } finally {
+      error.mock.restore();
+    }
+    assert.deepEqual(calls, ['still heard']);
+    assert.equal(error.mock.callCount(), 1);
+    assert.equal(error.mock.calls[0].arguments[0], 'Error in pong listener:');
+  });
+});
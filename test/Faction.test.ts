@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFactions, FACTION_ROSTER, nextInTurnOrder } from '../src/game/Faction';
+
+describe('createFactions', () => {
+  it('seats the humans first, then the AI factions, in roster order', () => {
+    const factions = createFactions(2, 2);
+    assert.deepEqual(factions.map(f => [f.id, f.name, f.controller]), [
+      ['player', 'Player 1', 'human'],
+      ['ai', 'Player 2', 'human'],
+      ['ai2', 'AI', 'ai'],
+      ['ai3', 'AI 2', 'ai']
+    ]);
+  });
+  
+  it('seats at least two and at most the whole roster', () => {
+    assert.deepEqual(createFactions(0).map(f => f.controller), ['human', 'ai']);
+    assert.equal(createFactions(20).length, FACTION_ROSTER.length);
+  });
+});
+
+describe('nextInTurnOrder', () => {
+  const factions = createFactions(4);
+  const none = () => false;
+  
+  it('passes the turn around all factions and wraps into a new round', () => {
+    const order = [0];
+    for (let i = 0; i < factions.length; i++) {
+      order.push(nextInTurnOrder(factions, order[order.length - 1], none));
+    }
+    assert.deepEqual(order, [0, 1, 2, 3, 4, 0]);
+  });
+  
+  it('skips eliminated factions, also across the wrap', () => {
+    const out = new Set(['ai', 'ai4']);
+    const eliminated = (id: string) => out.has(id);
+    
+    assert.equal(nextInTurnOrder(factions, 0, eliminated), 2);
+    assert.equal(nextInTurnOrder(factions, 3, eliminated), 0);
+  });
+  
+  it('stays with the last faction standing', () => {
+    assert.equal(nextInTurnOrder(factions, 2, id => id !== 'ai2'), 2);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLine, createRules } from './fixtures';
+
+describe('FogOfWar', () => {
+  it('shows the last seen units on territories out of sight', () => {
+    // The player at a sees b; c and d are out of sight
+    const rules = createRules(createLine([5, 2, 3, 4]), { fogOfWar: true });
+    rules.transfer('ai', 'd', 'c', 3);
+    
+    const view = rules.getView('player');
+    assert.deepEqual(view.getTerritories().map(t => t.units), [5, 2, 3, 4]);
+    assert.deepEqual(rules.getView('ai').getTerritories().map(t => t.units), [5, 2, 6, 1]);
+  });
+  
+  it('reuses a view until the board changes', () => {
+    const rules = createRules(createLine([5, 2, 3, 4]), { fogOfWar: true });
+    const view = rules.getView('player');
+    assert.equal(rules.getView('player'), view);
+    assert.notEqual(rules.getView('ai'), view);
+    
+    rules.place('player', 'a', 2);
+    const next = rules.getView('player');
+    assert.notEqual(next, view);
+    assert.equal(next.getTerritory('a').units, 7);
+    
+    rules.getFog()!.setState(rules.getFog()!.getState());
+    assert.notEqual(rules.getView('player'), next);
+  });
+});
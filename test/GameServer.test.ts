@@ -0,0 +1,190 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebSocket } from 'ws';
+import { GameServer } from '../server/GameServer';
+import { ClientMessage, RoomState, ServerMessage } from '../src/net/Protocol';
+import { Board } from '../src/game/Board';
+import { BUNDLED_MAPS } from '../src/maps';
+
+type MessageOf<T extends ServerMessage['type']> = Extract<ServerMessage, { type: T }>;
+
+// A player's socket that keeps what the server sent until a test asks for it
+class TestClient {
+  private received: ServerMessage[] = [];
+  private waiting: (() => void)[] = [];
+  
+  private constructor(private socket: WebSocket) {
+    socket.on('message', data => {
+      this.received.push(JSON.parse(data.toString()));
+      this.waiting.splice(0).forEach(wake => wake());
+    });
+  }
+  
+  public static connect(port: number): Promise<TestClient> {
+    const socket = new WebSocket(`ws://localhost:${port}`);
+    return new Promise((resolve, reject) => {
+      socket.once('open', () => resolve(new TestClient(socket)));
+      socket.once('error', reject);
+    });
+  }
+  
+  // Also sends what a well-behaved client never would
+  public send(message: ClientMessage | Record<string, unknown>): void {
+    this.socket.send(JSON.stringify(message));
+  }
+  
+  // The first message of a type (that matches), skipping earlier ones of that type
+  public async next<T extends ServerMessage['type']>(type: T, matches: (message: MessageOf<T>) => boolean = () => true): Promise<MessageOf<T>> {
+    for (;;) {
+      for (let i = 0; i < this.received.length; i++) {
+        const message = this.received[i];
+        if (message.type !== type) continue;
+        
+        this.received.splice(i--, 1);
+        if (matches(message as MessageOf<T>)) {
+          return message as MessageOf<T>;
+        }
+      }
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+  }
+  
+  public close(): void {
+    this.socket.close();
+  }
+}
+
+describe('GameServer', { timeout: 10000 }, () => {
+  let server: GameServer;
+  const clients: TestClient[] = [];
+  
+  const connect = async () => {
+    const client = await TestClient.connect(server.getPort());
+    clients.push(client);
+    return client;
+  };
+  
+  before(async () => {
+    // Port 0 picks a free port
+    server = new GameServer(0);
+    await server.ready();
+  });
+  
+  after(async () => {
+    clients.forEach(client => client.close());
+    await server.close();
+  });
+  
+  it('plays a two-player match and rejects moves out of turn or against the rules', async () => {
+    const ann = await connect();
+    ann.send({ type: 'createRoom', playerName: 'Ann', mapId: BUNDLED_MAPS[0].id, seats: 2 });
+    const annSeat = await ann.next('joined');
+    
+    // A bad name is refused without using up the last seat
+    const broken = await connect();
+    broken.send({ type: 'joinRoom', roomId: annSeat.roomId, playerName: 5 });
+    assert.equal((await broken.next('error')).message, 'Player name must be text');
+    
+    const bob = await connect();
+    bob.send({ type: 'joinRoom', roomId: annSeat.roomId, playerName: 'Bob' });
+    const bobSeat = await bob.next('joined');
+    const { state } = await bob.next('state', ({ state }) => state.started);
+    
+    assert.notEqual(bobSeat.factionId, annSeat.factionId);
+    assert.deepEqual(state.seats.map(s => s.name), ['Ann', 'Bob']);
+    assert.equal(state.currentTurn, annSeat.factionId);
+    
+    bob.send({ type: 'endTurn' });
+    assert.equal((await bob.next('error')).message, 'It is not your turn');
+    
+    const { from, to } = findAttack(state, annSeat.factionId);
+    ann.send({ type: 'attack', from: from.id, to: to.id, units: 1 });
+    assert.match((await ann.next('error')).message, /^Place your remaining \d+ reinforcements first$/);
+    
+    ann.send({ type: 'place', territory: from.id, units: state.reinforcements });
+    const placed = await ann.next('update');
+    assert.equal(placed.reinforcements, 0);
+    assert.deepEqual(placed.territories, [{ id: from.id, owner: annSeat.factionId, units: from.units + state.reinforcements }]);
+    
+    const units = from.units + state.reinforcements - 1;
+    ann.send({ type: 'attack', from: from.id, to: to.id, units: units + 1 });
+    assert.equal((await ann.next('error')).message, `${from.name} can only send ${units} units`);
+    ann.send({ type: 'transfer', from: from.id, to: to.id, units: 1 });
+    assert.equal((await ann.next('error')).message, 'Can only transfer between your own territories');
+    
+    ann.send({ type: 'attack', from: from.id, to: to.id, units });
+    const attacked = await ann.next('update');
+    assert.ok(attacked.messages[0].startsWith(`Ann: ${from.name} attacks ${to.name} with ${units} units`));
+    
+    ann.send({ type: 'endTurn' });
+    const turn = await bob.next('update', update => update.currentTurn === bobSeat.factionId);
+    assert.ok(turn.reinforcements > 0);
+    
+    ann.send({ type: 'endTurn' });
+    assert.equal((await ann.next('error')).message, 'It is not your turn');
+  });
+  
+  it('gives a dropped seat back to its token, but not while it is connected', async () => {
+    const ann = await connect();
+    ann.send({ type: 'createRoom', playerName: 'Ann', mapId: BUNDLED_MAPS[0].id, seats: 2 });
+    const annSeat = await ann.next('joined');
+    const bob = await connect();
+    bob.send({ type: 'joinRoom', roomId: annSeat.roomId, playerName: 'Bob' });
+    const bobSeat = await bob.next('joined');
+    await ann.next('state', ({ state }) => state.started);
+    
+    const thief = await connect();
+    thief.send({ type: 'resume', roomId: annSeat.roomId, token: bobSeat.token });
+    assert.equal((await thief.next('error')).message, 'That seat is still connected');
+    
+    bob.close();
+    await ann.next('state', ({ state }) => !state.seats[1].connected);
+    
+    const back = await connect();
+    back.send({ type: 'resume', roomId: annSeat.roomId, token: bobSeat.token });
+    assert.equal((await back.next('joined')).factionId, bobSeat.factionId);
+    const { state } = await back.next('state');
+    assert.deepEqual(state.seats.map(s => s.connected), [true, true]);
+  });
+  
+  it('forfeits the seat of a player who leaves a running game', async () => {
+    const [ann, bob, cid] = await Promise.all([connect(), connect(), connect()]);
+    ann.send({ type: 'createRoom', playerName: 'Ann', mapId: BUNDLED_MAPS[0].id, seats: 3 });
+    const annSeat = await ann.next('joined');
+    bob.send({ type: 'joinRoom', roomId: annSeat.roomId, playerName: 'Bob' });
+    const bobSeat = await bob.next('joined');
+    cid.send({ type: 'joinRoom', roomId: annSeat.roomId, playerName: 'Cid' });
+    await cid.next('state', ({ state }) => state.started);
+    
+    const late = await connect();
+    late.send({ type: 'joinRoom', roomId: annSeat.roomId, playerName: 'Dan' });
+    assert.equal((await late.next('error')).message, 'The game has already started');
+    
+    // Leaving on your own turn hands it on, and your territories to nobody
+    ann.send({ type: 'leaveRoom' });
+    const left = await bob.next('update');
+    assert.equal(left.messages[0], 'Ann left the game, their territories turn neutral.');
+    assert.equal(left.currentTurn, bobSeat.factionId);
+    assert.ok(left.territories.length > 0);
+    assert.ok(left.territories.every(t => t.owner === 'neutral'));
+    
+    const { state } = await cid.next('state', ({ state }) => !state.seats[0].taken);
+    assert.equal(new Board(state.territories).getOwnedBy(annSeat.factionId).length, 0);
+    
+    // Leaving as one of the last two ends the game
+    cid.send({ type: 'leaveRoom' });
+    assert.equal((await bob.next('update')).winner, bobSeat.factionId);
+  });
+});
+
+// A territory of the faction's and a neighbor it can attack
+function findAttack(state: RoomState, factionId: string) {
+  const board = new Board(state.territories);
+  for (const from of board.getOwnedBy(factionId)) {
+    const to = board.getNeighbors(from.id).find(t => t.owner !== factionId);
+    if (to) {
+      return { from, to };
+    }
+  }
+  throw new Error(`${factionId} has nothing to attack`);
+}
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_MAP_SIZE, encodeMapCode, generateMap, MAX_MAP_SIZE, MIN_MAP_SIZE, normalizeMapOptions, parseMapCode } from '../src/game/MapGenerator';
+import { validateMap } from '../src/game/MapLoader';
+
+describe('generateMap', () => {
+  it('generates the same valid map from the same options', () => {
+    for (const layout of ['hex', 'voronoi'] as const) {
+      const options = { layout, size: 24, seed: 1234 };
+      const map = generateMap(options);
+      
+      assert.deepEqual(generateMap(options), map, layout);
+      assert.deepEqual(validateMap(map), [], layout);
+    }
+  });
+  
+  it('gives every faction the same starting territories and units', () => {
+    const map = generateMap({ layout: 'voronoi', size: 40, seed: 99, factions: 4 });
+    const starts = new Map<string, number[]>();
+    for (const territory of map.territories) {
+      if (!territory.owner) continue;
+      starts.set(territory.owner, [...(starts.get(territory.owner) ?? []), territory.units ?? 0]);
+    }
+    
+    assert.equal(starts.size, 4);
+    for (const [owner, units] of starts) {
+      assert.deepEqual(units, [3, 3, 3], owner);
+    }
+  });
+  
+  it('keeps the size within limits, and to the default when it is not a number', () => {
+    assert.equal(normalizeMapOptions({ layout: 'hex', size: 5, seed: 1 }).size, MIN_MAP_SIZE);
+    assert.equal(normalizeMapOptions({ layout: 'hex', size: 500, seed: 1 }).size, MAX_MAP_SIZE);
+    assert.equal(normalizeMapOptions({ layout: 'hex', size: NaN, seed: 1 }).size, DEFAULT_MAP_SIZE);
+    assert.equal(normalizeMapOptions({ layout: 'hex', size: 24, seed: 1, factions: NaN }).factions, 2);
+    
+    assert.deepEqual(generateMap({ layout: 'voronoi', size: NaN, seed: 7 }), generateMap({ layout: 'voronoi', size: DEFAULT_MAP_SIZE, seed: 7 }));
+  });
+});
+
+describe('map codes', () => {
+  it('reproduce the map they were made from', () => {
+    const options = normalizeMapOptions({ layout: 'hex', size: 30, seed: 4242, factions: 3 });
+    const code = encodeMapCode(options);
+    
+    assert.equal(code, 'hex-30-4242-3');
+    assert.deepEqual(parseMapCode(code), options);
+    assert.deepEqual(generateMap(parseMapCode(code)!), generateMap(options));
+  });
+  
+  it('leave out the faction count for two factions', () => {
+    assert.equal(encodeMapCode({ layout: 'voronoi', size: 24, seed: 1 }), 'voronoi-24-1');
+    assert.equal(parseMapCode('voronoi-24-1')?.factions, 2);
+  });
+  
+  it('are not made of anything else', () => {
+    assert.equal(parseMapCode('square-24-1'), null);
+    assert.equal(parseMapCode('hex-24'), null);
+    assert.equal(parseMapCode('a seed phrase'), null);
+  });
+});
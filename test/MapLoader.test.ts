@@ -0,0 +1,126 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTerritories, loadMap, MapDefinition, MapTerritory, parseMap, parseMapDraft, validateMap } from '../src/game/MapLoader';
+import { MapEditor } from '../src/game/MapEditor';
+import { BUNDLED_MAPS } from '../src/maps';
+
+// Two connected starts, one for each of two factions
+const MAP: MapDefinition = {
+  id: 'pair',
+  name: 'Pair',
+  territories: [
+    { id: 'a', name: 'A', x: 0, z: 0, neighbors: ['b'], owner: 'player', units: 3 },
+    { id: 'b', name: 'B', x: 5, z: 0, neighbors: ['a'], owner: 'ai', units: 3 }
+  ]
+};
+
+// a - b - c - d - e in a row, with starts for two factions at the ends
+function createRow(): MapTerritory[] {
+  const ids = ['a', 'b', 'c', 'd', 'e'];
+  return ids.map((id, i) => ({
+    id,
+    name: id.toUpperCase(),
+    x: i * 5,
+    z: 0,
+    neighbors: [ids[i - 1], ids[i + 1]].filter((n): n is string => n !== undefined),
+    ...(i === 0 ? { owner: 'player', units: 3 } : i === 4 ? { owner: 'ai', units: 3 } : {})
+  }));
+}
+
+// The problems validateMap finds after a change to the row
+function problems(change: (territories: MapTerritory[]) => void, regions?: MapDefinition['regions']): string[] {
+  const territories = createRow();
+  change(territories);
+  return validateMap({ id: 'row', name: 'Row', territories, regions });
+}
+
+describe('validateMap', () => {
+  it('accepts the bundled maps and a simple row', () => {
+    for (const map of BUNDLED_MAPS) {
+      assert.deepEqual(validateMap(map), [], map.id);
+    }
+    assert.deepEqual(problems(() => {}), []);
+  });
+  
+  it('requires a symmetric adjacency graph between known territories', () => {
+    assert.deepEqual(problems(t => t[0].neighbors.push('x')), ['a: unknown neighbor "x"']);
+    assert.deepEqual(problems(t => t[0].neighbors.push('a')), ['a: lists itself as a neighbor']);
+    assert.deepEqual(problems(t => t[0].neighbors.push('c')), ['a -> c: edge is not symmetric']);
+    assert.deepEqual(problems(t => t.push({ ...t[1] })), ['Duplicate territory id "b"']);
+  });
+  
+  it('requires every territory to be reachable', () => {
+    assert.deepEqual(problems(t => {
+      t[1].neighbors = ['a'];
+      t[2].neighbors = ['d'];
+    }), ['Map is not connected, unreachable: c, d, e']);
+  });
+  
+  it('checks owners, units, terrain and rivers', () => {
+    assert.deepEqual(problems(t => { t[1].owner = 'Not An Id'; }), ['b: invalid owner "Not An Id"']);
+    assert.deepEqual(problems(t => { t[1].units = -1; }), ['b: units must be a non-negative integer']);
+    assert.deepEqual(problems(t => { t[1].terrain = 'toString' as MapTerritory['terrain']; }), ['b: unknown terrain "toString"']);
+    assert.deepEqual(problems(t => { t[1].rivers = ['c']; }), ['b -> c: river is not symmetric']);
+    assert.deepEqual(problems(t => {
+      t[1].rivers = ['d'];
+      t[3].rivers = ['b'];
+    }), ['b: river to "d", which is not a neighbor', 'd: river to "b", which is not a neighbor']);
+  });
+  
+  it('checks regions and that two factions can start', () => {
+    const region = { id: 'west', name: 'West', bonus: 2, territories: ['a', 'b'] };
+    assert.deepEqual(problems(() => {}, [region]), []);
+    assert.deepEqual(problems(() => {}, [region, { ...region, territories: ['b', 'x'] }]), [
+      'Duplicate region id "west"',
+      'b is in both region west and west',
+      'Region west: unknown territory "x"'
+    ]);
+    assert.deepEqual(problems(() => {}, [{ ...region, bonus: 0, territories: [] }]), [
+      'Region west: bonus must be a positive integer',
+      'Region west has no territories'
+    ]);
+    assert.deepEqual(problems(t => { delete t[4].owner; }), ['Map needs starting territories for at least two factions']);
+  });
+  
+  it('names the map in the error when loading one that is invalid', () => {
+    const territories = createRow();
+    territories[0].neighbors = [];
+    assert.throws(() => loadMap({ id: 'row', name: 'Row', territories }), /^Error: Invalid map "Row": b -> a: edge is not symmetric/);
+  });
+});
+
+describe('createTerritories', () => {
+  const map: MapDefinition = { id: 'row', name: 'Row', territories: createRow() };
+  
+  it('keeps the map as it is without factions', () => {
+    const territories = createTerritories(map);
+    assert.deepEqual(territories.map(t => [t.owner, t.units]), [['player', 3], ['neutral', 0], ['neutral', 0], ['neutral', 0], ['ai', 3]]);
+    assert.ok(territories.every(t => t.capital === undefined));
+  });
+  
+  it('turns the starts of absent factions neutral and finds starts for new ones', () => {
+    const territories = createTerritories(map, ['player', 'blue'], 5);
+    
+    // Blue starts at e, farthest from the player, which the absent AI held, and its neutral neighbor d
+    assert.deepEqual(territories.map(t => t.owner), ['player', 'neutral', 'neutral', 'blue', 'blue']);
+    assert.ok(territories.filter(t => t.owner !== 'neutral').every(t => t.units === 5));
+    assert.deepEqual(territories.filter(t => t.capital).map(t => [t.id, t.capital]), [['a', 'player'], ['d', 'blue']]);
+  });
+});
+
+describe('parseMapDraft', () => {
+  it('opens a map that breaks the rules so the editor can list its problems', () => {
+    const draft = { ...MAP, territories: [{ ...MAP.territories[0], neighbors: ['x'] }] };
+    assert.throws(() => parseMap(JSON.stringify(draft)), /Invalid map "Pair"/);
+    
+    const editor = new MapEditor(parseMapDraft(JSON.stringify(draft)));
+    assert.ok(editor.validate().includes('a: unknown neighbor "x"'));
+  });
+  
+  it('refuses files without the shape of a map', () => {
+    assert.throws(() => parseMapDraft('{'), /not valid JSON/);
+    assert.throws(() => parseMapDraft('[]'), /Not a valid map file/);
+    assert.throws(() => parseMapDraft(JSON.stringify({ ...MAP, territories: [{ id: 'a' }] })), /invalid territory/);
+    assert.throws(() => parseMapDraft(JSON.stringify({ ...MAP, regions: [null] })), /invalid region/);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventBus } from '../src/game/EventBus';
+import { GameEvents } from '../src/game/GameEvents';
+import { GameState } from '../src/game/GameState';
+import { MatchStats } from '../src/game/MatchStats';
+import { AttackResult } from '../src/game/Rules';
+
+function state(turnNumber: number, currentTurn: string, player: number, ai: number): GameState {
+  const state = new GameState();
+  state.gameStarted = true;
+  state.turnNumber = turnNumber;
+  state.currentTurn = currentTurn;
+  state.factionStats = {
+    player: { units: player * 3, territories: player, eliminated: false },
+    ai: { units: ai * 3, territories: ai, eliminated: false }
+  };
+  return state;
+}
+
+function attack(defender: string, captured: boolean, attackerLosses: number, defenderLosses: number): AttackResult {
+  return {
+    from: 'a',
+    to: 'b',
+    defender,
+    units: 5,
+    attackStrength: 10,
+    defenseStrength: 8,
+    captured,
+    attackerLosses,
+    defenderLosses,
+    survivors: captured ? 5 - attackerLosses : 0
+  };
+}
+
+describe('MatchStats', () => {
+  it('keeps one sample per turn, the latest of the turn', () => {
+    const events = new EventBus<GameEvents>();
+    const stats = new MatchStats();
+    stats.attach(events);
+    
+    events.emit('stateChanged', { state: state(1, 'player', 2, 2) });
+    events.emit('stateChanged', { state: state(1, 'player', 3, 2) });
+    events.emit('stateChanged', { state: state(1, 'ai', 3, 2) });
+    events.emit('stateChanged', { state: state(2, 'player', 3, 3) });
+    
+    assert.deepEqual(stats.getSamples().map(s => [s.round, s.side]), [[1, 'player'], [1, 'ai'], [2, 'player']]);
+    assert.deepEqual(stats.getSeries('player', 'territories'), [3, 3, 3]);
+    assert.equal(stats.getRounds(), 2);
+  });
+  
+  it('takes an undone attack back out of the totals and battles', () => {
+    const events = new EventBus<GameEvents>();
+    const stats = new MatchStats();
+    stats.attach(events);
+    
+    const small = attack('ai', false, 2, 1);
+    const big = attack('ai', true, 3, 4);
+    events.emit('attackResolved', { side: 'player', result: small, fromName: 'A', toName: 'B' });
+    events.emit('attackResolved', { side: 'player', result: big, fromName: 'A', toName: 'B' });
+    assert.equal(stats.getBiggestBattle()?.losses, 7);
+    
+    events.emit('attackUndone', { side: 'player', result: big });
+    events.emit('stateChanged', { state: state(1, 'player', 2, 2) });
+    
+    const last = stats.getSamples()[0].factions;
+    assert.deepEqual([last.player.attacksWon, last.player.attacksLost, last.player.unitsLost], [0, 1, 2]);
+    assert.equal(last.ai.unitsLost, 1);
+    assert.equal(stats.getBiggestBattle()?.losses, 3);
+  });
+  
+  it('finds the turn a faction took the lead for good', () => {
+    const stats = new MatchStats();
+    stats.sample(state(1, 'player', 2, 3));
+    stats.sample(state(1, 'ai', 2, 3));
+    stats.sample(state(2, 'player', 4, 3));
+    stats.sample(state(2, 'ai', 4, 2));
+    
+    assert.deepEqual(stats.getTurningPoint(), { round: 2, leader: 'player' });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MatchRecorder, parseReplay, REPLAY_VERSION } from '../src/game/Replay';
+import { DEFAULT_FACTIONS } from '../src/game/Faction';
+import { createLine } from './fixtures';
+
+function createReplay() {
+  const recorder = new MatchRecorder();
+  recorder.begin(createLine(), DEFAULT_FACTIONS, 7);
+  recorder.record({ kind: 'start', seed: 7 }, 1, createLine());
+  return recorder;
+}
+
+describe('MatchRecorder', () => {
+  it('drops every frame from an index on', () => {
+    const recorder = createReplay();
+    const start = recorder.getFrameCount();
+    recorder.record({ kind: 'place', side: 'player', territory: 'a', units: 1 }, 1, createLine());
+    recorder.record({ kind: 'gameOver', winner: 'player' }, 1, createLine());
+    
+    recorder.discardFrom(start);
+    assert.deepEqual(recorder.getReplay()?.frames.map(f => f.event.kind), ['start']);
+  });
+});
+
+describe('parseReplay', () => {
+  it('reads back a recorded replay', () => {
+    const replay = createReplay().getReplay();
+    assert.deepEqual(parseReplay(JSON.stringify(replay)), replay);
+  });
+  
+  it('gives version 1 replays the player and AI factions', () => {
+    const { factions: _, ...replay } = createReplay().getReplay()!;
+    const parsed = parseReplay(JSON.stringify({ ...replay, version: 1 }));
+    assert.equal(parsed.version, REPLAY_VERSION);
+    assert.deepEqual(parsed.factions, DEFAULT_FACTIONS);
+  });
+  
+  it('rejects malformed factions at load time', () => {
+    const replay = createReplay().getReplay()!;
+    const parse = (factions: unknown) => () => parseReplay(JSON.stringify({ ...replay, factions }));
+    
+    assert.throws(parse(undefined), /invalid factions/);
+    assert.throws(parse([DEFAULT_FACTIONS[0]]), /invalid factions/);
+    assert.throws(parse([DEFAULT_FACTIONS[0], DEFAULT_FACTIONS[0]]), /invalid factions/);
+    assert.throws(parse([DEFAULT_FACTIONS[0], { ...DEFAULT_FACTIONS[1], color: 'red' }]), /invalid factions/);
+    assert.throws(parse([DEFAULT_FACTIONS[0], { ...DEFAULT_FACTIONS[1], controller: 'robot' }]), /invalid factions/);
+  });
+  
+  it('rejects frames that do not fit the map and factions', () => {
+    const replay = createReplay().getReplay()!;
+    const [frame] = replay.frames;
+    const parse = (changes: object) => () => parseReplay(JSON.stringify({ ...replay, frames: [{ ...frame, ...changes }] }));
+    
+    assert.throws(parse({ territories: [{ id: 'x', owner: 'player', units: 1 }] }), /frame 1 is invalid/);
+    assert.throws(parse({ territories: [{ id: 'a', owner: 'nobody', units: 1 }] }), /frame 1 is invalid/);
+    assert.throws(parse({ territories: [{ id: 'a', owner: 'player', units: -1 }] }), /frame 1 is invalid/);
+    assert.throws(parse({ event: { kind: 'explode' } }), /frame 1 is invalid/);
+    assert.throws(parse({ event: { kind: 'place', side: 'player', territory: 'x', units: 1 } }), /frame 1 is invalid/);
+    assert.throws(parse({ event: { kind: 'gameOver', winner: 'nobody' } }), /frame 1 is invalid/);
+    assert.throws(parse({ messages: [1] }), /frame 1 is invalid/);
+    assert.throws(() => parseReplay(JSON.stringify({ ...replay, territories: [...replay.territories, { id: 'e' }] })),
+      /invalid territory/);
+  });
+  
+  it('rejects files that are not replays', () => {
+    assert.throws(() => parseReplay('{'), /not valid JSON/);
+    assert.throws(() => parseReplay('null'), /Unsupported replay file/);
+    assert.throws(() => parseReplay(JSON.stringify({ ...createReplay().getReplay(), frames: [] })), /no recorded frames/);
+  });
+});
@@ -0,0 +1,277 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Board } from '../src/game/Board';
+import { Random } from '../src/game/Random';
+import { DEFAULT_RULES_OPTIONS, Rules } from '../src/game/Rules';
+import { CLASSIC_RULE_SET, RULE_SETS, RuleSet, validateRuleSet, VictoryCondition } from '../src/game/RuleSet';
+import { Terrain } from '../src/game/Terrain';
+import { createLine, createRules, territory } from './fixtures';
+
+describe('Rules.attack', () => {
+  it('rejects illegal attacks with a reason', () => {
+    const rules = createRules();
+    assert.equal(rules.checkAttack('player', 'a', 'c', 1), 'Territories are not adjacent');
+    assert.equal(rules.checkAttack('player', 'c', 'b', 1), 'C is not yours');
+    assert.equal(rules.checkAttack('player', 'a', 'b', 5), 'A can only send 4 units');
+    assert.equal(rules.checkAttack('player', 'a', 'b', 0), 'Must send at least 1 unit');
+    assert.throws(() => rules.attack('player', 'a', 'c', 1), /not adjacent/);
+  });
+  
+  it('moves the survivors into a captured territory', () => {
+    const rules = createRules(createLine([20, 1, 3, 4]));
+    const result = rules.attack('player', 'a', 'b', 19);
+    const board = rules.getBoard();
+    
+    assert.equal(result.captured, true);
+    assert.equal(result.defender, 'neutral');
+    assert.equal(result.survivors + result.attackerLosses, 19);
+    assert.equal(board.getTerritory('a').units, 1);
+    assert.equal(board.getTerritory('b').owner, 'player');
+    assert.equal(board.getTerritory('b').units, result.survivors);
+  });
+  
+  it('costs both sides units when it fails', () => {
+    const rules = createRules(createLine([3, 20, 3, 4]));
+    const result = rules.attack('player', 'a', 'b', 2);
+    const board = rules.getBoard();
+    
+    assert.equal(result.captured, false);
+    assert.equal(result.attackerLosses, Math.floor(2 * CLASSIC_RULE_SET.attackerLossOnFailure));
+    assert.equal(result.defenderLosses, Math.floor(20 * CLASSIC_RULE_SET.defenderLossOnFailure));
+    assert.equal(board.getTerritory('a').units, 3 - result.attackerLosses);
+    assert.equal(board.getTerritory('b').owner, 'neutral');
+    assert.equal(board.getTerritory('b').units, 20 - result.defenderLosses);
+  });
+  
+  it('rolls the same outcome from the same seed', () => {
+    const roll = () => createRules(createLine([8, 6, 3, 4]), {}, 42).attack('player', 'a', 'b', 7);
+    assert.deepEqual(roll(), roll());
+  });
+});
+
+describe('Rules.transfer', () => {
+  it('moves units between own neighbors', () => {
+    const rules = createRules();
+    const result = rules.transfer('ai', 'd', 'c', 2);
+    
+    assert.deepEqual(result, { from: 'd', to: 'c', units: 2 });
+    assert.equal(rules.getBoard().getTerritory('d').units, 2);
+    assert.equal(rules.getBoard().getTerritory('c').units, 5);
+  });
+  
+  it('rejects transfers to other factions and of the last unit', () => {
+    const rules = createRules();
+    assert.equal(rules.checkTransfer('ai', 'c', 'b', 1), 'Can only transfer between your own territories');
+    assert.equal(rules.checkTransfer('ai', 'd', 'c', 4), 'D can only send 3 units');
+    assert.throws(() => rules.transfer('player', 'a', 'b', 1));
+  });
+  
+  it('suggests half the units for transfers and all that can leave for attacks', () => {
+    const rules = createRules();
+    assert.equal(rules.getDefaultUnits('transfer', 'd'), 2);
+    assert.equal(rules.getDefaultUnits('attack', 'd'), 3);
+  });
+});
+
+describe('Rules terrain', () => {
+  // a attacks or moves into b, across a river or onto the given terrain
+  function createBorder(terrain: Terrain, river: boolean, owner: string = 'ai') {
+    return createRules([
+      { ...territory('a', 'player', 9, ['b']), rivers: river ? ['b'] : [] },
+      { ...territory('b', owner, 6, ['a']), terrain, rivers: river ? ['a'] : [] },
+      territory('c', 'ai', 1, [])
+    ], {}, 3);
+  }
+  
+  it('lets mountains roll higher in defense', () => {
+    const plains = createBorder('plains', false);
+    const mountains = createBorder('mountains', false);
+    
+    assert.ok(mountains.getAttackOdds('player', 'a', 'b', 8).chance < plains.getAttackOdds('player', 'a', 'b', 8).chance);
+    // The same seed rolls the same, so only the terrain differs
+    const onPlains = plains.attack('player', 'a', 'b', 8);
+    const onMountains = mountains.attack('player', 'a', 'b', 8);
+    assert.equal(onMountains.attackStrength, onPlains.attackStrength);
+    assert.ok(onMountains.defenseStrength > onPlains.defenseStrength);
+  });
+  
+  it('weakens attacks across a river', () => {
+    const open = createBorder('plains', false);
+    const river = createBorder('plains', true);
+    
+    assert.ok(river.getAttackOdds('player', 'a', 'b', 8).chance < open.getAttackOdds('player', 'a', 'b', 8).chance);
+    const across = river.attack('player', 'a', 'b', 8);
+    const direct = open.attack('player', 'a', 'b', 8);
+    assert.ok(across.attackStrength < direct.attackStrength);
+    assert.equal(across.defenseStrength, direct.defenseStrength);
+  });
+  
+  it('leaves transfers across rivers and onto mountains whole', () => {
+    const rules = createBorder('mountains', true, 'player');
+    assert.deepEqual(rules.transfer('player', 'a', 'b', 8), { from: 'a', to: 'b', units: 8 });
+    assert.equal(rules.getBoard().getTerritory('b').units, 14);
+  });
+  
+  it('adds a reinforcement for every city held', () => {
+    const rules = createRules([
+      { ...territory('a', 'player', 3, ['b']), terrain: 'city' },
+      { ...territory('b', 'player', 3, ['a', 'c']), terrain: 'city' },
+      { ...territory('c', 'ai', 3, ['b']), terrain: 'mountains' }
+    ]);
+    const pool = rules.getReinforcements('player');
+    assert.equal(pool.cities, 2);
+    assert.equal(pool.total, pool.base + 2);
+    assert.equal(rules.getReinforcements('ai').cities, 0);
+  });
+});
+
+describe('Rules.getReinforcements', () => {
+  // Seven territories in a row, the player holding the first five, in two regions
+  function createRegions() {
+    const ids = ['a', 'b', 'c', 'd', 'e', 'f', 'g'];
+    const territories = ids.map((id, i) =>
+      territory(id, i < 5 ? 'player' : 'ai', 2, [ids[i - 1], ids[i + 1]].filter((n): n is string => n !== undefined)));
+    const regions = [
+      { id: 'west', name: 'West', bonus: 2, territories: ['a', 'b', 'c'] },
+      { id: 'east', name: 'East', bonus: 5, territories: ['d', 'e', 'f', 'g'] }
+    ];
+    return new Rules(new Board(territories, regions), new Random(1), { ...DEFAULT_RULES_OPTIONS });
+  }
+  
+  it('grants one unit per three territories, at least the minimum', () => {
+    assert.deepEqual(createRules().getReinforcements('player'), { base: 3, regions: [], cities: 0, total: 3 });
+    
+    const many = Array.from({ length: 15 }, (_, i) => territory(`t${i}`, i < 14 ? 'player' : 'ai', 1, []));
+    assert.equal(createRules(many).getReinforcements('player').total, 4);
+    assert.equal(createRules().getReinforcements('neutral').total, 3);
+  });
+  
+  it('adds the bonus of every region held completely', () => {
+    const rules = createRegions();
+    const pool = rules.getReinforcements('player');
+    assert.deepEqual(pool.regions.map(r => r.id), ['west']);
+    assert.equal(pool.total, pool.base + 2);
+    assert.equal(rules.getReinforcements('ai').total, CLASSIC_RULE_SET.minReinforcements);
+    
+    for (const id of ['f', 'g']) {
+      rules.getBoard().getTerritory(id).owner = 'player';
+    }
+    assert.deepEqual(rules.getReinforcements('player').regions.map(r => r.id), ['west', 'east']);
+    assert.equal(rules.getReinforcements('player').total, CLASSIC_RULE_SET.minReinforcements + 2 + 5);
+  });
+  
+  it('grants nothing to a faction without territories', () => {
+    assert.deepEqual(createRegions().getReinforcements('ai3'), { base: 0, regions: [], cities: 0, total: 0 });
+  });
+});
+
+describe('Rules.place', () => {
+  it('adds units to own territories only', () => {
+    const rules = createRules();
+    assert.deepEqual(rules.place('player', 'a', 3), { territory: 'a', units: 3 });
+    assert.equal(rules.getBoard().getTerritory('a').units, 8);
+    
+    assert.equal(rules.checkPlace('player', 'c', 1), 'C is not yours');
+    assert.equal(rules.checkPlace('player', 'a', 0), 'Must place at least 1 unit');
+    assert.throws(() => rules.place('player', 'a', 1.5));
+  });
+});
+
+describe('Rules.getVictory', () => {
+  it('has no winner while several factions hold territories', () => {
+    assert.equal(createRules().getVictory(), null);
+  });
+  
+  it('declares the last faction standing the winner', () => {
+    const rules = createRules(createLine([20, 1, 1, 4]));
+    rules.getBoard().getTerritory('c').owner = 'player';
+    rules.getBoard().getTerritory('d').owner = 'player';
+    
+    assert.deepEqual(rules.getVictory(), { winner: 'player', reason: 'All other factions have been eliminated' });
+  });
+  
+  it('ends a domination game at the required share', () => {
+    const ruleSet = { ...CLASSIC_RULE_SET, victory: { type: 'domination' as const, percent: 75 } };
+    const rules = createRules(createLine(), { ruleSet });
+    assert.equal(rules.getVictory(), null);
+    
+    rules.getBoard().getTerritory('b').owner = 'ai';
+    assert.equal(rules.getWinner(), 'ai');
+  });
+  
+  it('rounds the domination share up to whole territories', () => {
+    const ruleSet = { ...CLASSIC_RULE_SET, victory: { type: 'domination' as const, percent: 60 } };
+    const rules = createRules(createLine(), { ruleSet });
+    rules.getBoard().getTerritory('b').owner = 'player';
+    assert.equal(rules.getVictory(), null);
+    
+    rules.getBoard().getTerritory('c').owner = 'player';
+    assert.deepEqual(rules.getVictory(), { winner: 'player', reason: 'Holds 60% of the territories' });
+  });
+  
+  it('ends a capital game when one faction holds every capital', () => {
+    const territories = [
+      { ...territory('a', 'player', 3, ['b']), capital: 'player' },
+      { ...territory('b', 'ai', 3, ['a']), capital: 'ai' },
+      territory('c', 'ai', 3, ['b'])
+    ];
+    const ruleSet = { ...CLASSIC_RULE_SET, victory: { type: 'capital' as const } };
+    const rules = createRules(territories, { ruleSet });
+    assert.equal(rules.getVictory(), null);
+    
+    rules.getBoard().getTerritory('a').owner = 'ai';
+    rules.getBoard().getTerritory('c').owner = 'player';
+    assert.deepEqual(rules.getVictory(), { winner: 'ai', reason: 'Holds every capital' });
+  });
+});
+
+describe('Rules.getTurnStartVictory', () => {
+  function createVictoryRules(victory: VictoryCondition, territories = createLine()) {
+    const ruleSet: RuleSet = { ...CLASSIC_RULE_SET, victory };
+    return createRules(territories, { ruleSet });
+  }
+  
+  it('never ends a game under move-time victory conditions', () => {
+    assert.equal(createVictoryRules({ type: 'elimination' }).getTurnStartVictory('player', 100), null);
+    assert.equal(createVictoryRules({ type: 'domination', percent: 60 }).getTurnStartVictory('player', 100), null);
+  });
+  
+  it('gives the leader the win once the turn limit has passed', () => {
+    const rules = createVictoryRules({ type: 'turnLimit', rounds: 5 });
+    assert.equal(rules.getTurnStartVictory('player', 5), null);
+    assert.deepEqual(rules.getTurnStartVictory('player', 6), { winner: 'ai', reason: 'Holds the most territories after 5 rounds' });
+  });
+  
+  it('ends a turn limit game without a winner on a tie', () => {
+    const rules = createVictoryRules({ type: 'turnLimit', rounds: 5 }, createLine([4, 4, 4, 4]));
+    rules.getBoard().getTerritory('b').owner = 'player';
+    
+    assert.equal(rules.getLeader(), null);
+    assert.deepEqual(rules.getTurnStartVictory('ai', 6), { winner: null, reason: 'Nobody leads after 5 rounds' });
+  });
+  
+  it('crowns the faction still on the hill when its turn comes around', () => {
+    // b is nearest the center of the line
+    const territories = createLine().map((t, i) => ({ ...t, x: i * 10 }));
+    territories[1].owner = 'player';
+    const rules = createVictoryRules({ type: 'kingOfTheHill' }, territories);
+    
+    assert.equal(rules.getHill()?.id, 'b');
+    // Taking the hill in the first round is not holding it for a round
+    assert.equal(rules.getTurnStartVictory('player', 1), null);
+    assert.equal(rules.getTurnStartVictory('ai', 2), null);
+    assert.deepEqual(rules.getTurnStartVictory('player', 2), { winner: 'player', reason: 'Held B for a whole round' });
+  });
+});
+
+describe('validateRuleSet', () => {
+  it('accepts the bundled rule sets and rejects unknown victory types', () => {
+    for (const ruleSet of RULE_SETS) {
+      assert.deepEqual(validateRuleSet(ruleSet), [], ruleSet.id);
+    }
+    for (const type of ['conquest', 'toString', 'constructor']) {
+      const ruleSet = { ...CLASSIC_RULE_SET, victory: { type } as unknown as VictoryCondition };
+      assert.deepEqual(validateRuleSet(ruleSet), ['Unknown victory condition'], type);
+    }
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { migrateSave, parseSave, SAVE_VERSION } from '../src/game/SaveGame';
+import { CLASSIC_RULE_SET } from '../src/game/RuleSet';
+
+// A version 1 save: a fixed player and AI, adjacency by distance
+const V1_SAVE = {
+  version: 1,
+  savedAt: '2024-01-01T00:00:00.000Z',
+  territories: [
+    { id: 'a', name: 'A', owner: 'player', units: 3, x: 0, z: 0 },
+    { id: 'b', name: 'B', owner: 'ai', units: 3, x: 5, z: 0 },
+    { id: 'c', name: 'C', owner: 'neutral', units: 0, x: 20, z: 0 }
+  ],
+  gameStarted: true,
+  gameOver: false,
+  winner: null,
+  currentTurn: 'player',
+  turnNumber: 2,
+  rng: { seed: 1, state: 1 }
+};
+
+describe('migrateSave', () => {
+  it('upgrades a version 1 save through every migration', () => {
+    const save = migrateSave(V1_SAVE);
+    
+    assert.equal(save.version, SAVE_VERSION);
+    assert.deepEqual(save.territories.map(t => t.neighbors), [['b'], ['a'], []]);
+    assert.deepEqual(save.factions.map(f => f.id), ['player', 'ai']);
+    assert.deepEqual(save.rules, { undoableAttacks: false, fogOfWar: false, ruleSet: CLASSIC_RULE_SET });
+    assert.deepEqual(save.regions, []);
+    assert.equal(save.lastSeen, null);
+  });
+  
+  it('rejects documents that are not saves', () => {
+    assert.throws(() => migrateSave(null), /Not a valid save file/);
+    assert.throws(() => migrateSave({ version: '1' }), /Not a valid save file/);
+    assert.throws(() => migrateSave({ version: 1 }), /Save has no territories/);
+    assert.throws(() => migrateSave({ ...V1_SAVE, version: 0 }), /No migration from save version 0/);
+    assert.throws(() => migrateSave({ ...V1_SAVE, version: SAVE_VERSION + 1 }), /newer than this game supports/);
+  });
+  
+  it('rejects saves with invalid contents', () => {
+    const save = migrateSave(V1_SAVE);
+    assert.throws(() => migrateSave({ ...save, factions: [null, null] }), /invalid factions/);
+    assert.throws(() => migrateSave({ ...save, territories: [...save.territories, null] }), /invalid territory/);
+    assert.throws(() => migrateSave({ ...save, rng: null }), /random seed/);
+    assert.throws(() => migrateSave({ ...save, rules: { ...save.rules, ruleSet: 'classic' } }), /invalid rule set/);
+    assert.throws(() => migrateSave({ ...save, territories: [{ ...save.territories[0], terrain: 'toString' }] }), /invalid territory/);
+    assert.throws(() => migrateSave({ ...save, currentTurn: 'ai' }), /not made on a human turn/);
+    assert.throws(() => migrateSave({ ...save, currentTurn: 'nobody' }), /not made on a human turn/);
+  });
+  
+  it('round-trips a current save through JSON', () => {
+    const save = migrateSave(V1_SAVE);
+    assert.deepEqual(parseSave(JSON.stringify(save)), save);
+  });
+});
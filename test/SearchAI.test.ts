@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Board } from '../src/game/Board';
+import { createTerritories } from '../src/game/MapLoader';
+import { Random } from '../src/game/Random';
+import { DIFFICULTY_PRESETS, SearchAI, SearchOptions } from '../src/game/SearchAI';
+import { BUNDLED_MAPS } from '../src/maps';
+
+const board = new Board(createTerritories(BUNDLED_MAPS[0], ['player', 'ai'], 4));
+
+function chooseMove(options: SearchOptions) {
+  return new SearchAI('player', options, new Random(5)).chooseMove(board, 3);
+}
+
+describe('SearchAI', () => {
+  it('chooses the same move from the same board and seed under a node budget', () => {
+    for (const preset of Object.values(DIFFICULTY_PRESETS)) {
+      const options = { ...preset, timeBudget: Infinity, nodeBudget: 5000 };
+      assert.deepEqual(chooseMove(options), chooseMove(options), options.label);
+    }
+  });
+  
+  it('stops deepening when the time budget runs out', () => {
+    const hard = DIFFICULTY_PRESETS.hard;
+    const shallow = chooseMove({ ...hard, depth: 1 });
+    
+    // No time for a second iteration leaves the depth 1 move
+    assert.deepEqual(chooseMove({ ...hard, timeBudget: 0 }), shallow);
+  });
+  
+  it('stops deepening at the node budget', () => {
+    const hard = { ...DIFFICULTY_PRESETS.hard, timeBudget: Infinity };
+    const shallow = chooseMove({ ...hard, depth: 1 });
+    
+    // Fewer positions than one ordering pass cannot finish a deeper iteration
+    assert.deepEqual(chooseMove({ ...hard, nodeBudget: 5 }), shallow);
+    assert.deepEqual(chooseMove({ ...hard, nodeBudget: Infinity }), chooseMove({ ...hard, depth: 3 }));
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIPlayer, AIAction } from '../src/game/AIPlayer';
+import { isInvalidStep, parseActionPlan } from '../src/game/ActionPlan';
+import { FACTION_ROSTER } from '../src/game/Faction';
+import { PlaceResult, Rules } from '../src/game/Rules';
+import { DIFFICULTY_PRESETS, SearchAI } from '../src/game/SearchAI';
+import {
+  ChatCompletionStrategyProvider,
+  createStrategyProvider,
+  RuleBasedStrategyProvider,
+  ScriptedStrategyProvider
+} from '../src/game/StrategyProvider';
+import { createLine, createRules } from './fixtures';
+
+const AI = FACTION_ROSTER[1];
+
+// Plays the AI faction's turn with a scripted advisor, on the a - b - c - d line unless given a board
+async function playTurn(...responses: string[]) {
+  return playTurnOn(createRules(), ...responses);
+}
+
+async function playTurnOn(rules: Rules, ...responses: string[]) {
+  const advisor = new ScriptedStrategyProvider(responses);
+  const messages: string[] = [];
+  const actions: AIAction[] = [];
+  
+  const ai = new AIPlayer(rules, AI, advisor, null, message => messages.push(message));
+  ai.onAction = action => actions.push(action);
+  await ai.executeTurn();
+  return { rules, advisor, messages, actions };
+}
+
+describe('parseActionPlan', () => {
+  it('finds the plan inside prose and code fences', () => {
+    const plan = parseActionPlan('Here is my plan:\n```json\n{"summary": "Push", "moves": []}\n```');
+    assert.deepEqual(plan, { summary: 'Push', moves: [] });
+  });
+  
+  it('turns malformed moves into errors and keeps the rest', () => {
+    const plan = parseActionPlan(JSON.stringify({
+      moves: [
+        { type: 'attack', from: 'c', to: 'b', units: 2, rationale: 'Expand' },
+        { type: 'retreat', from: 'c', to: '', units: 0 },
+        'attack b'
+      ]
+    }));
+    
+    assert.equal(plan.summary, '');
+    assert.deepEqual(plan.moves[0], { type: 'attack', from: 'c', to: 'b', units: 2, rationale: 'Expand' });
+    assert.deepEqual(plan.moves.slice(1).map(step => isInvalidStep(step) && step.error), [
+      'move 2: type must be "attack" or "transfer", to must be a territory id, units must be a positive integer, rationale must be a string',
+      'move 3 is not an object'
+    ]);
+  });
+  
+  it('throws when there is no plan', () => {
+    assert.throws(() => parseActionPlan('I would attack'), /no JSON object/);
+    assert.throws(() => parseActionPlan('{ moves: [] }'), /not valid JSON/);
+    assert.throws(() => parseActionPlan('{"summary": "Wait"}'), /no "moves" list/);
+  });
+});
+
+describe('AIPlayer with a scripted advisor', () => {
+  it('plays a legal plan in order', async () => {
+    const { rules, advisor, messages, actions } = await playTurn(JSON.stringify({
+      summary: 'Mass on the front, then take B',
+      moves: [
+        { type: 'transfer', from: 'd', to: 'c', units: 3, rationale: 'Mass on the front' },
+        // Names work as well as ids
+        { type: 'attack', from: 'C', to: 'B', units: 5, rationale: 'Take B' }
+      ]
+    }));
+    
+    assert.equal(advisor.requests.length, 1);
+    assert.equal(advisor.requests[0].owner, AI.id);
+    assert.deepEqual(actions.map(a => [a.type, a.from.id, a.to.id, a.units, a.rationale]), [
+      ['transfer', 'd', 'c', 3, 'Mass on the front'],
+      ['attack', 'c', 'b', 5, 'Take B']
+    ]);
+    assert.ok(messages.includes(`${AI.name} Strategy: Mass on the front, then take B`));
+    assert.equal(rules.getBoard().getTerritory('d').units, 1);
+  });
+  
+  it('rejects illegal moves and plays its own instead', async () => {
+    // C is strong enough that taking B is worth it, and D has units to spare
+    const { rules, messages, actions } = await playTurnOn(createRules(createLine([5, 4, 8, 5])), JSON.stringify({
+      summary: 'Cheat',
+      moves: [
+        { type: 'attack', from: 'a', to: 'b', units: 4, rationale: 'Not our territory' },
+        { type: 'transfer', from: 'd', to: 'c', units: 5, rationale: 'Too many units' }
+      ]
+    }));
+    
+    assert.ok(messages.includes(`${AI.name} rejected planned attack a -> b (A is not yours), choosing another move`));
+    assert.ok(messages.includes(`${AI.name} rejected planned transfer d -> c (D can only send 4 units), choosing another move`));
+    assert.equal(actions.length, 2);
+    assert.ok(actions.every(action => action.rationale === undefined));
+    assert.equal(rules.getBoard().getTerritory('a').units, 5);
+  });
+  
+  it('skips rejected moves when no move is worth playing instead', async () => {
+    const { rules, messages, actions } = await playTurn(JSON.stringify({
+      summary: 'Misremembered map',
+      moves: [
+        { type: 'attack', from: 'c', to: 'x', units: 2, rationale: 'No such territory' },
+        { type: 'transfer', from: 'Nowhere', to: 'c', units: 2, rationale: 'No such territory' }
+      ]
+    }));
+    
+    // Two against two for B is not worth the risk, and D has too few units to spare
+    assert.ok(messages.includes(`${AI.name} rejected planned attack c -> x (unknown territory "x"), skipping it`));
+    assert.ok(messages.includes(`${AI.name} rejected planned transfer Nowhere -> c (unknown territory "Nowhere"), skipping it`));
+    assert.equal(actions.length, 0);
+    assert.deepEqual(rules.getBoard().getTerritories().map(t => t.units), [5, 2, 3, 4]);
+  });
+  
+  it('falls back to basic strategy when the reply is not a plan', async () => {
+    const { messages, actions } = await playTurn('Attack everything!');
+    
+    assert.ok(messages.includes(`${AI.name} is making decisions based on basic strategy (invalid plan: reply contains no JSON object)`));
+    assert.ok(actions.length > 0);
+  });
+  
+  it('plays the plans of the rule-based advisor', async () => {
+    const rules = createRules();
+    const plan = parseActionPlan(await new RuleBasedStrategyProvider().getStrategy({ board: rules.getBoard(), owner: AI.id }));
+    const { actions } = await playTurn(JSON.stringify(plan));
+    
+    assert.deepEqual(actions.slice(0, plan.moves.length).map(a => a.rationale), plan.moves.map(m => !isInvalidStep(m) && m.rationale));
+  });
+});
+
+describe('AIPlayer.placeReinforcements', () => {
+  it('places every unit on its own border territories', async () => {
+    for (const search of [null, new SearchAI(AI.id, DIFFICULTY_PRESETS.normal)]) {
+      const rules = createRules();
+      const ai = new AIPlayer(rules, AI, null, search, () => {});
+      const placed: PlaceResult[] = [];
+      ai.onPlace = result => placed.push(result);
+      await ai.placeReinforcements(5);
+      
+      // c borders the neutral b, d only borders c
+      assert.deepEqual([...new Set(placed.map(p => p.territory))], ['c']);
+      assert.equal(placed.reduce((sum, p) => sum + p.units, 0), 5);
+      assert.equal(rules.getBoard().getTerritory('c').units, 8);
+    }
+  });
+});
+
+describe('AIPlayer under fog of war', () => {
+  it('reports its attacks without unit counts or strengths', async () => {
+    const rules = createRules(undefined, { fogOfWar: true });
+    const messages: string[] = [];
+    const attacks: AIAction[] = [];
+    const ai = new AIPlayer(rules, AI, null, null, message => messages.push(message));
+    ai.onAction = action => action.type === 'attack' && attacks.push(action);
+    await ai.executeTurn();
+    
+    assert.ok(attacks.length > 0);
+    assert.ok(messages.includes(`${AI.name} C attacks B`));
+    assert.ok(messages.every(message => !/\d/.test(message)), messages.join('\n'));
+  });
+});
+
+describe('createStrategyProvider', () => {
+  it('uses the rule-based advisor unless a chat model is configured', () => {
+    assert.ok(createStrategyProvider({}) instanceof RuleBasedStrategyProvider);
+    assert.ok(createStrategyProvider({ VITE_STRATEGY_PROVIDER: 'chat' }) instanceof RuleBasedStrategyProvider);
+    assert.equal(createStrategyProvider({ VITE_STRATEGY_PROVIDER: 'none' }), null);
+    assert.ok(createStrategyProvider({ VITE_LLM_MODEL: 'deepseek-chat' }) instanceof ChatCompletionStrategyProvider);
+  });
+  
+  it('falls back in production builds, which have no key proxy', () => {
+    assert.ok(createStrategyProvider({ VITE_LLM_MODEL: 'deepseek-chat', PROD: true }) instanceof RuleBasedStrategyProvider);
+    const direct = createStrategyProvider({ VITE_LLM_MODEL: 'llama3', VITE_LLM_BASE_URL: 'http://localhost:11434/v1', PROD: true });
+    assert.equal(direct?.name, 'llama3 (http://localhost:11434/v1)');
+  });
+});
@@ -0,0 +1,22 @@
+import { Board, Owner, TerritoryData } from '../src/game/Board';
+import { Random } from '../src/game/Random';
+import { DEFAULT_RULES_OPTIONS, Rules, RulesOptions } from '../src/game/Rules';
+
+// A plains territory at the origin; tests only care about owners, units and links
+export function territory(id: string, owner: Owner, units: number, neighbors: string[]): TerritoryData {
+  return { id, name: id.toUpperCase(), owner, units, x: 0, z: 0, neighbors };
+}
+
+// a - b - c - d in a row: the player holds a, b is neutral, the AI holds c and d
+export function createLine(units: [number, number, number, number] = [5, 2, 3, 4]): TerritoryData[] {
+  return [
+    territory('a', 'player', units[0], ['b']),
+    territory('b', 'neutral', units[1], ['a', 'c']),
+    territory('c', 'ai', units[2], ['b', 'd']),
+    territory('d', 'ai', units[3], ['c'])
+  ];
+}
+
+export function createRules(territories: TerritoryData[] = createLine(), options: Partial<RulesOptions> = {}, seed: number = 1): Rules {
+  return new Rules(new Board(territories), new Random(seed), { ...DEFAULT_RULES_OPTIONS, ...options });
+}
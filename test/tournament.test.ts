@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { simulateMatch } from '../src/game/Simulation';
+import { Faction, FACTION_ROSTER } from '../src/game/Faction';
+import { BUNDLED_MAPS } from '../src/maps';
+import { findAgent } from '../tools/Agents';
+
+// Runs the tournament CLI and returns its JSON results
+function runTournament(...args: string[]): unknown {
+  const output = execFileSync(process.execPath, ['--import', 'tsx', 'tools/tournament.ts', ...args], {
+    encoding: 'utf8',
+    stdio: ['ignore', 'pipe', 'ignore']
+  });
+  return JSON.parse(output);
+}
+
+describe('tournament', { timeout: 60000 }, () => {
+  it('plays a seed to the same result every time', async () => {
+    const factions: Faction[] = FACTION_ROSTER.slice(0, 2).map(f => ({ ...f, controller: 'ai' }));
+    const agents = [findAgent('advisor')!, findAgent('hard')!];
+    const play = () => simulateMatch({
+      map: BUNDLED_MAPS[1],
+      factions,
+      createAI: (rules, faction) => agents[factions.indexOf(faction)].create(rules, faction, { nodeBudget: Infinity }),
+      seed: 11,
+      maxRounds: 40
+    });
+    
+    assert.deepEqual(await play(), await play());
+  });
+  
+  it('reports the same results for the same first seed', () => {
+    const args = ['--agents', 'heuristic,normal', '--games', '2', '--max-rounds', '40', '--seed', '7'];
+    const first = runTournament(...args);
+    
+    assert.deepEqual(runTournament(...args), first);
+    assert.equal((first as { matchups: unknown[] }).matchups.length, 1);
+  });
+});
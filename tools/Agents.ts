@@ -0,0 +1,46 @@
+import { AIPlayer } from '../src/game/AIPlayer';
+import { Rules } from '../src/game/Rules';
+import { Faction } from '../src/game/Faction';
+import { RuleBasedStrategyProvider } from '../src/game/StrategyProvider';
+import { DIFFICULTIES, DIFFICULTY_PRESETS, SearchAI } from '../src/game/SearchAI';
+
+export interface AgentOptions {
+  // Positions per search move, in place of the presets' time budgets so that
+  // seeded games replay the same; Infinity searches to full depth
+  nodeBudget: number;
+}
+
+export interface Agent {
+  name: string;
+  description: string;
+  create(rules: Rules, faction: Faction, options: AgentOptions): AIPlayer;
+}
+
+const quiet = () => {};
+
+// Every AI the tournament can field, by the name used on the command line
+export const AGENTS: Agent[] = [
+  {
+    name: 'heuristic',
+    description: 'AIPlayer without an advisor: the top moves by evaluateAttack/evaluateTransfer',
+    create: (rules, faction) => new AIPlayer(rules, faction, null, null, quiet)
+  },
+  {
+    name: 'advisor',
+    description: 'AIPlayer following the rule-based advisor\'s plans',
+    create: (rules, faction) => new AIPlayer(rules, faction, new RuleBasedStrategyProvider(), null, quiet)
+  },
+  ...DIFFICULTIES.map((difficulty): Agent => ({
+    name: difficulty,
+    description: `Search AI, ${DIFFICULTY_PRESETS[difficulty].label} preset`,
+    create: (rules, faction, options) => {
+      const preset = { ...DIFFICULTY_PRESETS[difficulty], timeBudget: Infinity, nodeBudget: options.nodeBudget };
+      const search = new SearchAI(faction.id, preset, rules.getRandom(), rules.getOptions().ruleSet);
+      return new AIPlayer(rules, faction, null, search, quiet);
+    }
+  }))
+];
+
+export function findAgent(name: string): Agent | undefined {
+  return AGENTS.find(agent => agent.name === name);
+}
@@ -0,0 +1,83 @@
+// One finished game of a matchup. Seat 0 moves first.
+export interface PlayedGame {
+  seed: number;
+  // Seat agent A played; B had the other one
+  seatA: 0 | 1;
+  // Null for a draw at the round limit
+  winnerSeat: 0 | 1 | null;
+  rounds: number;
+}
+
+export interface Rate {
+  value: number;
+  // 95% Wilson score interval
+  low: number;
+  high: number;
+}
+
+export interface MatchupSummary {
+  agentA: string;
+  agentB: string;
+  games: number;
+  winsA: number;
+  winsB: number;
+  draws: number;
+  winRateA: Rate;
+  winRateB: Rate;
+  averageRounds: number;
+  // Share of decided games won by the side that moved first
+  firstMoverWinRate: Rate;
+}
+
+// Wilson score interval, which stays sensible for small samples and rates near 0 or 1
+export function wilsonInterval(successes: number, trials: number, z: number = 1.96): Rate {
+  if (trials === 0) {
+    return { value: 0, low: 0, high: 1 };
+  }
+  
+  const p = successes / trials;
+  const z2 = z * z;
+  const center = (p + z2 / (2 * trials)) / (1 + z2 / trials);
+  const margin = (z / (1 + z2 / trials)) * Math.sqrt(p * (1 - p) / trials + z2 / (4 * trials * trials));
+  return { value: p, low: Math.max(0, center - margin), high: Math.min(1, center + margin) };
+}
+
+export function summarizeMatchup(agentA: string, agentB: string, games: PlayedGame[]): MatchupSummary {
+  const winsA = games.filter(g => g.winnerSeat !== null && g.winnerSeat === g.seatA).length;
+  const draws = games.filter(g => g.winnerSeat === null).length;
+  const winsB = games.length - winsA - draws;
+  const decided = games.length - draws;
+  const firstMoverWins = games.filter(g => g.winnerSeat === 0).length;
+  
+  return {
+    agentA,
+    agentB,
+    games: games.length,
+    winsA,
+    winsB,
+    draws,
+    winRateA: wilsonInterval(winsA, games.length),
+    winRateB: wilsonInterval(winsB, games.length),
+    averageRounds: games.length > 0 ? games.reduce((sum, g) => sum + g.rounds, 0) / games.length : 0,
+    firstMoverWinRate: wilsonInterval(firstMoverWins, decided)
+  };
+}
+
+const CSV_COLUMNS = [
+  'agentA', 'agentB', 'games', 'winsA', 'winsB', 'draws',
+  'winRateA', 'winRateALow', 'winRateAHigh', 'winRateB', 'winRateBLow', 'winRateBHigh',
+  'averageRounds', 'firstMoverWinRate', 'firstMoverLow', 'firstMoverHigh'
+];
+
+export function toCsv(summaries: MatchupSummary[]): string {
+  const round = (n: number) => String(Math.round(n * 10000) / 10000);
+  const rows = summaries.map(s => [
+    s.agentA, s.agentB, s.games, s.winsA, s.winsB, s.draws,
+    round(s.winRateA.value), round(s.winRateA.low), round(s.winRateA.high),
+    round(s.winRateB.value), round(s.winRateB.low), round(s.winRateB.high),
+    round(s.averageRounds),
+    round(s.firstMoverWinRate.value), round(s.firstMoverWinRate.low), round(s.firstMoverWinRate.high)
+  ].join(','));
+  
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
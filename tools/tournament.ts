@@ -0,0 +1,233 @@
+import { writeFileSync } from 'node:fs';
+import { Faction, FACTION_ROSTER } from '../src/game/Faction';
+import { MapDefinition } from '../src/game/MapLoader';
+import { generateMap, parseMapCode } from '../src/game/MapGenerator';
+import { DEFAULT_RULES_OPTIONS } from '../src/game/Rules';
+import { CLASSIC_RULE_SET, findRuleSet, RULE_SETS, RuleSet } from '../src/game/RuleSet';
+import { simulateMatch } from '../src/game/Simulation';
+import { BUNDLED_MAPS } from '../src/maps';
+import { Agent, AGENTS, findAgent } from './Agents';
+import { MatchupSummary, PlayedGame, summarizeMatchup, toCsv } from './Stats';
+
+// Headless AI-vs-AI tournament: `npm run tournament -- --agents heuristic,normal --games 500`.
+// Every pair of agents plays the same seeds from both seats, results go to
+// stdout (or --out) as JSON or CSV, progress to stderr.
+
+interface TournamentOptions {
+  agents: Agent[];
+  games: number;
+  map: MapDefinition;
+  seed: number;
+  maxRounds: number;
+  // Play every seed a second time with the seats swapped
+  mirror: boolean;
+  nodeBudget: number;
+  fogOfWar: boolean;
+  ruleSet: RuleSet;
+  format: 'json' | 'csv';
+  out: string | null;
+}
+
+const USAGE = `Usage: npm run tournament -- [options]
+
+  --agents a,b,...     Agents to play round robin (default heuristic,normal)
+  --games n            Seeds per matchup (default 100)
+  --map id|code        Bundled map id or generator code like hex-24-7 (default ${BUNDLED_MAPS[0].id})
+  --seed n             First seed, the others follow (default 1)
+  --max-rounds n       Rounds before a game is a draw (default 200)
+  --no-mirror          Play each seed once instead of from both seats
+  --node-budget n      Positions searched per move (default: none, full depth)
+  --fog-of-war         Play with fog of war
+  --rules id           Rule set: ${RULE_SETS.map(r => r.id).join(', ')} (default ${CLASSIC_RULE_SET.id})
+  --format json|csv    Output format (default json)
+  --out file           Write the results to a file instead of stdout
+
+Agents:
+${AGENTS.map(agent => `  ${agent.name.padEnd(20)} ${agent.description}`).join('\n')}
+`;
+
+function parseArgs(args: string[]): TournamentOptions {
+  const options: TournamentOptions = {
+    agents: [findAgent('heuristic')!, findAgent('normal')!],
+    games: 100,
+    map: BUNDLED_MAPS[0],
+    seed: 1,
+    maxRounds: 200,
+    mirror: true,
+    nodeBudget: Infinity,
+    fogOfWar: false,
+    ruleSet: CLASSIC_RULE_SET,
+    format: 'json',
+    out: null
+  };
+  
+  const value = (i: number) => {
+    if (i >= args.length) throw new Error(`${args[i - 1]} needs a value`);
+    return args[i];
+  };
+  const count = (i: number) => {
+    const n = Number(value(i));
+    if (!Number.isInteger(n) || n < 1) throw new Error(`${args[i - 1]} must be a positive integer`);
+    return n;
+  };
+  
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--agents':
+        options.agents = value(++i).split(',').map(name => {
+          const agent = findAgent(name.trim());
+          if (!agent) throw new Error(`Unknown agent "${name}"`);
+          return agent;
+        });
+        break;
+      case '--games':
+        options.games = count(++i);
+        break;
+      case '--map': {
+        const ref = value(++i);
+        const generated = parseMapCode(ref);
+        const map = BUNDLED_MAPS.find(m => m.id === ref) ?? (generated ? generateMap(generated) : undefined);
+        if (!map) throw new Error(`Unknown map "${ref}"`);
+        options.map = map;
+        break;
+      }
+      case '--seed':
+        options.seed = Number(value(++i)) >>> 0;
+        break;
+      case '--max-rounds':
+        options.maxRounds = count(++i);
+        break;
+      case '--no-mirror':
+        options.mirror = false;
+        break;
+      case '--node-budget':
+        options.nodeBudget = count(++i);
+        break;
+      case '--fog-of-war':
+        options.fogOfWar = true;
+        break;
+      case '--rules': {
+        const id = value(++i);
+        const ruleSet = findRuleSet(id);
+        if (!ruleSet) throw new Error(`Unknown rule set "${id}"`);
+        options.ruleSet = ruleSet;
+        break;
+      }
+      case '--format': {
+        const format = value(++i);
+        if (format !== 'json' && format !== 'csv') throw new Error('--format must be json or csv');
+        options.format = format;
+        break;
+      }
+      case '--out':
+        options.out = value(++i);
+        break;
+      default:
+        throw new Error(`Unknown option "${args[i]}"`);
+    }
+  }
+  
+  if (options.agents.length < 1) {
+    throw new Error('--agents needs at least one agent');
+  }
+  return options;
+}
+
+// Every pair of distinct entries, or a mirror match when only one agent is given
+function getMatchups(agents: Agent[]): [Agent, Agent][] {
+  if (agents.length === 1) {
+    return [[agents[0], agents[0]]];
+  }
+  
+  const matchups: [Agent, Agent][] = [];
+  for (let i = 0; i < agents.length; i++) {
+    for (let j = i + 1; j < agents.length; j++) {
+      matchups.push([agents[i], agents[j]]);
+    }
+  }
+  return matchups;
+}
+
+async function playMatchup(a: Agent, b: Agent, options: TournamentOptions, onGame: () => void): Promise<PlayedGame[]> {
+  const seats = FACTION_ROSTER.slice(0, 2);
+  const games: PlayedGame[] = [];
+  
+  for (let n = 0; n < options.games; n++) {
+    const seed = (options.seed + n) >>> 0;
+    
+    for (const seatA of options.mirror ? [0, 1] as const : [0] as const) {
+      const players = seatA === 0 ? [a, b] : [b, a];
+      const factions: Faction[] = seats.map((seat, i) => ({ ...seat, controller: 'ai', name: players[i].name }));
+      
+      const result = await simulateMatch({
+        map: options.map,
+        factions,
+        createAI: (rules, faction) => players[factions.indexOf(faction)].create(rules, faction, options),
+        seed,
+        maxRounds: options.maxRounds,
+        options: { ...DEFAULT_RULES_OPTIONS, fogOfWar: options.fogOfWar, ruleSet: options.ruleSet }
+      });
+      
+      const winnerSeat = result.winner === null ? null : factions.findIndex(f => f.id === result.winner) as 0 | 1;
+      games.push({ seed, seatA, winnerSeat, rounds: result.rounds });
+      onGame();
+    }
+  }
+  return games;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (args.includes('--help')) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  
+  let options: TournamentOptions;
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(USAGE);
+    process.exit(1);
+  }
+  
+  const matchups = getMatchups(options.agents);
+  const total = matchups.length * options.games * (options.mirror ? 2 : 1);
+  let played = 0;
+  const started = Date.now();
+  const progress = () => {
+    played++;
+    if (played === total || played % Math.max(1, Math.floor(total / 20)) === 0) {
+      console.error(`${played}/${total} games (${((Date.now() - started) / 1000).toFixed(1)}s)`);
+    }
+  };
+  
+  const summaries: MatchupSummary[] = [];
+  for (const [a, b] of matchups) {
+    summaries.push(summarizeMatchup(a.name, b.name, await playMatchup(a, b, options, progress)));
+  }
+  
+  const output = options.format === 'csv'
+    ? toCsv(summaries)
+    : JSON.stringify({
+        map: options.map.id,
+        firstSeed: options.seed,
+        gamesPerMatchup: options.games,
+        mirrored: options.mirror,
+        maxRounds: options.maxRounds,
+        nodeBudget: Number.isFinite(options.nodeBudget) ? options.nodeBudget : null,
+        fogOfWar: options.fogOfWar,
+        rules: options.ruleSet.id,
+        matchups: summaries
+      }, null, 2) + '\n';
+  
+  if (options.out) {
+    writeFileSync(options.out, output);
+    console.error(`Results written to ${options.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+main();
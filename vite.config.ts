@@ -0,0 +1,20 @@
+import { defineConfig, loadEnv } from 'vite';
+
+export default defineConfig(({ mode }) => {
+  // Variables without the VITE_ prefix stay on the dev server, so the LLM
+  // API key is added to proxied requests and never reaches the bundle
+  const env = loadEnv(mode, process.cwd(), '');
+  
+  return {
+    server: {
+      proxy: env.LLM_PROXY_TARGET ? {
+        '/llm': {
+          target: env.LLM_PROXY_TARGET,
+          changeOrigin: true,
+          rewrite: path => path.replace(/^\/llm/, ''),
+          headers: env.LLM_API_KEY ? { Authorization: `Bearer ${env.LLM_API_KEY}` } : undefined
+        }
+      } : undefined
+    }
+  };
+});